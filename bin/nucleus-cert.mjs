@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { require as tsxRequire } from "tsx/cjs/api";
+
+tsxRequire("../src/cli/nucleus-cert.ts", import.meta.url);
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native canvas bindings used by the API routes must not be bundled.
+  serverExternalPackages: ["@napi-rs/canvas"],
 };
 
 export default nextConfig;
@@ -0,0 +1,64 @@
+import { contentDisposition, errorResponse, httpError, requireApiKey } from "@/lib/api";
+import { loadDesign } from "@/lib/design-store";
+import { filesPerRecipient } from "@/lib/engine";
+import { slugify } from "@/lib/files";
+import { pagePaths } from "@/lib/naming";
+import { isMergedFormat } from "@/lib/pdf";
+import { bindRecipients, createDesignRenderer, parseFormat } from "@/lib/server-render";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/certificates/:designId?name=Jane+Doe&Course=... → one certificate.
+ * Every query parameter except `format` and `page` is a field; `name` fills
+ * the design's name column. PNGs of multi-page designs return one page,
+ * picked with `page` (from 1). The ID is not registered, so it only
+ * verifies once issued through `POST /api/certificates` or `/api/registry`.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ designId: string }> }) {
+  try {
+    requireApiKey(request);
+    const { designId } = await params;
+    const design = await loadDesign(designId);
+
+    const query = new URL(request.url).searchParams;
+    const format = parseFormat(query.get("format"), "png");
+    if (isMergedFormat(format)) {
+      throw httpError(400, "Use format=pdf for a single certificate.");
+    }
+
+    const page = Number(query.get("page") ?? 1);
+    const fields = Object.fromEntries(
+      [...query].filter(([key]) => key !== "format" && key !== "page")
+    );
+    const nameLabel = design.columns[design.nameColumn] || "Name";
+    if (
+      !Object.keys(fields).some((key) => key.toLowerCase() === nameLabel.toLowerCase()) &&
+      fields.name
+    ) {
+      fields[nameLabel] = fields.name;
+      delete fields.name;
+    }
+
+    const { columns, rows, names, ids } = bindRecipients(design, [fields]);
+    const origin = new URL(request.url).origin;
+    const { config, renderer } = await createDesignRenderer(design, format, rows, columns, origin);
+    const fileCount = filesPerRecipient(config);
+    if (!Number.isInteger(page) || page < 1 || page > fileCount) {
+      throw httpError(400, `page must be a whole number from 1 to ${fileCount}.`);
+    }
+    const files = await renderer.render(rows[0], names[0]);
+
+    const fileName = pagePaths(`${slugify(names[0], 0)}.${format}`, fileCount)[page - 1];
+    return new Response(files[page - 1] as BodyInit, {
+      headers: {
+        "Content-Type": format === "pdf" ? "application/pdf" : "image/png",
+        "Content-Disposition": contentDisposition(fileName, true),
+        "Cache-Control": "private, no-store",
+        "X-Certificate-Id": ids[0],
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
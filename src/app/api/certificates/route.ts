@@ -0,0 +1,92 @@
+import {
+  API_LIMITS,
+  contentDisposition,
+  errorResponse,
+  httpError,
+  readJsonBody,
+  requireApiKey,
+  requireConfiguredApiKey,
+} from "@/lib/api";
+import { isDesignId, loadDesign } from "@/lib/design-store";
+import { bundleFileName } from "@/lib/naming";
+import { isMergedFormat } from "@/lib/pdf";
+import { registerCertificates } from "@/lib/registry-store";
+import {
+  bindRecipients,
+  createDesignRenderer,
+  parseFormat,
+  registryFor,
+  renderMergedPdf,
+  streamArchive,
+} from "@/lib/server-render";
+
+export const runtime = "nodejs";
+
+/**
+ * POST { designId, recipients, format?, register? } → a ZIP of PNG/PDF
+ * certificates, or one PDF when format is "pdf-merged" or "pdf-print"
+ * (imposed sheets). The IDs are registered for verification unless register
+ * is false, which is the only way to generate without NUCLEUS_API_KEY.
+ */
+export async function POST(request: Request) {
+  try {
+    requireApiKey(request);
+    const body = await readJsonBody(request, API_LIMITS.maxBodyBytes);
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw httpError(400, "Expected a JSON object with designId and recipients.");
+    }
+
+    const {
+      designId,
+      recipients,
+      format: requestedFormat,
+      register = true,
+    } = body as Record<string, unknown>;
+    if (!isDesignId(designId)) {
+      throw httpError(400, "designId is required.");
+    }
+    if (typeof register !== "boolean") {
+      throw httpError(400, "register must be true or false.");
+    }
+    if (register) {
+      requireConfiguredApiKey(request, "Registering certificates");
+    }
+
+    const design = await loadDesign(designId);
+    const format = parseFormat(requestedFormat, design.output.format);
+    const { columns, rows, names, ids, event } = bindRecipients(design, recipients);
+    const origin = new URL(request.url).origin;
+    const batch = {
+      ...(await createDesignRenderer(design, format, rows, columns, origin)),
+      rows,
+      names,
+      ids,
+      event,
+    };
+    // Registered up front so IDs verify as soon as the certificates exist.
+    if (register) {
+      await registerCertificates(registryFor(batch));
+    }
+    const naming = design.output.files;
+    const baseName = design.name || designId;
+
+    if (isMergedFormat(format)) {
+      const bytes = await renderMergedPdf(batch, design.name);
+      return new Response(bytes as BodyInit, {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": contentDisposition(bundleFileName(naming, baseName, "pdf")),
+        },
+      });
+    }
+
+    return new Response(streamArchive(batch, naming), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": contentDisposition(bundleFileName(naming, baseName, "zip")),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
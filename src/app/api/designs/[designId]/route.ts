@@ -0,0 +1,38 @@
+import {
+  API_LIMITS,
+  errorResponse,
+  readJsonBody,
+  requireApiKey,
+  requireConfiguredApiKey,
+} from "@/lib/api";
+import { loadDesign, saveDesign } from "@/lib/design-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ designId: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    requireApiKey(request);
+    const { designId } = await params;
+    return Response.json(await loadDesign(designId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Replaces a published design, keeping its ID so integrations keep working; needs the API key. */
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    requireConfiguredApiKey(request, "Publishing designs");
+    const { designId } = await params;
+    await loadDesign(designId);
+    const design = await saveDesign(
+      designId,
+      await readJsonBody(request, API_LIMITS.maxDesignBytes)
+    );
+    return Response.json({ id: designId, name: design.name, savedAt: design.savedAt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
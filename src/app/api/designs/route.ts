@@ -0,0 +1,37 @@
+import {
+  API_LIMITS,
+  errorResponse,
+  readJsonBody,
+  requireApiKey,
+  requireConfiguredApiKey,
+} from "@/lib/api";
+import { createDesignId, listDesigns, saveDesign } from "@/lib/design-store";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    requireApiKey(request);
+    return Response.json({ designs: await listDesigns() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Publishes a saved project file (`*.nucleus.json`) and returns its design
+ * ID. Needs the API key, since every render request runs what it stores.
+ */
+export async function POST(request: Request) {
+  try {
+    requireConfiguredApiKey(request, "Publishing designs");
+    const body = await readJsonBody(request, API_LIMITS.maxDesignBytes);
+    const id = createDesignId(
+      typeof body === "object" && body && "name" in body ? String(body.name) : ""
+    );
+    const design = await saveDesign(id, body);
+    return Response.json({ id, name: design.name, savedAt: design.savedAt }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
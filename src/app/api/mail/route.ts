@@ -0,0 +1,40 @@
+import {
+  API_LIMITS,
+  errorResponse,
+  readJsonBody,
+  requireApiKey,
+  requireConfiguredApiKey,
+} from "@/lib/api";
+import { mailConfig, parseDeliveryMessage, sendDeliveryMessage } from "@/lib/mailer";
+
+export const runtime = "nodejs";
+
+/** Whether this server can send email, and as whom; sending also needs the API key. */
+export async function GET(request: Request) {
+  try {
+    requireApiKey(request);
+    const config = mailConfig();
+    return Response.json({
+      configured: Boolean(config),
+      from: config?.from ?? null,
+      keyConfigured: Boolean(process.env.NUCLEUS_API_KEY),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Sends one recipient their certificate: `{ to, subject, text, attachments }`.
+ * Refused until NUCLEUS_API_KEY is set, as it mails whatever it is given.
+ */
+export async function POST(request: Request) {
+  try {
+    requireConfiguredApiKey(request, "Sending email");
+    const message = parseDeliveryMessage(await readJsonBody(request, API_LIMITS.maxMessageBytes));
+    const { messageId, attempts } = await sendDeliveryMessage(message);
+    return Response.json({ status: "sent", to: message.to, messageId, attempts });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  API_LIMITS,
+  errorResponse,
+  httpError,
+  readJsonBody,
+  requireConfiguredApiKey,
+} from "@/lib/api";
+import { setRevoked } from "@/lib/registry-store";
+
+export const runtime = "nodejs";
+
+/**
+ * POST { ids, revoked? } → revokes issued certificates so `/verify/[id]`
+ * reports them as withdrawn, or restores them when revoked is false.
+ * Needs NUCLEUS_API_KEY, like every registry write.
+ */
+export async function POST(request: Request) {
+  try {
+    requireConfiguredApiKey(request);
+    const body = await readJsonBody(request, API_LIMITS.maxBodyBytes);
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw httpError(400, "Expected a JSON object with ids.");
+    }
+
+    const { ids, revoked = true } = body as Record<string, unknown>;
+    if (
+      !Array.isArray(ids) ||
+      !ids.length ||
+      !ids.every((id): id is string => typeof id === "string" && id.trim() !== "")
+    ) {
+      throw httpError(400, "ids must be a non-empty list of certificate IDs.");
+    }
+    if (ids.length > API_LIMITS.maxRecipients) {
+      throw httpError(413, `At most ${API_LIMITS.maxRecipients} IDs per request.`);
+    }
+    if (typeof revoked !== "boolean") {
+      throw httpError(400, "revoked must be true or false.");
+    }
+
+    const requested = ids.map((id) => id.trim());
+    const updated = await setRevoked(requested, revoked);
+    return Response.json({ updated, unknown: requested.filter((id) => !updated.includes(id)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  API_LIMITS,
+  errorResponse,
+  httpError,
+  readJsonBody,
+  requireApiKey,
+  requireConfiguredApiKey,
+} from "@/lib/api";
+import { parseRegistry, registryToCsv, registryToJson } from "@/lib/registry";
+import { loadRegistry, registerCertificates } from "@/lib/registry-store";
+
+export const runtime = "nodejs";
+
+/** Exports every issued certificate; `?format=csv` for a spreadsheet. */
+export async function GET(request: Request) {
+  try {
+    requireApiKey(request);
+    const entries = [...(await loadRegistry()).values()];
+    if (new URL(request.url).searchParams.get("format") === "csv") {
+      return new Response(registryToCsv(entries), {
+        headers: { "Content-Type": "text/csv; charset=utf-8" },
+      });
+    }
+    return new Response(registryToJson(entries), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Imports a `registry.json` produced by the app or the CLI so its IDs can be
+ * verified here. Needs NUCLEUS_API_KEY, as it makes any ID pass verification.
+ */
+export async function POST(request: Request) {
+  try {
+    requireConfiguredApiKey(request);
+    const body = await readJsonBody(request, API_LIMITS.maxDesignBytes);
+    let entries;
+    try {
+      entries = parseRegistry(body);
+    } catch (error) {
+      throw httpError(422, error instanceof Error ? error.message : "Invalid registry.");
+    }
+    const total = await registerCertificates(entries);
+    return Response.json({ imported: entries.length, total });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,126 +1,531 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import JSZip from "jszip";
-import * as XLSX from "xlsx";
+import { CertificateIdPanel } from "@/components/CertificateIdPanel";
+import { DataGrid } from "@/components/DataGrid";
+import { DeliveryPanel, type MailStatus } from "@/components/DeliveryPanel";
+import { DesignGallery } from "@/components/DesignGallery";
+import { HistoryPanel } from "@/components/HistoryPanel";
+import { ImageLayerControls } from "@/components/ImageLayerControls";
+import { LayerList } from "@/components/LayerList";
+import { OutputSettings } from "@/components/OutputSettings";
+import { ProjectPanel } from "@/components/ProjectPanel";
+import { SigningPanel } from "@/components/SigningPanel";
+import { TextStyleControls } from "@/components/TextStyleControls";
+import { VariantPanel } from "@/components/VariantPanel";
+import {
+  listRuns,
+  loadRevocations,
+  loadRunDesign,
+  recordRun,
+  restoreCertificate,
+  revokeCertificate,
+  runsRegistry,
+  type GenerationRun,
+  type RunRecipient,
+} from "@/lib/audit-log";
+import { formatDuration, isAbortError, renderBatch, type BatchProgress } from "@/lib/batch";
+import {
+  DEFAULT_CERTIFICATE_ID_SETTINGS,
+  assignCertificateIds,
+  createCertificateId,
+  resolveEventName,
+  withCertificateIds,
+  type CertificateIdSettings,
+} from "@/lib/certificate-id";
+import { describeDelimited } from "@/lib/delimited";
+import {
+  deleteLibraryDesign,
+  duplicateLibraryDesign,
+  listLibraryDesigns,
+  renameLibraryDesign,
+  renderThumbnail,
+  saveLibraryDesign,
+  type LibraryDesign,
+} from "@/lib/design-library";
+import { createDownloadSink, downloadBlob } from "@/lib/download";
+import {
+  DEFAULT_DELIVERY_SETTINGS,
+  attachmentFor,
+  buildEml,
+  composeMessage,
+  createRateLimiter,
+  deliveryReportToCsv,
+  findEmailColumn,
+  isEmailAddress,
+  recipientEmail,
+  type DeliveryMessage,
+  type DeliveryResult,
+  type DeliverySettings,
+} from "@/lib/email";
+import { createDomBackend, registerFontSources } from "@/lib/dom-backend";
+import {
+  createCertificateRenderer,
+  filesPerRecipient,
+  renderConfigFromDesign,
+} from "@/lib/engine";
+import { slugify } from "@/lib/files";
+import { customFontSources, loadFontCoverage, resolveFontSources } from "@/lib/font-sources";
+import {
+  CUSTOM_FONT_PREFIX,
+  FALLBACK_FONTS,
+  FONT_FILE_ACCEPT,
+  FONT_OPTIONS,
+  FONT_SIZE_MAX,
+  FONT_SIZE_MIN,
+  createCustomFont,
+  customFontKey,
+  getFontOption,
+  primaryFamily,
+  type CustomFont,
+  type FontValue,
+} from "@/lib/fonts";
+import { describeGlyphGap, findGlyphGap, type Coverage } from "@/lib/glyphs";
+import {
+  NO_GUIDES,
+  SNAP_DISTANCE_PX,
+  rulerStep,
+  rulerTicks,
+  snapPoint,
+  type SnapGuides,
+} from "@/lib/guides";
+import {
+  createHistory,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+  type History,
+} from "@/lib/history";
+import {
+  addToImageLibrary,
+  createStaticImage,
+  describeMissingImages,
+  findImage,
+  findMissingImages,
+  readZipFiles,
+  resolveRowImages,
+  type ImageLibrary,
+} from "@/lib/images";
+import { DEFAULT_PRINT_OPTIONS, createPdfWriter, type PrintOptions } from "@/lib/imposition";
+import {
+  DEFAULT_LAYERS,
+  TEXT_ALIGN_OPTIONS,
+  TEXT_FIT_OPTIONS,
+  createImageLayer,
+  createQrLayer,
+  createTextLayer,
+  isTextLayer,
+  rebindColumn,
+  resolveLayerText,
+  transformText,
+  validateLayer,
+  type ImageLayer,
+  type Layer,
+  type TextLayer,
+} from "@/lib/layers";
+import {
+  boxFromCorner,
+  createCanvasMeasurer,
+  layerBoxRect,
+  layoutText,
+  type TextLayout,
+} from "@/lib/layout";
+import {
+  DEFAULT_FILE_NAMING,
+  FILE_MANIFEST_NAME,
+  bundleFileName,
+  fileNameOf,
+  outputManifestCsv,
+  pagePaths,
+  planOutputPaths,
+  validateNaming,
+  type FileNaming,
+  type OutputFile,
+} from "@/lib/naming";
+import {
+  DEFAULT_PDF_OPTIONS,
+  createCertificatePdf,
+  isMergedFormat,
+  setPdfSignatures,
+  type OutputFormat,
+  type PdfOptions,
+} from "@/lib/pdf";
+import {
+  DEFAULT_TEMPLATE_SRC,
+  MAX_TEMPLATE_SIDE,
+  bindProjectToColumns,
+  createDesignPage,
+  designLayers,
+  designPages,
+  createProject,
+  parseProject,
+  projectFileName,
+  readProjectFile,
+  remapColumn,
+  remapLayerColumns,
+  serializeProject,
+  type DesignPage,
+  type Project,
+  type ProjectState,
+  type ProjectTemplate,
+} from "@/lib/project";
+import {
+  REGISTRY_FILE_NAMES,
+  createRegistryEntries,
+  registryToCsv,
+  registryToJson,
+  withRevocations,
+  type RegistryEntry,
+} from "@/lib/registry";
+import {
+  drawImageLayer,
+  drawQrLayer,
+  drawTextLayer,
+  fontSpecFor,
+  resolveQrValue,
+} from "@/lib/render";
+import { SCRIPT_FALLBACKS, fontStackFor, scriptOf, textDirection } from "@/lib/scripts";
+import {
+  defaultSheetIndex,
+  extractRecipients,
+  parseSheetRows,
+  readPastedTable,
+  readSpreadsheet,
+  rowsToXlsx,
+  type ColumnOption,
+  type Workbook,
+} from "@/lib/sheet";
+import {
+  MANIFEST_FILE_NAME,
+  SIGNATURE_KEYWORD,
+  createClaims,
+  generateSigningKey,
+  hashDesign,
+  importPrivateKey,
+  parseSigningKey,
+  sha256Hex,
+  signClaims,
+  signManifest,
+  signingKeyToJson,
+  type ManifestFile,
+  type SigningKey,
+} from "@/lib/signing";
+import { STARTER_COLUMNS, STARTER_DESIGNS, type StarterDesign } from "@/lib/starters";
+import {
+  API_KEY,
+  AUTOSAVE_KEY,
+  SIGNING_KEY,
+  STORES,
+  deleteItem,
+  getItem,
+  setItem,
+} from "@/lib/storage";
+import { createZipWriter, type ZipWriter } from "@/lib/zip";
+import { describeIssue, renderTemplate, validateTemplate } from "@/lib/template";
+import {
+  DEFAULT_VARIANT_SETTINGS,
+  applyVariantColor,
+  createVariantMatcher,
+  variantFolder,
+  variantName,
+  type VariantSettings,
+} from "@/lib/variants";
 
 type UploadStatus = "idle" | "parsing" | "ready" | "error";
 type GenerateStatus = "idle" | "running" | "success" | "error";
-
-const FONT_OPTIONS = [
-  {
-    label: "Algerian",
-    value: "algerian",
-    fontFamily: '"Algerian", "Times New Roman", serif',
-  },
-  {
-    label: "Playfair Display",
-    value: "playfair-display",
-    fontFamily: '"Playfair Display", serif',
-  },
-  {
-    label: "Great Vibes",
-    value: "great-vibes",
-    fontFamily: '"Great Vibes", cursive',
-  },
-  {
-    label: "Cinzel",
-    value: "cinzel",
-    fontFamily: '"Cinzel", serif',
-  },
-  {
-    label: "Cormorant Garamond",
-    value: "cormorant-garamond",
-    fontFamily: '"Cormorant Garamond", serif',
-  },
-  {
-    label: "Pinyon Script",
-    value: "pinyon-script",
-    fontFamily: '"Pinyon Script", cursive',
-  },
-  {
-    label: "Sacramento",
-    value: "sacramento",
-    fontFamily: '"Sacramento", cursive',
-  },
-  {
-    label: "Montserrat",
-    value: "montserrat",
-    fontFamily: '"Montserrat", sans-serif',
-  },
-  {
-    label: "Raleway",
-    value: "raleway",
-    fontFamily: '"Raleway", sans-serif',
-  },
-  {
-    label: "Roboto Slab",
-    value: "roboto-slab",
-    fontFamily: '"Roboto Slab", serif',
-  },
-] as const;
-
-type FontValue = (typeof FONT_OPTIONS)[number]["value"];
-const FONT_SIZE_MIN = 10;
-const FONT_SIZE_MAX = 240;
+type DragState = {
+  layerId: string;
+  mode: "move" | "resize";
+  /** Anchors of the other layers, for snapping. */
+  anchors: { x: number; y: number }[];
+};
+/** What undo and redo restore: every page, and which one was being edited. */
+type DesignSnapshot = { pages: DesignPage[]; activePage: number };
 
 const clamp = (value: number, min = 0, max = 1) =>
   Math.min(max, Math.max(min, value));
 
-const downloadBlob = (blob: Blob, filename: string) => {
-  const url = window.URL.createObjectURL(blob);
-  const anchor = document.createElement("a");
-  anchor.href = url;
-  anchor.download = filename;
-  anchor.click();
-  window.URL.revokeObjectURL(url);
+const AUTOSAVE_DELAY_MS = 800;
+
+/** Quiet time after which layout edits become one undo step, so a drag undoes at once. */
+const HISTORY_SETTLE_MS = 500;
+
+const NUDGE_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+/** Template pixels per arrow key press, and with Shift held. */
+const NUDGE_STEP_PX = 1;
+const NUDGE_SHIFT_STEP_PX = 10;
+
+const NON_TEXT_INPUTS = new Set(["button", "checkbox", "color", "file", "radio", "range"]);
+
+/** Fields where Ctrl+Z should undo typing rather than layout edits. */
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && !NON_TEXT_INPUTS.has(target.type)) ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+/** Stable ID for the first page, which projects store at the top level. */
+const FRONT_PAGE_ID = "page-front";
+
+const DEFAULT_PAGE: DesignPage = {
+  id: FRONT_PAGE_ID,
+  template: { kind: "reference", src: DEFAULT_TEMPLATE_SRC },
+  templateSize: { width: 1920, height: 1080 },
+  layers: DEFAULT_LAYERS,
+};
+
+const ALIGN_OFFSETS: Record<TextLayer["align"], string> = {
+  left: "0%",
+  center: "-50%",
+  right: "-100%",
+};
+
+/** Text rotates around its anchor, which sits on the side it is aligned to. */
+const ALIGN_ORIGINS: Record<TextLayer["align"], string> = {
+  left: "0% 50%",
+  center: "50% 50%",
+  right: "100% 50%",
+};
+
+/** JSON request headers for this site's API, with the API key when one is set. */
+const apiHeaders = (apiKey: string) => ({
+  "Content-Type": "application/json",
+  ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+});
+
+/** Sends issued IDs to this site's registry so `/verify/[id]` can find them. */
+const publishRegistry = async (entries: RegistryEntry[], apiKey: string) => {
+  const response = await fetch("/api/registry", {
+    method: "POST",
+    headers: apiHeaders(apiKey),
+    body: registryToJson(entries),
+  }).catch(() => null);
+  if (!response?.ok) {
+    const body = await response?.json().catch(() => null);
+    throw new Error(body?.error ?? "The verification registry is not reachable.");
+  }
+};
+
+/** Marks IDs as revoked, or valid again, in this site's registry. */
+const publishRevocation = async (ids: string[], revoked: boolean, apiKey: string) => {
+  const response = await fetch("/api/registry/revocations", {
+    method: "POST",
+    headers: apiHeaders(apiKey),
+    body: JSON.stringify({ ids, revoked }),
+  }).catch(() => null);
+  if (!response?.ok) {
+    const body = await response?.json().catch(() => null);
+    throw new Error(body?.error ?? "The verification registry is not reachable.");
+  }
 };
 
-const slugify = (value: string, fallbackIndex: number) => {
-  const slug = value
-    .normalize("NFKD")
-    .replace(/[^\w\s-]/g, "")
-    .trim()
-    .replace(/\s+/g, "-")
-    .toLowerCase();
-  return slug || `certificate-${fallbackIndex + 1}`;
+/** Sender shown in dry-run `.eml` files when the server has no mail setup to report. */
+const DRY_RUN_FROM = "Certificate Nucleus <certificates@localhost>";
+
+/** Hands one message to the server's SMTP transport, which retries transient failures. */
+const sendDeliveryEmail = async (message: DeliveryMessage, apiKey: string) => {
+  const response = await fetch("/api/mail", {
+    method: "POST",
+    headers: apiHeaders(apiKey),
+    body: JSON.stringify(message),
+  }).catch(() => null);
+  if (!response?.ok) {
+    const body = await response?.json().catch(() => null);
+    throw new Error(body?.error ?? "The mail server is not reachable.");
+  }
 };
 
-const loadImage = (src: string) =>
-  new Promise<HTMLImageElement>((resolve, reject) => {
-    const image = new Image();
-    image.onload = () => resolve(image);
-    image.onerror = () =>
-      reject(new Error("Unable to load template image. Please try again."));
-    image.src = src;
+const templateUrl = (template: ProjectTemplate) =>
+  template.kind === "embedded" ? template.dataUrl : template.src;
+
+/** Whether two page lists draw the same; page templates are rebuilt on every edit, so compare URLs. */
+const samePages = (a: DesignPage[], b: DesignPage[]) =>
+  a.length === b.length &&
+  a.every((page, index) => {
+    const other = b[index];
+    return (
+      page.id === other.id &&
+      page.layers === other.layers &&
+      templateUrl(page.template) === templateUrl(other.template) &&
+      page.templateSize.width === other.templateSize.width &&
+      page.templateSize.height === other.templateSize.height
+    );
   });
 
+const loadTemplateBytes = async (src: string) => {
+  const response = await fetch(src, { cache: "no-store" }).catch(() => null);
+  if (!response?.ok) {
+    throw new Error("Unable to load template image. Please try again.");
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
 export default function Home() {
-  const [names, setNames] = useState<string[]>([]);
   const [uploadStatus, setUploadStatus] = useState<UploadStatus>("idle");
   const [generateStatus, setGenerateStatus] = useState<GenerateStatus>("idle");
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
-  const [position, setPosition] = useState({ x: 0.5, y: 0.5 });
-  const [fontSize, setFontSize] = useState(72);
-  const [fontColor, setFontColor] = useState("#0a0a0a");
-  const [fontKey, setFontKey] = useState<FontValue>(FONT_OPTIONS[0].value);
+  const [layers, setLayers] = useState<Layer[]>(DEFAULT_PAGE.layers);
+  const [activeLayerId, setActiveLayerId] = useState(DEFAULT_PAGE.layers[0].id);
   const [customPreviewName, setCustomPreviewName] = useState("");
-  const [templateSize, setTemplateSize] = useState({ width: 1920, height: 1080 });
+  const [templateSize, setTemplateSize] = useState(DEFAULT_PAGE.templateSize);
   const [previewSize, setPreviewSize] = useState({ width: 0, height: 0 });
-  const [templateSrc, setTemplateSrc] = useState("/template.webp");
+  const [templateSrc, setTemplateSrc] = useState(DEFAULT_TEMPLATE_SRC);
   const [templateData, setTemplateData] = useState<string | null>(null);
   const [templateError, setTemplateError] = useState<string | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
+  // The page being edited lives in the state above; its entry here is refreshed on switching.
+  const [pageStore, setPageStore] = useState<DesignPage[]>([DEFAULT_PAGE]);
+  const [activePage, setActivePage] = useState(0);
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [guides, setGuides] = useState<SnapGuides>(NO_GUIDES);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [showRulers, setShowRulers] = useState(false);
+  const [history, setHistory] = useState<History<DesignSnapshot>>(() =>
+    createHistory({ pages: [DEFAULT_PAGE], activePage: 0 })
+  );
+  const [measureContext, setMeasureContext] = useState<CanvasRenderingContext2D | null>(null);
+  const [, setFontsVersion] = useState(0);
   const [sheetRows, setSheetRows] = useState<string[][]>([]);
-  const [columnOptions, setColumnOptions] = useState<{ label: string; value: number }[]>([]);
+  const [columnOptions, setColumnOptions] = useState<ColumnOption[]>([]);
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [activeSheet, setActiveSheet] = useState(0);
+  const [sheetSource, setSheetSource] = useState("");
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(() => new Set());
   const [selectedColumn, setSelectedColumn] = useState(0);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>("png");
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>(DEFAULT_PDF_OPTIONS);
+  const [printOptions, setPrintOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const [fileNaming, setFileNaming] = useState<FileNaming>(DEFAULT_FILE_NAMING);
+  const [projectName, setProjectName] = useState("Untitled project");
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [autosavedAt, setAutosavedAt] = useState<Date | null>(null);
+  const [libraryDesigns, setLibraryDesigns] = useState<LibraryDesign[]>([]);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [isSavingDesign, setIsSavingDesign] = useState(false);
+  const [starterThumbnails, setStarterThumbnails] = useState<Record<string, string>>({});
+  const [runs, setRuns] = useState<GenerationRun[]>([]);
+  const [revocations, setRevocations] = useState<Map<string, string>>(() => new Map());
+  const [historyBusy, setHistoryBusy] = useState<string | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<string | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [hasRestoredProject, setHasRestoredProject] = useState(false);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [certificateIds, setCertificateIds] = useState<CertificateIdSettings>(
+    DEFAULT_CERTIFICATE_ID_SETTINGS
+  );
+  const [apiKey, setApiKey] = useState("");
+  const [signingKey, setSigningKey] = useState<SigningKey | null>(null);
+  const [signCertificates, setSignCertificates] = useState(true);
+  const [signingError, setSigningError] = useState<string | null>(null);
+  const [delivery, setDelivery] = useState<DeliverySettings>(DEFAULT_DELIVERY_SETTINGS);
+  const [variants, setVariants] = useState<VariantSettings>(DEFAULT_VARIANT_SETTINGS);
+  const [variantFileError, setVariantFileError] = useState<string | null>(null);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  const [fontError, setFontError] = useState<string | null>(null);
+  const [fontCoverage, setFontCoverage] = useState<Map<string, Coverage | null>>(new Map());
+  const [photoLibrary, setPhotoLibrary] = useState<ImageLibrary>(() => new Map());
+  const [photoUrls, setPhotoUrls] = useState<Map<Uint8Array, string>>(() => new Map());
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [previewPictures, setPreviewPictures] = useState<Map<string, ImageBitmap>>(() => new Map());
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [mailStatus, setMailStatus] = useState<MailStatus | null>(null);
+  const [deliveryReport, setDeliveryReport] = useState<DeliveryResult[]>([]);
+  const [deliveryRunning, setDeliveryRunning] = useState(false);
+  const [deliveryProgress, setDeliveryProgress] = useState<BatchProgress | null>(null);
+  const [deliveryMessage, setDeliveryMessage] = useState<string | null>(null);
 
   const previewRef = useRef<HTMLDivElement | null>(null);
-  const selectedFont = useMemo(
-    () => FONT_OPTIONS.find((option) => option.value === fontKey) ?? FONT_OPTIONS[0],
-    [fontKey]
+  const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const decodingRef = useRef<Set<string>>(new Set());
+  const generateAbortRef = useRef<AbortController | null>(null);
+  const deliveryAbortRef = useRef<AbortController | null>(null);
+  const activeLayer = layers.find((layer) => layer.id === activeLayerId) ?? layers[0];
+  const activeText = activeLayer.kind === "text" ? activeLayer : null;
+  const activeImage = activeLayer.kind === "image" ? activeLayer : null;
+  const activeQr = activeLayer.kind === "qr" ? activeLayer : null;
+  const designPageList = useMemo(
+    () =>
+      pageStore.map(
+        (page, index): DesignPage =>
+          index === activePage
+            ? {
+                id: page.id,
+                template: templateData
+                  ? { kind: "embedded", dataUrl: templateData }
+                  : { kind: "reference", src: templateSrc },
+                templateSize,
+                layers,
+              }
+            : page
+      ),
+    [pageStore, activePage, templateData, templateSrc, templateSize, layers]
   );
+  const allLayers = useMemo(() => designPageList.flatMap((page) => page.layers), [designPageList]);
+  const columns = useMemo(() => columnOptions.map((option) => option.label), [columnOptions]);
+  const selectedFont = getFontOption(activeText?.fontKey ?? FONT_OPTIONS[0].value);
+  const selectedFontUploaded = selectedFont.value.startsWith(CUSTOM_FONT_PREFIX);
+  const selectedFontMissing =
+    selectedFontUploaded &&
+    !customFonts.some((font) => customFontKey(font.family) === selectedFont.value);
+
+  const updateLayer = useCallback((id: string, patch: Partial<Layer>) => {
+    setLayers((current) =>
+      current.map((layer) => (layer.id === id ? ({ ...layer, ...patch } as Layer) : layer))
+    );
+  }, []);
+
+  const addLayer = () => {
+    const style = activeText ?? layers.find(isTextLayer) ?? createTextLayer();
+    const layer = createTextLayer({
+      label: `Text ${layers.length + 1}`,
+      fontKey: style.fontKey,
+      color: style.color,
+      fontSize: Math.round(style.fontSize / 2),
+      position: { x: 0.5, y: clamp(activeLayer.position.y + 0.1) },
+    });
+    setLayers((current) => [...current, layer]);
+    setActiveLayerId(layer.id);
+  };
+
+  const addQrLayer = () => {
+    const layer = createQrLayer();
+    setLayers((current) => [...current, layer]);
+    setActiveLayerId(layer.id);
+  };
+
+  const addImageLayer = () => {
+    const layer = createImageLayer();
+    setLayers((current) => [...current, layer]);
+    setActiveLayerId(layer.id);
+  };
+
+  const removeLayer = (id: string) => {
+    if (layers.length <= 1) return;
+    const remaining = layers.filter((layer) => layer.id !== id);
+    setLayers(remaining);
+    if (id === activeLayerId) setActiveLayerId(remaining[0].id);
+  };
+
+  /** Applies an edit to the layers of every page, not just the one being edited. */
+  const updateAllLayers = (update: (current: Layer[]) => Layer[]) => {
+    setLayers(update);
+    setPageStore((current) =>
+      current.map((page, index) =>
+        index === activePage ? page : { ...page, layers: update(page.layers) }
+      )
+    );
+  };
+
+  const changeNameColumn = (column: number) => {
+    updateAllLayers((current) => rebindColumn(current, selectedColumn, column));
+    setSelectedColumn(column);
+  };
 
   useEffect(() => {
     if (!previewRef.current) return;
@@ -139,40 +544,62 @@ export default function Home() {
     return () => observer.disconnect();
   }, []);
 
-  useEffect(() => {
-    if (!sheetRows.length) {
-      setNames([]);
-      return;
-    }
-
-    const headerCell = sheetRows[0]?.[selectedColumn] ?? "";
-    const hasHeader = typeof headerCell === "string" && headerCell.toLowerCase().includes("name");
-    const startIndex = hasHeader ? 1 : 0;
-
-    const extracted = sheetRows
-      .slice(startIndex)
-      .map((row) => row[selectedColumn] ?? "")
-      .map((value) => value.trim())
-      .filter(Boolean);
-
-    setNames(extracted);
-  }, [sheetRows, selectedColumn]);
+  const allRecipients = useMemo(
+    () => extractRecipients(sheetRows, selectedColumn),
+    [sheetRows, selectedColumn]
+  );
+  // Rows left out in the data grid keep their place so derived IDs stay put.
+  const includedRecipients = useMemo(
+    () => allRecipients.indices.map((index) => !excludedRows.has(index)),
+    [allRecipients, excludedRows]
+  );
+  const recipientRows = useMemo(
+    () => allRecipients.rows.filter((_, position) => includedRecipients[position]),
+    [allRecipients, includedRecipients]
+  );
+  const names = useMemo(
+    () => allRecipients.names.filter((_, position) => includedRecipients[position]),
+    [allRecipients, includedRecipients]
+  );
+  const recipientIndices = useMemo(
+    () => allRecipients.indices.filter((_, position) => includedRecipients[position]),
+    [allRecipients, includedRecipients]
+  );
 
   useEffect(() => {
     const handlePointerMove = (event: PointerEvent) => {
-      if (!isDragging || !previewRef.current) return;
+      if (!dragState || !previewRef.current) return;
 
       const rect = previewRef.current.getBoundingClientRect();
-      const x = (event.clientX - rect.left) / rect.width;
-      const y = (event.clientY - rect.top) / rect.height;
+      let point = {
+        x: clamp((event.clientX - rect.left) / rect.width),
+        y: clamp((event.clientY - rect.top) / rect.height),
+      };
+      // Alt drags freely.
+      if (dragState.mode === "move" && snapEnabled && !event.altKey) {
+        const snapped = snapPoint(point, dragState.anchors, {
+          x: SNAP_DISTANCE_PX / rect.width,
+          y: SNAP_DISTANCE_PX / rect.height,
+        });
+        point = snapped.point;
+        setGuides(snapped.guides);
+      } else {
+        setGuides(NO_GUIDES);
+      }
 
-      setPosition({
-        x: clamp(x),
-        y: clamp(y),
-      });
+      setLayers((current) =>
+        current.map((layer) => {
+          if (layer.id !== dragState.layerId) return layer;
+          if (dragState.mode === "move") return { ...layer, position: point };
+          return layer.kind === "qr" ? layer : { ...layer, box: boxFromCorner(layer, point) };
+        })
+      );
     };
 
-    const handlePointerUp = () => setIsDragging(false);
+    const handlePointerUp = () => {
+      setDragState(null);
+      setGuides(NO_GUIDES);
+    };
 
     window.addEventListener("pointermove", handlePointerMove);
     window.addEventListener("pointerup", handlePointerUp);
@@ -181,64 +608,174 @@ export default function Home() {
       window.removeEventListener("pointermove", handlePointerMove);
       window.removeEventListener("pointerup", handlePointerUp);
     };
-  }, [isDragging]);
-
-  const handleUpload = async (file: File | null) => {
-    if (!file) return;
-    setUploadStatus("parsing");
-    setStatusMessage(null);
+  }, [dragState, snapEnabled]);
 
-    try {
-      const buffer = await file.arrayBuffer();
-      const workbook = XLSX.read(buffer, { type: "array" });
-      const sheet = workbook.Sheets[workbook.SheetNames[0]];
-
-      if (!sheet) {
-        throw new Error("No sheet found in workbook.");
-      }
+  useEffect(() => {
+    setMeasureContext(document.createElement("canvas").getContext("2d"));
 
-      const rows = XLSX.utils.sheet_to_json<(string | number | null)[]>(sheet, { header: 1 });
-      const normalizedRows = rows
-        .map((row) =>
-          (Array.isArray(row) ? row : [row]).map((cell) => {
-            if (typeof cell === "string") return cell.trim();
-            if (typeof cell === "number") return String(cell);
-            return "";
-          })
-        )
-        .filter((row) => row.some((cell) => cell));
+    // Re-measure preview text once web fonts finish loading.
+    const handleFontsLoaded = () => setFontsVersion((version) => version + 1);
+    document.fonts.addEventListener("loadingdone", handleFontsLoaded);
+    return () => document.fonts.removeEventListener("loadingdone", handleFontsLoaded);
+  }, []);
 
-      if (!normalizedRows.length) {
-        throw new Error("No values detected in the sheet.");
-      }
+  // Uploaded fonts stay on the document's font set while they are part of the design.
+  useEffect(() => {
+    const faces = registerFontSources(document.fonts, customFontSources(customFonts));
+    return () => faces.forEach((face) => document.fonts.delete(face));
+  }, [customFonts]);
 
-      const maxColumns = normalizedRows.reduce((max, row) => Math.max(max, row.length), 0);
-      if (!maxColumns) {
-        throw new Error("Unable to detect any columns in the sheet.");
+  // Object URLs so the preview can show dropped photos without copying them into data URLs.
+  useEffect(() => {
+    const urls = new Map(
+      [...photoLibrary.values()].map((bytes): [Uint8Array, string] => [
+        bytes,
+        URL.createObjectURL(new Blob([bytes as BlobPart])),
+      ])
+    );
+    setPhotoUrls(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [photoLibrary]);
+
+  // Glyph coverage of the layers' fonts and the script fallbacks, for the missing-glyph warning.
+  const coverageFamilies = useMemo(
+    () =>
+      [
+        ...new Set([
+          ...allLayers
+            .filter(isTextLayer)
+            .map((layer) => primaryFamily(getFontOption(layer.fontKey))),
+          ...FALLBACK_FONTS.map((font) => font.family),
+        ]),
+      ].join("\n"),
+    [allLayers]
+  );
+  useEffect(() => {
+    let cancelled = false;
+    const families = coverageFamilies.split("\n");
+    Promise.all(families.map((family) => loadFontCoverage(family, customFonts))).then(
+      (coverages) => {
+        if (!cancelled) {
+          setFontCoverage(new Map(families.map((family, index) => [family, coverages[index]])));
+        }
       }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [coverageFamilies, customFonts]);
 
-      const headerRow = normalizedRows[0] ?? [];
-      const options = Array.from({ length: maxColumns }, (_, index) => {
-        const label = headerRow[index] || `Column ${index + 1}`;
-        return { label, value: index };
-      });
-      const preferredIndex = options.findIndex((option) =>
-        option.label.toLowerCase().includes("name")
-      );
+  const loadSheet = (book: Workbook, index: number, source: string) => {
+    setWorkbook(book);
+    setActiveSheet(index);
+    setSheetSource(source);
+    setExcludedRows(new Set());
+    setPreviewIndex(0);
+    setDeliveryReport([]);
+    setDeliveryMessage(null);
 
-      setSheetRows(normalizedRows);
-      setColumnOptions(options);
-      setSelectedColumn(preferredIndex >= 0 ? preferredIndex : 0);
+    try {
+      const sheet = parseSheetRows(book.sheets[index].rows);
+      setSheetRows(sheet.rows);
+      setColumnOptions(sheet.columnOptions);
+      changeNameColumn(sheet.nameColumn);
+      const emailColumn = findEmailColumn(sheet.columnOptions.map((option) => option.label));
+      setDelivery((current) => ({
+        ...current,
+        emailColumn:
+          emailColumn >= 0
+            ? emailColumn
+            : current.emailColumn !== null && current.emailColumn < sheet.columnOptions.length
+              ? current.emailColumn
+              : null,
+      }));
+      const from = book.sheets.length > 1 ? `sheet "${book.sheets[index].name}" of ${source}` : source;
+      const format = book.text ? ` (${describeDelimited(book.text)})` : "";
       setUploadStatus("ready");
-      setStatusMessage(`Detected ${normalizedRows.length} rows in ${file.name}.`);
+      setStatusMessage(`Detected ${sheet.rows.length} rows in ${from}${format}.`);
+    } catch (error) {
+      setSheetRows([]);
+      setColumnOptions([]);
+      setUploadStatus("error");
+      setStatusMessage(error instanceof Error ? error.message : "Failed to read the sheet.");
+    }
+  };
+
+  const handleUpload = async (file: File | null) => {
+    if (!file) return;
+    setUploadStatus("parsing");
+    setStatusMessage(null);
+
+    try {
+      const book = readSpreadsheet(await file.arrayBuffer(), file.name);
+      loadSheet(book, defaultSheetIndex(book), file.name);
     } catch (error) {
       const message =
-        error instanceof Error ? error.message : "Failed to read Excel file.";
+        error instanceof Error ? error.message : "Failed to read the spreadsheet.";
       setUploadStatus("error");
       setStatusMessage(message);
     }
   };
 
+  const handlePastedTable = (text: string) => {
+    if (!text.trim()) {
+      setUploadStatus("error");
+      setStatusMessage("The clipboard has no rows to paste.");
+      return;
+    }
+    setPasteOpen(false);
+    const book = readPastedTable(text);
+    loadSheet(book, 0, "pasted rows");
+  };
+
+  // Browsers without clipboard read access fall back to a paste target.
+  const pasteFromClipboard = () => {
+    if (!navigator.clipboard?.readText) {
+      setPasteOpen(true);
+      return;
+    }
+    navigator.clipboard.readText().then(handlePastedTable, () => setPasteOpen(true));
+  };
+
+  const clearSheet = () => {
+    setWorkbook(null);
+    setSheetRows([]);
+    setColumnOptions([]);
+    setExcludedRows(new Set());
+  };
+
+  const editCell = (row: number, column: number, value: string) =>
+    setSheetRows((current) =>
+      current.map((cells, index) => {
+        if (index !== row) return cells;
+        const next = [...cells];
+        while (next.length < column) next.push("");
+        next[column] = value;
+        return next;
+      })
+    );
+
+  const setRowsIncluded = (rows: number[], included: boolean) =>
+    setExcludedRows((current) => {
+      const next = new Set(current);
+      for (const row of rows) {
+        if (included) next.delete(row);
+        else next.add(row);
+      }
+      return next;
+    });
+
+  const exportSheet = () => {
+    const name = workbook?.sheets[activeSheet]?.name || "Recipients";
+    const bytes = rowsToXlsx(sheetRows, name);
+    downloadBlob(
+      new Blob([bytes as BlobPart], {
+        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      }),
+      `${slugify(sheetSource.replace(/\.\w+$/, ""), 0)}-edited.xlsx`
+    );
+  };
+
   const handleTemplateUpload = (file: File | null) => {
     if (!file) return;
     if (!file.type.startsWith("image/")) {
@@ -249,95 +786,1362 @@ export default function Home() {
     const reader = new FileReader();
     reader.onload = () => {
       if (typeof reader.result !== "string") return;
-      setTemplateSrc(reader.result);
-      setTemplateData(reader.result);
-      setTemplateError(null);
+      const dataUrl = reader.result;
+      // Projects refuse bigger templates, so check before the page takes it.
+      const image = new window.Image();
+      image.onload = () => {
+        if (Math.max(image.naturalWidth, image.naturalHeight) > MAX_TEMPLATE_SIDE) {
+          setTemplateError(
+            `Templates can be at most ${MAX_TEMPLATE_SIDE} pixels on a side. Scale this one down first.`
+          );
+          return;
+        }
+        setTemplateSrc(dataUrl);
+        setTemplateData(dataUrl);
+        setTemplateError(null);
+      };
+      image.onerror = () => setTemplateError("This image could not be read.");
+      image.src = dataUrl;
     };
     reader.readAsDataURL(file);
   };
 
+  const handleVariantTemplate = (id: string, file: File) => {
+    if (!file.type.startsWith("image/")) {
+      setVariantFileError("Please choose an image file (JPG, PNG, SVG).");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result !== "string") return;
+      const template: ProjectTemplate = { kind: "embedded", dataUrl: reader.result };
+      setVariants((current) => ({
+        ...current,
+        rules: current.rules.map((rule) => (rule.id === id ? { ...rule, template } : rule)),
+      }));
+      setVariantFileError(null);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleFontUpload = async (file: File | null) => {
+    if (!file || !activeText) return;
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const font = createCustomFont(file.name, bytes);
+      await new FontFace(font.family, bytes).load().catch(() => {
+        throw new Error(`${file.name} is damaged or not a font this browser can read.`);
+      });
+      setCustomFonts((current) => [
+        ...current.filter((entry) => entry.family !== font.family),
+        font,
+      ]);
+      updateLayer(activeText.id, { fontKey: customFontKey(font.family) });
+      setFontError(null);
+    } catch (error) {
+      setFontError(error instanceof Error ? error.message : "Unable to read the font file.");
+    }
+  };
+
+  /** Drops an uploaded font; layers using it go back to the default font. */
+  const removeCustomFont = (family: string) => {
+    const key = customFontKey(family);
+    setCustomFonts((current) => current.filter((font) => font.family !== family));
+    updateAllLayers((current) =>
+      current.map((layer) =>
+        layer.kind === "text" && layer.fontKey === key
+          ? { ...layer, fontKey: FONT_OPTIONS[0].value }
+          : layer
+      )
+    );
+    setFontError(null);
+  };
+
+  const handlePatternFile = async (file: File) => {
+    if (!activeText) return;
+    try {
+      const source = createStaticImage(file.name, new Uint8Array(await file.arrayBuffer()));
+      updateLayer(activeText.id, {
+        fill: { kind: "pattern", dataUrl: source.dataUrl, fileName: source.fileName },
+      });
+      setImageError(null);
+    } catch (error) {
+      setImageError(error instanceof Error ? error.message : "Unable to read the image.");
+    }
+  };
+
+  const handleImageFile = async (file: File) => {
+    if (!activeImage) return;
+    try {
+      const source = createStaticImage(file.name, new Uint8Array(await file.arrayBuffer()));
+      updateLayer(activeImage.id, { source });
+      setImageError(null);
+    } catch (error) {
+      setImageError(error instanceof Error ? error.message : "Unable to read the image.");
+    }
+  };
+
+  /** Adds dropped photos, unpacking ZIPs, to the library per-recipient image layers draw from. */
+  const handlePhotoFiles = async (files: File[]) => {
+    try {
+      const library: ImageLibrary = new Map(photoLibrary);
+      let added = 0;
+      for (const file of files) {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const entries = /\.zip$/i.test(file.name)
+          ? await readZipFiles(bytes)
+          : [[file.name, bytes] as const];
+        for (const [name, content] of entries) {
+          if (addToImageLibrary(library, name, content)) added++;
+        }
+      }
+      if (!added) throw new Error("No PNG, JPEG, WebP, or GIF images were found in what you dropped.");
+      setPhotoLibrary(library);
+      setImageError(null);
+    } catch (error) {
+      setImageError(error instanceof Error ? error.message : "Unable to read the photos.");
+    }
+  };
+
   const resetTemplate = () => {
-    setTemplateSrc("/template.webp");
+    setTemplateSrc(DEFAULT_TEMPLATE_SRC);
     setTemplateData(null);
     setTemplateError(null);
   };
 
-  const handleGenerate = async () => {
-    if (!names.length) return;
-    setGenerateStatus("running");
-    setStatusMessage(null);
+  /** Puts a page into the editor. */
+  const loadPage = useCallback((page: DesignPage) => {
+    setLayers(page.layers);
+    setActiveLayerId(page.layers[0].id);
+    setTemplateSrc(templateUrl(page.template));
+    setTemplateData(page.template.kind === "embedded" ? page.template.dataUrl : null);
+    setTemplateSize(page.templateSize);
+    setTemplateError(null);
+  }, []);
 
+  // Layout edits settle into undo steps; nothing is recorded mid-drag.
+  useEffect(() => {
+    if (dragState) return;
+    const timer = window.setTimeout(
+      () =>
+        setHistory((current) =>
+          samePages(current.present.pages, designPageList)
+            ? current
+            : recordHistory(current, { pages: designPageList, activePage })
+        ),
+      HISTORY_SETTLE_MS
+    );
+    return () => window.clearTimeout(timer);
+  }, [designPageList, activePage, dragState]);
+
+  const unsettledEdit = !samePages(history.present.pages, designPageList);
+  const canUndo = unsettledEdit || history.past.length > 0;
+  const canRedo = !unsettledEdit && history.future.length > 0;
+
+  const stepHistory = useCallback(
+    (step: (history: History<DesignSnapshot>) => History<DesignSnapshot>) => {
+      // An edit that has not settled yet is undone first.
+      const current = unsettledEdit
+        ? recordHistory(history, { pages: designPageList, activePage })
+        : history;
+      const next = step(current);
+      setHistory(next);
+      if (next === current) return;
+      const page = next.present.pages[next.present.activePage];
+      setPageStore(next.present.pages);
+      setActivePage(next.present.activePage);
+      loadPage(page);
+      if (page.layers.some((layer) => layer.id === activeLayerId)) setActiveLayerId(activeLayerId);
+    },
+    [history, unsettledEdit, designPageList, activePage, activeLayerId, loadPage]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTypingTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      event.preventDefault();
+      stepHistory(key === "y" || event.shiftKey ? redoHistory : undoHistory);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [stepHistory]);
+
+  const selectPage = (index: number) => {
+    if (index === activePage) return;
+    setPageStore(designPageList);
+    setActivePage(index);
+    loadPage(designPageList[index]);
+  };
+
+  const addPage = () => {
+    const page = createDesignPage(templateSize);
+    setPageStore([...designPageList, page]);
+    setActivePage(designPageList.length);
+    loadPage(page);
+  };
+
+  const removePage = () => {
+    if (
+      designPageList.length <= 1 ||
+      !window.confirm(`Remove page ${activePage + 1} and its layers?`)
+    ) {
+      return;
+    }
+    const remaining = designPageList.filter((_, index) => index !== activePage);
+    const next = Math.min(activePage, remaining.length - 1);
+    setPageStore(remaining);
+    setActivePage(next);
+    loadPage(remaining[next]);
+  };
+
+  const projectState = useMemo<ProjectState>(
+    () => ({
+      name: projectName,
+      template: designPageList[0].template,
+      templateSize: designPageList[0].templateSize,
+      layers: designPageList[0].layers,
+      pages: designPageList.slice(1),
+      nameColumn: selectedColumn,
+      columns,
+      output: { format: outputFormat, pdf: pdfOptions, print: printOptions, files: fileNaming },
+      certificateIds,
+      delivery,
+      variants,
+      fonts: customFonts,
+    }),
+    [projectName, designPageList, selectedColumn, columns, outputFormat, pdfOptions, printOptions, fileNaming, certificateIds, delivery, variants, customFonts]
+  );
+
+  /** Replaces the current design; layers are rebound by header label when a sheet is loaded. */
+  const applyProject = useCallback((project: Project, currentColumns: string[]) => {
+    const pages = [
+      { ...designPages(project)[0], id: FRONT_PAGE_ID },
+      ...project.pages,
+    ].map((page) => ({
+      ...page,
+      layers: currentColumns.length
+        ? remapLayerColumns(page.layers, project.columns, currentColumns)
+        : page.layers,
+    }));
+
+    setProjectName(project.name);
+    setPageStore(pages);
+    setActivePage(0);
+    loadPage(pages[0]);
+    setHistory(createHistory({ pages, activePage: 0 }));
+    setSelectedColumn(
+      currentColumns.length
+        ? remapColumn(project.nameColumn, project.columns, currentColumns)
+        : project.nameColumn
+    );
+    setOutputFormat(project.output.format);
+    setPdfOptions(project.output.pdf);
+    setPrintOptions(project.output.print);
+    setFileNaming(project.output.files);
+    setCertificateIds({
+      ...project.certificateIds,
+      column: currentColumns.length
+        ? remapColumn(project.certificateIds.column, project.columns, currentColumns)
+        : project.certificateIds.column,
+    });
+    setDelivery({
+      ...project.delivery,
+      emailColumn:
+        currentColumns.length && project.delivery.emailColumn !== null
+          ? remapColumn(project.delivery.emailColumn, project.columns, currentColumns)
+          : project.delivery.emailColumn,
+    });
+    setVariants(project.variants);
+    setVariantFileError(null);
+    setCustomFonts(project.fonts);
+    setFontError(null);
+  }, [loadPage]);
+
+  const handleProjectExport = () => {
+    const project = createProject(projectState);
+    const blob = new Blob([serializeProject(project)], { type: "application/json" });
+    downloadBlob(blob, projectFileName(project));
+    setProjectError(null);
+  };
+
+  const handleProjectImport = async (file: File | null) => {
+    if (!file) return;
     try {
-      await document.fonts.ready;
-      const fontSpec = `${fontSize}px ${selectedFont.fontFamily}`;
-      await document.fonts.load(fontSpec);
-
-      const imageSource =
-        templateData && templateSrc.startsWith("data:")
-          ? templateSrc
-          : `${templateSrc}?cache=${Date.now()}`;
-      const templateImage = await loadImage(imageSource);
-
-      const canvas = document.createElement("canvas");
-      canvas.width = templateSize.width;
-      canvas.height = templateSize.height;
-      const ctx = canvas.getContext("2d");
-
-      if (!ctx) {
-        throw new Error("Canvas context unavailable.");
+      applyProject(await readProjectFile(file), columns);
+      setProjectError(null);
+    } catch (error) {
+      setProjectError(error instanceof Error ? error.message : "Unable to open project file.");
+    }
+  };
+
+  /** Swaps every page for the starter's one; the rest of the project is left alone. */
+  const applyStarter = (starter: StarterDesign) => {
+    const { layers: starterLayers, ...rest } = starter.createPage();
+    const page: DesignPage = {
+      ...rest,
+      id: FRONT_PAGE_ID,
+      layers: rebindColumn(starterLayers, 0, selectedColumn),
+    };
+    setPageStore([page]);
+    setActivePage(0);
+    loadPage(page);
+  };
+
+  // Starter thumbnails are drawn once, when the gallery is first opened.
+  const showStarters = async () => {
+    for (const starter of STARTER_DESIGNS) {
+      if (starterThumbnails[starter.id]) continue;
+      const page = starter.createPage();
+      try {
+        const bytes = await loadTemplateBytes(templateUrl(page.template));
+        const thumbnail = await renderThumbnail(page, bytes, STARTER_COLUMNS, 0);
+        setStarterThumbnails((current) => ({ ...current, [starter.id]: thumbnail }));
+      } catch {
+        // The card keeps its placeholder; applying the starter still works.
       }
+    }
+  };
 
-      const zip = new JSZip();
+  const refreshLibrary = async () => {
+    try {
+      setLibraryDesigns(await listLibraryDesigns());
+      setLibraryError(null);
+    } catch (error) {
+      setLibraryError(error instanceof Error ? error.message : "Unable to read saved designs.");
+    }
+  };
+
+  /** Runs a library change, then reloads the list from storage. */
+  const updateLibrary = async (change: () => Promise<unknown>, fallback: string) => {
+    try {
+      await change();
+      await refreshLibrary();
+    } catch (error) {
+      setLibraryError(error instanceof Error ? error.message : fallback);
+    }
+  };
+
+  const handleSaveDesign = async () => {
+    setIsSavingDesign(true);
+    await updateLibrary(async () => {
+      const page = designPageList[0];
+      const bytes = await loadTemplateBytes(templateUrl(page.template));
+      const thumbnail = await renderThumbnail(page, bytes, columns, selectedColumn);
+      await saveLibraryDesign(createProject(projectState), thumbnail);
+    }, "Unable to save the design.");
+    setIsSavingDesign(false);
+  };
+
+  const handleOpenDesign = (design: LibraryDesign) => {
+    applyProject(design.project, columns);
+    setLibraryError(null);
+  };
+
+  const handleRenameDesign = (design: LibraryDesign, name: string) =>
+    updateLibrary(() => renameLibraryDesign(design, name), "Unable to rename the design.");
+
+  const handleDuplicateDesign = (design: LibraryDesign) =>
+    updateLibrary(() => duplicateLibraryDesign(design), "Unable to duplicate the design.");
+
+  const handleDeleteDesign = (design: LibraryDesign) => {
+    if (!window.confirm(`Delete "${design.project.name}" from this browser?`)) return;
+    updateLibrary(() => deleteLibraryDesign(design.id), "Unable to delete the design.");
+  };
+
+  useEffect(() => {
+    listLibraryDesigns()
+      .then(setLibraryDesigns)
+      .catch(() => {
+        // Without local storage the library stays empty; saving reports the error.
+      });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getItem<unknown>(STORES.projects, AUTOSAVE_KEY)
+      .then((saved) => {
+        if (!cancelled && saved) applyProject(parseProject(saved), []);
+      })
+      .catch(() => {
+        // A missing or unreadable autosave just means starting fresh.
+      })
+      .finally(() => {
+        if (!cancelled) setHasRestoredProject(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyProject]);
+
+  useEffect(() => {
+    getItem<SigningKey>(STORES.keys, SIGNING_KEY)
+      .then((saved) => {
+        if (saved) setSigningKey(saved);
+      })
+      .catch(() => {
+        // Without local storage the issuer can still import a key per session.
+      });
+  }, []);
+
+  useEffect(() => {
+    getItem<string>(STORES.keys, API_KEY)
+      .then((saved) => {
+        if (saved) setApiKey(saved);
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const handleApiKeyChange = (key: string) => {
+    setApiKey(key);
+    (key ? setItem(STORES.keys, API_KEY, key) : deleteItem(STORES.keys, API_KEY)).catch(
+      () => undefined
+    );
+  };
+
+  const storeSigningKey = async (key: SigningKey) => {
+    await setItem(STORES.keys, SIGNING_KEY, key).catch(() => undefined);
+    setSigningKey(key);
+    setSignCertificates(true);
+    setSigningError(null);
+  };
+
+  const handleCreateSigningKey = async () => {
+    try {
+      await storeSigningKey(await generateSigningKey());
+    } catch (error) {
+      setSigningError(error instanceof Error ? error.message : "Unable to create a signing key.");
+    }
+  };
+
+  const handleImportSigningKey = async (file: File | null) => {
+    if (!file) return;
+    try {
+      const key = parseSigningKey(await file.text());
+      await importPrivateKey(key);
+      await storeSigningKey(key);
+    } catch (error) {
+      setSigningError(error instanceof Error ? error.message : "Unable to import the signing key.");
+    }
+  };
+
+  const handleExportSigningKey = () => {
+    if (!signingKey) return;
+    const blob = new Blob([signingKeyToJson(signingKey)], { type: "application/json" });
+    downloadBlob(blob, "nucleus-signing-key.json");
+  };
+
+  const handleRemoveSigningKey = () => {
+    if (
+      !signingKey ||
+      !window.confirm(
+        "Remove the signing key from this browser? Files already signed stay verifiable, but new ones can only be signed with this key from a backup."
+      )
+    ) {
+      return;
+    }
+    deleteItem(STORES.keys, SIGNING_KEY).catch(() => undefined);
+    setSigningKey(null);
+    setSigningError(null);
+  };
+
+  useEffect(() => {
+    if (!hasRestoredProject) return;
+    const timer = window.setTimeout(() => {
+      setItem(STORES.projects, AUTOSAVE_KEY, createProject(projectState))
+        .then(() => setAutosavedAt(new Date()))
+        .catch(() => setAutosavedAt(null));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [hasRestoredProject, projectState]);
+
+  /**
+   * Issues IDs, signs them when a key is active, and loads what the renderer
+   * needs. Shared by downloads and email delivery.
+   */
+  const prepareRun = async (format: OutputFormat) => {
+    if (missingImages.length) {
+      throw new Error(
+        `Some photos are missing. ${missingImages.map((entry) => `${entry.layer.label || "Untitled"}: ${describeMissingImages(entry)}`).join(" ")}`
+      );
+    }
+    const event = resolveEventName(certificateIds, projectName);
+    const ids = assignCertificateIds(
+      allRecipients.rows,
+      allRecipients.names,
+      certificateIds,
+      columns,
+      event,
+      includedRecipients
+    );
+    const bound = withCertificateIds(columns, recipientRows, ids);
+    const registry = createRegistryEntries(ids, names, event);
+
+    await document.fonts.ready;
+    const textLayers = allLayers.filter(isTextLayer);
+    // A font that never loaded would silently render in the fallback font.
+    const fontChecks = await Promise.all(
+      textLayers.map(async (layer) => ({
+        family: primaryFamily(getFontOption(layer.fontKey)),
+        faces: await document.fonts.load(fontSpecFor(layer)).catch(() => []),
+      }))
+    );
+    const missingFonts = [
+      ...new Set(fontChecks.filter((check) => !check.faces.length).map((check) => check.family)),
+    ];
+    if (missingFonts.length) {
+      throw new Error(
+        `The font ${missingFonts.map((family) => `"${family}"`).join(", ")} is not loaded, so certificates would use a fallback font. Upload it again or reload the page, then retry.`
+      );
+    }
+
+    const fontKeys = textLayers.map((layer) => layer.fontKey);
+    const fonts = resolveFontSources(fontKeys, customFonts);
+    const resolvedFamilies = new Set(fonts.map((source) => source.family));
+    const fontsAvailableToWorkers = fontKeys.every((key) =>
+      resolvedFamilies.has(primaryFamily(getFontOption(key)))
+    );
+
+    const matchVariant = createVariantMatcher(variants.rules, bound.columns);
+    const templates = await Promise.all(
+      designPageList.map((page) => loadTemplateBytes(templateUrl(page.template)))
+    );
+    const variantTemplates = await Promise.all(
+      variants.rules.map((rule) => (rule.template ? loadTemplateBytes(templateUrl(rule.template)) : null))
+    );
+    const signer = signingKey && signCertificates ? await importPrivateKey(signingKey) : null;
+    // Also identifies the design in the run history, so it is worked out unsigned too.
+    const designHash = await hashDesign(projectState, templates, variantTemplates);
+    const signatures = signer
+      ? await Promise.all(
+          registry.map((entry, index) =>
+            signClaims(signer, createClaims(entry, columns, recipientRows[index], designHash))
+          )
+        )
+      : [];
+
+    const design = { ...projectState, output: { ...projectState.output, format } };
+    const config = renderConfigFromDesign(
+      {
+        ...design,
+        certificateIds: {
+          verifyBaseUrl: certificateIds.verifyBaseUrl || window.location.origin,
+        },
+      },
+      bound.columns
+    );
+    const files = bound.rows.map(
+      (row, index): OutputFile => ({
+        row: recipientIndices[index],
+        name: names[index],
+        values: row,
+        prefix: variants.folders ? variantFolder(variants.rules, matchVariant(row)) : "",
+      })
+    );
+
+    return {
+      registry,
+      event,
+      design: createProject(design),
+      rows: bound.rows,
+      files,
+      paths: planOutputPaths(files, bound.columns, fileNaming, config.format).map((path) =>
+        pagePaths(path, filesPerRecipient(config))
+      ),
+      config,
+      setup: { config, templates, variantTemplates, fonts },
+      useWorkers: fontsAvailableToWorkers,
+      matchVariant,
+      signer,
+      designHash,
+      signatures,
+    };
+  };
 
-      const posX = position.x * templateSize.width;
-      const posY = position.y * templateSize.height;
+  /** Adds the recipients at `positions` to the run history; a storage failure only skips the entry. */
+  const logRun = async (
+    run: Awaited<ReturnType<typeof prepareRun>>,
+    kind: GenerationRun["kind"],
+    positions: number[]
+  ) => {
+    const entry = await recordRun(
+      {
+        issuedAt: run.registry[0]?.issuedAt ?? new Date().toISOString(),
+        kind,
+        source: sheetSource,
+        event: run.event,
+        designHash: run.designHash,
+        output: run.design.output,
+        verifyBaseUrl: run.config.verifyBaseUrl,
+        columns: run.config.columns,
+        recipients: positions.map((index) => ({
+          row: recipientIndices[index],
+          id: run.registry[index].id,
+          name: names[index],
+          values: run.rows[index],
+          signature: run.signatures[index] ?? null,
+        })),
+      },
+      run.design
+    ).catch(() => null);
+    if (entry) setRuns((current) => [entry, ...current]);
+  };
 
-      for (let index = 0; index < names.length; index++) {
-        const name = names[index];
+  const handleGenerate = async () => {
+    if (!names.length) return;
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
+    setGenerateStatus("running");
+    setStatusMessage(null);
 
-        ctx.clearRect(0, 0, templateSize.width, templateSize.height);
-        ctx.drawImage(templateImage, 0, 0, templateSize.width, templateSize.height);
+    const merged = isMergedFormat(outputFormat);
+    let zip: ZipWriter | null = null;
 
-        ctx.fillStyle = fontColor;
-        ctx.textAlign = "center";
-        ctx.textBaseline = "middle";
-        ctx.font = `${fontSize}px ${selectedFont.fontFamily}`;
+    try {
+      // The save dialog needs the click's user activation, so open it first.
+      if (!merged) {
+        zip = createZipWriter(
+          await createDownloadSink(bundleFileName(fileNaming, "certificates", "zip"), "application/zip")
+        );
+      }
 
-        ctx.fillText(name, posX, posY);
+      const run = await prepareRun(outputFormat);
+      const { config, registry, signer, signatures } = run;
+      const manifestFiles: ManifestFile[] = [];
+      const addToZip = async (path: string, bytes: Uint8Array) => {
+        if (signer) manifestFiles.push({ path, sha256: await sha256Hex(bytes) });
+        await zip?.addFile(path, bytes);
+      };
+      const encoder = new TextEncoder();
+      const writeEmails = !merged && delivery.mode === "dry-run" && delivery.emailColumn !== null;
+      let emailCount = 0;
+
+      const mergedPdf = merged ? await createCertificatePdf("Certificates") : null;
+      const pdfWriter = mergedPdf ? createPdfWriter(mergedPdf, config) : null;
+      const pendingPages = new Map<number, Uint8Array[]>();
+      let nextPage = 0;
+
+      await renderBatch({
+        setup: run.setup,
+        jobs: run.rows.map((row, index) => ({
+          index,
+          row,
+          title: names[index],
+          signature: merged ? undefined : signatures[index],
+          images: resolveRowImages(allLayers, row, photoLibrary),
+        })),
+        signal: controller.signal,
+        useWorkers: run.useWorkers,
+        onProgress: setProgress,
+        onResult: async ({ index, files }) => {
+          if (!pdfWriter) {
+            const filePaths = run.paths[index];
+            for (const [page, bytes] of files.entries()) await addToZip(filePaths[page], bytes);
+            const email = recipientEmail(run.rows[index], delivery.emailColumn);
+            if (writeEmails && isEmailAddress(email)) {
+              const message = composeMessage(
+                delivery,
+                email,
+                run.rows[index],
+                config.columns,
+                files.map((bytes, page) =>
+                  attachmentFor(fileNameOf(filePaths[page]), bytes, config.format)
+                )
+              );
+              const eml = buildEml(message, mailStatus?.from || DRY_RUN_FROM);
+              // One message carries every page, named without the page suffix.
+              const suffix = files.length > 1 ? /-page1\.\w+$/ : /\.\w+$/;
+              await addToZip(`emails/${filePaths[0].replace(suffix, "")}.eml`, encoder.encode(eml));
+              emailCount += 1;
+            }
+            return;
+          }
+          // Workers finish out of order; pages are appended in recipient order.
+          pendingPages.set(index, files);
+          while (pendingPages.has(nextPage)) {
+            await pdfWriter.add(pendingPages.get(nextPage)!);
+            pendingPages.delete(nextPage);
+            nextPage += 1;
+          }
+        },
+      });
 
-        const dataUrl = canvas.toDataURL("image/png");
-        const base64Data = dataUrl.split(",")[1];
-        zip.file(`${slugify(name, index)}.png`, base64Data, { base64: true });
+      // IDs revoked earlier stay marked when a later run issues them again.
+      const exportedRegistry = withRevocations(registry, revocations);
+      if (mergedPdf) {
+        await pdfWriter?.finish();
+        if (signatures.length) setPdfSignatures(mergedPdf, SIGNATURE_KEYWORD, signatures);
+        const bytes = await mergedPdf.save();
+        downloadBlob(
+          new Blob([bytes as BlobPart], { type: "application/pdf" }),
+          bundleFileName(fileNaming, "certificates", "pdf")
+        );
+        downloadBlob(
+          new Blob([registryToCsv(exportedRegistry)], { type: "text/csv" }),
+          REGISTRY_FILE_NAMES.csv
+        );
+      } else if (zip) {
+        await addToZip(REGISTRY_FILE_NAMES.csv, encoder.encode(registryToCsv(exportedRegistry)));
+        await addToZip(REGISTRY_FILE_NAMES.json, encoder.encode(registryToJson(exportedRegistry)));
+        if (fileNaming.manifest) {
+          const manifest = outputManifestCsv(run.files, run.paths, config.columns);
+          await addToZip(FILE_MANIFEST_NAME, encoder.encode(manifest));
+        }
+        if (signer && signingKey) {
+          const manifest = await signManifest(signer, {
+            publicKey: signingKey.publicKey,
+            design: run.designHash,
+            issuedAt: registry[0].issuedAt,
+            files: manifestFiles,
+          });
+          await zip.addFile(MANIFEST_FILE_NAME, encoder.encode(JSON.stringify(manifest, null, 2)));
+        }
+        await zip.finish();
       }
 
-      const blob = await zip.generateAsync({ type: "blob" });
-      downloadBlob(blob, "certificates.zip");
+      let publishNote = "";
+      if (certificateIds.publish) {
+        publishNote = await publishRegistry(registry, apiKey)
+          .then(() => ` ${registry.length} IDs published for verification.`)
+          .catch(
+            (error: unknown) =>
+              ` IDs were not published: ${error instanceof Error ? error.message : "unknown error"}`
+          );
+      }
+      await logRun(run, "download", [...names.keys()]);
+      const emailNote = writeEmails
+        ? ` ${emailCount} .eml file(s) written to emails/ (dry run, nothing was sent).`
+        : "";
       setGenerateStatus("success");
-      setStatusMessage("Certificates are ready. Download should begin shortly.");
+      setStatusMessage(
+        `Certificates are ready. Download should begin shortly.${emailNote}${publishNote}`
+      );
     } catch (error) {
+      await zip?.abort().catch(() => undefined);
+      if (isAbortError(error)) {
+        setGenerateStatus("idle");
+        setStatusMessage(
+          controller.signal.aborted ? "Generation cancelled." : "Download cancelled."
+        );
+        return;
+      }
       const message =
         error instanceof Error ? error.message : "Unable to generate certificates.";
       setGenerateStatus("error");
       setStatusMessage(message);
+    } finally {
+      generateAbortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const cancelGenerate = () => generateAbortRef.current?.abort();
+
+  /**
+   * Renders and emails each recipient their own certificate. Pass sheet
+   * rows to retry just those; earlier report rows are kept.
+   */
+  const handleDeliver = async (only?: number[]) => {
+    if (!names.length || delivery.emailColumn === null) return;
+    const controller = new AbortController();
+    deliveryAbortRef.current = controller;
+    setDeliveryRunning(true);
+    setDeliveryMessage(null);
+
+    const previous = new Map(deliveryReport.map((result) => [result.index, result]));
+    const results = new Map(only ? previous : []);
+    // Report rows are keyed by sheet row, which survives changes to the selection.
+    const record = (position: number, result: Pick<DeliveryResult, "email" | "status" | "error">) => {
+      const index = recipientIndices[position];
+      results.set(index, {
+        ...result,
+        index,
+        name: names[position],
+        attempts: (previous.get(index)?.attempts ?? 0) + 1,
+      });
+      setDeliveryReport([...results.values()].sort((a, b) => a.index - b.index));
+    };
+
+    // Emails that went out are logged even when sending stops part-way.
+    const sent = new Set<number>();
+    let prepared: Awaited<ReturnType<typeof prepareRun>> | null = null;
+    try {
+      const run = await prepareRun(outputFormat === "png" ? "png" : "pdf");
+      prepared = run;
+      const { config } = run;
+      const positions = new Map(recipientIndices.map((row, position) => [row, position]));
+      const targets = only
+        ? only.flatMap((row) => positions.get(row) ?? [])
+        : names.map((_, index) => index);
+      const emailFor = (index: number) => recipientEmail(run.rows[index], delivery.emailColumn);
+      for (const index of targets) {
+        const email = emailFor(index);
+        if (!isEmailAddress(email)) {
+          record(index, {
+            email,
+            status: "failed",
+            error: email ? "Not a valid email address." : "No email address.",
+          });
+        }
+      }
+
+      const limiter = createRateLimiter(delivery.ratePerMinute);
+      await renderBatch({
+        setup: run.setup,
+        jobs: targets
+          .filter((index) => isEmailAddress(emailFor(index)))
+          .map((index) => ({
+            index,
+            row: run.rows[index],
+            title: names[index],
+            signature: run.signatures[index],
+            images: resolveRowImages(allLayers, run.rows[index], photoLibrary),
+          })),
+        signal: controller.signal,
+        useWorkers: run.useWorkers,
+        onProgress: setDeliveryProgress,
+        onResult: async ({ index, files }) => {
+          const email = emailFor(index);
+          const message = composeMessage(
+            delivery,
+            email,
+            run.rows[index],
+            config.columns,
+            files.map((bytes, page) =>
+              attachmentFor(fileNameOf(run.paths[index][page]), bytes, config.format)
+            )
+          );
+          await limiter.wait();
+          const error = await sendDeliveryEmail(message, apiKey).then(
+            () => null,
+            (reason: unknown) => (reason instanceof Error ? reason.message : "Sending failed.")
+          );
+          if (!error) sent.add(index);
+          record(index, { email, status: error ? "failed" : "sent", error });
+        },
+      });
+
+      const failed = [...results.values()].filter((result) => result.status === "failed").length;
+      let publishNote = "";
+      if (certificateIds.publish && sent.size) {
+        const delivered = run.registry.filter((_, index) => sent.has(index));
+        publishNote = await publishRegistry(delivered, apiKey)
+          .then(() => "")
+          .catch(
+            (error: unknown) =>
+              ` IDs were not published: ${error instanceof Error ? error.message : "unknown error"}`
+          );
+      }
+      setDeliveryMessage(
+        `${sent.size} sent${failed ? `, ${failed} failed` : ""}.${publishNote}`
+      );
+    } catch (error) {
+      setDeliveryMessage(
+        isAbortError(error)
+          ? "Sending stopped. Recipients not in the report were not emailed."
+          : error instanceof Error
+            ? error.message
+            : "Unable to send certificates."
+      );
+    } finally {
+      if (prepared && sent.size) {
+        // Sends finish out of order; the log keeps sheet order.
+        const positions = [...sent].sort((a, b) => a - b);
+        await logRun(prepared, "email", positions);
+      }
+      deliveryAbortRef.current = null;
+      setDeliveryRunning(false);
+      setDeliveryProgress(null);
     }
   };
 
-  const activePreviewName = customPreviewName || names[0] || "Your Name";
+  const retryFailedDeliveries = () =>
+    handleDeliver(
+      deliveryReport.filter((result) => result.status === "failed").map((result) => result.index)
+    );
+
+  const downloadDeliveryReport = () =>
+    downloadBlob(
+      new Blob([deliveryReportToCsv(deliveryReport)], { type: "text/csv" }),
+      "delivery-report.csv"
+    );
+
+  useEffect(() => {
+    Promise.all([listRuns(), loadRevocations()])
+      .then(([savedRuns, revoked]) => {
+        setRuns(savedRuns);
+        setRevocations(revoked);
+      })
+      .catch(() => {
+        // Without local storage there is no history; generating still works.
+      });
+  }, []);
+
+  const loadDesignTemplates = (design: Project) =>
+    Promise.all([
+      Promise.all(designPages(design).map((page) => loadTemplateBytes(templateUrl(page.template)))),
+      Promise.all(
+        design.variants.rules.map((rule) =>
+          rule.template ? loadTemplateBytes(templateUrl(rule.template)) : null
+        )
+      ),
+    ]);
+
+  /**
+   * Renders one certificate of a past run from its recorded values and
+   * downloads it: a PDF for the PDF formats, otherwise a PNG per page.
+   * Photos come from the photos loaded now.
+   */
+  const downloadRunCertificate = async (
+    design: Project,
+    [templates, variantTemplates]: Awaited<ReturnType<typeof loadDesignTemplates>>,
+    run: GenerationRun,
+    recipient: RunRecipient,
+    signature?: string
+  ) => {
+    const format = design.output.format === "png" ? "png" : "pdf";
+    const config = renderConfigFromDesign(
+      { ...design, output: { ...design.output, format } },
+      run.columns
+    );
+    // A past design's uploaded fonts may no longer be on the page.
+    const faces = registerFontSources(document.fonts, customFontSources(design.fonts));
+    try {
+      const renderer = await createCertificateRenderer(
+        createDomBackend(document.fonts),
+        config,
+        templates,
+        variantTemplates
+      );
+      const files = await renderer.render(
+        recipient.values,
+        recipient.name,
+        signature,
+        resolveRowImages(designLayers(design), recipient.values, photoLibrary)
+      );
+      const [path] = planOutputPaths(
+        [{ row: recipient.row, name: recipient.name, values: recipient.values }],
+        run.columns,
+        design.output.files,
+        format
+      );
+      const type = format === "png" ? "image/png" : "application/pdf";
+      pagePaths(path, files.length).forEach((filePath, page) =>
+        downloadBlob(new Blob([files[page] as BlobPart], { type }), fileNameOf(filePath))
+      );
+    } finally {
+      faces.forEach((face) => document.fonts.delete(face));
+    }
+  };
+
+  /** Runs a history action for one certificate, showing it as busy until it settles. */
+  const runHistoryAction = async (
+    run: GenerationRun,
+    recipient: RunRecipient,
+    action: () => Promise<string>,
+    fallback: string
+  ) => {
+    setHistoryBusy(`${run.id}:${recipient.id}`);
+    setHistoryMessage(null);
+    setHistoryError(null);
+    try {
+      setHistoryMessage(await action());
+    } catch (error) {
+      setHistoryError(error instanceof Error ? error.message : fallback);
+    } finally {
+      setHistoryBusy(null);
+    }
+  };
+
+  /** The same certificate again: the run's design, values, and signature. */
+  const handleRedownload = (run: GenerationRun, recipient: RunRecipient) =>
+    runHistoryAction(
+      run,
+      recipient,
+      async () => {
+        const design = await loadRunDesign(run);
+        const templates = await loadDesignTemplates(design);
+        const unchanged =
+          (await hashDesign(design, ...templates)) === run.designHash ||
+          window.confirm(
+            "The template images of this run have changed since, so the certificate will not look exactly as issued. Download it anyway?"
+          );
+        if (!unchanged) return "Download cancelled.";
+        await downloadRunCertificate(
+          design,
+          templates,
+          run,
+          recipient,
+          recipient.signature ?? undefined
+        );
+        return `Downloaded the certificate of ${recipient.name} again.`;
+      },
+      "Unable to download the certificate."
+    );
+
+  /**
+   * Issues the certificate again with the current design, keeping its ID
+   * and recorded values. It is signed and published like a new run and
+   * logged as one.
+   */
+  const handleReissue = (run: GenerationRun, recipient: RunRecipient) =>
+    runHistoryAction(
+      run,
+      recipient,
+      async () => {
+        const verifyBaseUrl = certificateIds.verifyBaseUrl || window.location.origin;
+        const current = createProject(projectState);
+        const design = bindProjectToColumns(
+          { ...current, certificateIds: { ...current.certificateIds, verifyBaseUrl } },
+          run.columns
+        );
+        const templates = await loadDesignTemplates(design);
+        const designHash = await hashDesign(design, ...templates);
+        const [entry] = createRegistryEntries([recipient.id], [recipient.name], run.event);
+        const signer = signingKey && signCertificates ? await importPrivateKey(signingKey) : null;
+        const signature = signer
+          ? await signClaims(signer, createClaims(entry, run.columns, recipient.values, designHash))
+          : undefined;
+        await downloadRunCertificate(design, templates, run, recipient, signature);
+
+        const reissued = await recordRun(
+          {
+            issuedAt: entry.issuedAt,
+            kind: "download",
+            source: `re-issue from ${new Date(run.issuedAt).toLocaleString()}`,
+            event: run.event,
+            designHash,
+            output: design.output,
+            verifyBaseUrl,
+            columns: run.columns,
+            recipients: [{ ...recipient, signature: signature ?? null }],
+          },
+          design
+        ).catch(() => null);
+        if (reissued) setRuns((current) => [reissued, ...current]);
+        const publishNote = certificateIds.publish
+          ? await publishRegistry([entry], apiKey)
+              .then(() => "")
+              .catch(
+                (error: unknown) =>
+                  ` The ID was not published: ${error instanceof Error ? error.message : "unknown error"}`
+              )
+          : "";
+        return `Re-issued the certificate of ${recipient.name} with the current design.${publishNote}`;
+      },
+      "Unable to re-issue the certificate."
+    );
+
+  /** Revokes a certificate, or restores it, here and in the site's registry when publishing. */
+  const handleRevoke = (run: GenerationRun, recipient: RunRecipient, revoke: boolean) => {
+    if (
+      revoke &&
+      !window.confirm(
+        `Revoke certificate ${recipient.id} issued to ${recipient.name}? Exported registries mark it as revoked, and so does the verification page when IDs are published.`
+      )
+    ) {
+      return;
+    }
+    runHistoryAction(
+      run,
+      recipient,
+      async () => {
+        await (revoke ? revokeCertificate(recipient.id) : restoreCertificate(recipient.id));
+        setRevocations(await loadRevocations());
+        const publishNote = certificateIds.publish
+          ? await publishRevocation([recipient.id], revoke, apiKey)
+              .then(() => "")
+              .catch(
+                (error: unknown) =>
+                  ` The verification page was not updated: ${error instanceof Error ? error.message : "unknown error"}`
+              )
+          : "";
+        return `${revoke ? "Revoked" : "Restored"} the certificate of ${recipient.name}.${publishNote}`;
+      },
+      "Unable to update the revocation."
+    );
+  };
+
+  /** Every certificate in the history, with revocations marked. */
+  const exportHistoryRegistry = (format: "json" | "csv") => {
+    const entries = runsRegistry(runs, revocations);
+    downloadBlob(
+      format === "csv"
+        ? new Blob([registryToCsv(entries)], { type: "text/csv" })
+        : new Blob([registryToJson(entries)], { type: "application/json" }),
+      REGISTRY_FILE_NAMES[format]
+    );
+  };
+
+  useEffect(() => {
+    fetch("/api/mail", { headers: apiHeaders(apiKey) })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((status: MailStatus | null) => setMailStatus(status))
+      .catch(() => setMailStatus(null));
+  }, [apiKey]);
+
+  const eventName = resolveEventName(certificateIds, projectName);
+  const issued = useMemo(() => {
+    try {
+      const ids = recipientRows.length
+        ? assignCertificateIds(
+            allRecipients.rows,
+            allRecipients.names,
+            certificateIds,
+            columns,
+            eventName,
+            includedRecipients
+          )
+        : [createCertificateId(eventName, customPreviewName || "Your Name")];
+      const rows = recipientRows.length ? recipientRows : [[]];
+      return { ids, error: null, ...withCertificateIds(columns, rows, ids) };
+    } catch (error) {
+      return {
+        ids: [],
+        error: error instanceof Error ? error.message : "Invalid certificate IDs.",
+        ...withCertificateIds(columns, [], []),
+      };
+    }
+  }, [
+    recipientRows,
+    allRecipients,
+    includedRecipients,
+    certificateIds,
+    columns,
+    eventName,
+    customPreviewName,
+  ]);
+
+  const previewColumns = issued.columns;
+  const previewPosition = Math.min(previewIndex, Math.max(0, issued.rows.length - 1));
+  const previewRow = issued.rows[previewPosition] ?? [];
+  const variantMatcher = useMemo(() => {
+    try {
+      return { match: createVariantMatcher(variants.rules, previewColumns), error: null };
+    } catch (error) {
+      return {
+        match: () => -1,
+        error: error instanceof Error ? error.message : "Invalid variant rule.",
+      };
+    }
+  }, [variants.rules, previewColumns]);
+  const previewVariant = variantMatcher.match(previewRow);
+  const previewRule = variants.rules[previewVariant] ?? null;
+  // Selected rows per rule, default last.
+  const variantCounts = useMemo(() => {
+    if (!recipientRows.length) return null;
+    const counts = Array<number>(variants.rules.length + 1).fill(0);
+    for (const row of issued.rows) {
+      const index = variantMatcher.match(row);
+      counts[index < 0 ? variants.rules.length : index] += 1;
+    }
+    return counts;
+  }, [recipientRows, issued.rows, variantMatcher, variants.rules.length]);
+  const previewTextFor = (layer: TextLayer) => {
+    if (layer.source.kind === "text") {
+      return renderTemplate(layer.source.text, previewRow, previewColumns, {
+        onMissing: (token) => token.raw,
+      });
+    }
+    if (layer.source.column === selectedColumn) {
+      return customPreviewName || names[previewPosition] || "Your Name";
+    }
+    const label = columnOptions[layer.source.column]?.label ?? layer.label;
+    return resolveLayerText(layer, previewRow, previewColumns) || `{${label}}`;
+  };
+  const previewQrValue =
+    resolveQrValue(
+      previewRow,
+      previewColumns,
+      certificateIds.verifyBaseUrl || (typeof window === "undefined" ? "" : window.location.origin)
+    ) || "https://example.org/verify/0000-0000-0000";
+
+  // Recipient rows with their certificate IDs, so `{{Certificate ID}}` validates too.
+  const issuedRows = useMemo(
+    () => (recipientRows.length ? issued.rows : []),
+    [recipientRows, issued.rows]
+  );
+  const dataWarnings = useMemo(() => {
+    if (!columns.length) return [];
+
+    return allLayers.flatMap((layer) =>
+      validateLayer(layer, issuedRows, previewColumns).map((issue) => ({
+        key: `${layer.id}-${issue.kind}-${issue.field}`,
+        layer: layer.label || "Untitled",
+        message: describeIssue(issue),
+      }))
+    );
+  }, [allLayers, issuedRows, columns, previewColumns]);
+  // Names the chosen font cannot draw, checked against every recipient.
+  const glyphWarnings = useMemo(() => {
+    const fallbackFor = (char: string) => {
+      const script = scriptOf(char);
+      const family = script ? SCRIPT_FALLBACKS[script] : null;
+      const covers = family ? fontCoverage.get(family) : null;
+      return family && (!covers || covers(char.codePointAt(0) ?? 0)) ? family : null;
+    };
+    return allLayers.filter(isTextLayer).flatMap((layer) => {
+      const family = primaryFamily(getFontOption(layer.fontKey));
+      const covers = fontCoverage.get(family);
+      if (!covers) return [];
+      const texts = issuedRows.length
+        ? issuedRows.map((row) => resolveLayerText(layer, row, previewColumns))
+        : [layer.source.kind === "text" ? layer.source.text : customPreviewName];
+      const gap = findGlyphGap(texts, covers, fallbackFor);
+      if (!gap.texts.length) return [];
+      return [
+        {
+          key: `${layer.id}-glyphs`,
+          layer: layer.label || "Untitled",
+          message: describeGlyphGap(family, gap, texts),
+        },
+      ];
+    });
+  }, [allLayers, issuedRows, previewColumns, customPreviewName, fontCoverage]);
+  const missingImages = useMemo(
+    () => (recipientRows.length ? findMissingImages(allLayers, recipientRows, photoLibrary) : []),
+    [allLayers, recipientRows, photoLibrary]
+  );
+  const imageWarnings = missingImages.map((entry) => ({
+    key: `${entry.layer.id}-images`,
+    layer: entry.layer.label || "Untitled",
+    message: describeMissingImages(entry),
+  }));
+  const previewWarnings = [...dataWarnings, ...glyphWarnings, ...imageWarnings];
+  const fileIssues = useMemo(
+    () => (columns.length ? validateNaming(fileNaming, issuedRows, previewColumns) : []),
+    [fileNaming, issuedRows, columns, previewColumns]
+  );
+  const exampleOutputPath = useMemo(() => {
+    const row = issuedRows[0];
+    if (!row) return null;
+    const file: OutputFile = {
+      row: recipientIndices[0],
+      name: names[0],
+      values: row,
+      prefix: variants.folders ? variantFolder(variants.rules, variantMatcher.match(row)) : "",
+    };
+    const extension = outputFormat === "png" ? "png" : "pdf";
+    const path = planOutputPaths([file], previewColumns, fileNaming, extension)[0];
+    return pagePaths(path, outputFormat === "png" ? designPageList.length : 1)[0];
+  }, [issuedRows, recipientIndices, names, variants, variantMatcher, previewColumns, fileNaming, outputFormat, designPageList.length]);
+  const deliveryWarnings = useMemo(
+    () =>
+      columns.length
+        ? validateTemplate(`${delivery.subject}\n${delivery.body}`, issuedRows, previewColumns).map(
+            describeIssue
+          )
+        : [],
+    [delivery.subject, delivery.body, issuedRows, columns, previewColumns]
+  );
+  const deliveryAddressCount = useMemo(
+    () =>
+      recipientRows.filter((row) => isEmailAddress(recipientEmail(row, delivery.emailColumn)))
+        .length,
+    [recipientRows, delivery.emailColumn]
+  );
   const previewScale =
     templateSize.width > 0
       ? previewSize.width / templateSize.width
       : 1;
-  const displayFontSize = Math.max(fontSize * previewScale, 12);
+  const ruler = rulerStep(previewScale);
+  const rulerGap = ruler * previewScale;
+  const previewLayoutFor = (layer: TextLayer, text: string): TextLayout => {
+    if (!measureContext) {
+      return { fontSize: layer.fontSize, lines: [text], lineHeight: layer.fontSize * layer.lineHeight, width: 0 };
+    }
+    const measure = createCanvasMeasurer(
+      measureContext,
+      (fontSize) => fontSpecFor(layer, fontSize, text),
+      layer.letterSpacing
+    );
+    return layoutText(text, layer, templateSize, measure);
+  };
+  const previewImageFor = (layer: ImageLayer) => {
+    if (layer.source?.kind !== "column") return layer.source?.dataUrl;
+    const bytes = findImage(photoLibrary, previewRow[layer.source.column] ?? "");
+    return bytes ? photoUrls.get(bytes) : undefined;
+  };
+  const previewPictureUrls = layers.flatMap((layer) => {
+    const url =
+      layer.kind === "image"
+        ? previewImageFor(layer)
+        : layer.kind === "text" && layer.fill?.kind === "pattern"
+          ? layer.fill.dataUrl
+          : undefined;
+    return url ? [url] : [];
+  });
+
+  // Decodes the pictures the preview draws, once per URL; ones no longer shown are dropped.
+  useEffect(() => {
+    if ([...previewPictures.keys()].some((url) => !previewPictureUrls.includes(url))) {
+      setPreviewPictures(
+        (current) => new Map([...current].filter(([url]) => previewPictureUrls.includes(url)))
+      );
+    }
+    for (const url of previewPictureUrls) {
+      if (previewPictures.has(url) || decodingRef.current.has(url)) continue;
+      decodingRef.current.add(url);
+      fetch(url)
+        .then((response) => response.blob())
+        .then((blob) => createImageBitmap(blob))
+        .then((bitmap) => setPreviewPictures((current) => new Map(current).set(url, bitmap)))
+        .catch(() => undefined)
+        .finally(() => decodingRef.current.delete(url));
+    }
+  }, [previewPictures, previewPictureUrls]);
+
+  // The preview is drawn by the export renderer, so styling looks the same in the files.
+  useEffect(() => {
+    const ctx = previewCanvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, templateSize.width, templateSize.height);
+    for (const layer of applyVariantColor(layers, previewRule?.color ?? null)) {
+      if (layer.kind === "qr") {
+        drawQrLayer(ctx, layer, previewQrValue, templateSize);
+      } else if (layer.kind === "image") {
+        const picture = previewPictures.get(previewImageFor(layer) ?? "");
+        if (picture) drawImageLayer(ctx, layer, picture, templateSize);
+      } else {
+        const pattern =
+          layer.fill?.kind === "pattern" ? previewPictures.get(layer.fill.dataUrl) : undefined;
+        drawTextLayer(ctx, layer, previewTextFor(layer), templateSize, pattern);
+      }
+    }
+  });
+  // Text boxes only matter when the text fits into them; image boxes always do.
+  const activeBoxed = activeText?.fit === "none" ? null : (activeText ?? activeImage);
+  const activeBox = activeBoxed ? layerBoxRect(activeBoxed, templateSize) : null;
 
   const absolutePosition = useMemo(
     () => ({
-      x: Math.round(position.x * templateSize.width),
-      y: Math.round(position.y * templateSize.height),
+      x: Math.round(activeLayer.position.x * templateSize.width),
+      y: Math.round(activeLayer.position.y * templateSize.height),
     }),
-    [position, templateSize]
+    [activeLayer.position, templateSize]
   );
 
-  const canGenerate = names.length > 0 && generateStatus !== "running";
+  /** Puts the active layer's anchor at template pixels, e.g. from the X/Y fields or arrow keys. */
+  const placeActiveLayer = (x: number, y: number) =>
+    updateLayer(activeLayer.id, {
+      position: { x: clamp(x / templateSize.width), y: clamp(y / templateSize.height) },
+    });
+
+  const startDrag = (event: React.PointerEvent, layerId: string, mode: DragState["mode"]) => {
+    event.preventDefault();
+    // Focus the preview so the arrow keys nudge the layer just picked.
+    previewRef.current?.focus({ preventScroll: true });
+    setActiveLayerId(layerId);
+    setDragState({
+      layerId,
+      mode,
+      anchors: layers.filter((layer) => layer.id !== layerId).map((layer) => layer.position),
+    });
+  };
+
+  const canGenerate = names.length > 0 && generateStatus !== "running" && !deliveryRunning;
 
   const handleImageLoad = useCallback(
     (event: React.SyntheticEvent<HTMLImageElement, Event>) => {
@@ -390,9 +2194,9 @@ export default function Home() {
             <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
               <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
                 <div>
-                  <h2 className="text-lg font-semibold">1. Upload Excel Sheet</h2>
+                  <h2 className="text-lg font-semibold">1. Upload Spreadsheet</h2>
                   <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                    Supports .xlsx files with multiple columns.
+                    Supports .xlsx, .xls, .ods, and .csv files, or rows pasted from a spreadsheet.
                   </p>
                 </div>
                 <div className="flex flex-wrap gap-2">
@@ -403,25 +2207,71 @@ export default function Home() {
                   >
                     📥 Sample
                   </a>
+                  <button
+                    type="button"
+                    className={`rounded-lg border px-4 py-2 text-sm font-medium transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
+                    onClick={pasteFromClipboard}
+                  >
+                    📋 Paste
+                  </button>
                   <label className={`cursor-pointer rounded-lg border px-4 py-2 text-sm font-medium transition ${isDarkMode ? "border-emerald-600 bg-emerald-600/20 text-emerald-400 hover:bg-emerald-600/30" : "border-emerald-500 bg-emerald-500 text-white hover:bg-emerald-600"}`}>
                     📁 Select file
                     <input
                       className="hidden"
                       type="file"
-                      accept=".xls,.xlsx"
+                      accept=".xls,.xlsx,.ods,.csv,.tsv,.txt"
                       onChange={(event) => handleUpload(event.target.files?.[0] ?? null)}
                     />
                   </label>
                 </div>
               </div>
 
+              {pasteOpen && (
+                <div className="mt-4">
+                  <label className="block text-sm font-medium mb-2">Paste rows here (Ctrl+V or ⌘V):</label>
+                  <textarea
+                    autoFocus
+                    className={`min-h-24 w-full rounded-lg border px-3 py-2 font-mono text-xs outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
+                    placeholder="Copy cells in Excel, Google Sheets, or LibreOffice, including the header row."
+                    onPaste={(event) => {
+                      event.preventDefault();
+                      handlePastedTable(event.clipboardData.getData("text/plain"));
+                    }}
+                  />
+                  <button
+                    type="button"
+                    className="mt-1 text-xs font-medium text-slate-500 transition hover:underline"
+                    onClick={() => setPasteOpen(false)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
+              {workbook && workbook.sheets.length > 1 && (
+                <div className="mt-4">
+                  <label className="block text-sm font-medium mb-2">Sheet:</label>
+                  <select
+                    className={`w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
+                    value={activeSheet}
+                    onChange={(e) => loadSheet(workbook, Number(e.target.value), sheetSource)}
+                  >
+                    {workbook.sheets.map((sheet, index) => (
+                      <option key={sheet.name} value={index}>
+                        {sheet.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {columnOptions.length > 1 && (
                 <div className="mt-4">
                   <label className="block text-sm font-medium mb-2">Select column with names:</label>
                   <select
                     className={`w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
                     value={selectedColumn}
-                    onChange={(e) => setSelectedColumn(Number(e.target.value))}
+                    onChange={(e) => changeNameColumn(Number(e.target.value))}
                   >
                     {columnOptions.map((option) => (
                       <option key={option.value} value={option.value}>
@@ -433,51 +2283,163 @@ export default function Home() {
               )}
 
               <div className={`mt-4 rounded-lg border border-dashed p-4 text-sm ${isDarkMode ? "border-slate-700 bg-slate-900/30" : "border-slate-300 bg-white"}`}>
-                {uploadStatus === "ready" && names.length > 0 ? (
+                {uploadStatus === "ready" && allRecipients.names.length > 0 ? (
                   <div className="space-y-2">
                     <p>
-                      ✅ <span className="font-semibold text-emerald-600 dark:text-emerald-400">{names.length}</span> names loaded
+                      ✅ <span className="font-semibold text-emerald-600 dark:text-emerald-400">{allRecipients.names.length}</span> names loaded
                       {columnOptions.length > 1 && ` from "${columnOptions[selectedColumn]?.label}"`}
                     </p>
                     <p className="text-xs text-slate-500">
-                      First entry: <span className="font-medium">{names[0]}</span>
+                      First entry: <span className="font-medium">{allRecipients.names[0]}</span>
                     </p>
                     <button
                       className="text-xs font-medium text-rose-600 dark:text-rose-400 transition hover:underline"
-                      onClick={() => {
-                        setNames([]);
-                        setSheetRows([]);
-                        setColumnOptions([]);
-                      }}
+                      onClick={clearSheet}
                     >
                       Clear
                     </button>
                   </div>
                 ) : uploadStatus === "parsing" ? (
-                  <p className="text-slate-500">Parsing Excel file...</p>
+                  <p className="text-slate-500">Parsing spreadsheet...</p>
                 ) : (
                   <p className="text-slate-500">Waiting for upload...</p>
                 )}
               </div>
             </div>
 
+            {allRecipients.indices.length > 0 && (
+              <DataGrid
+                rows={sheetRows}
+                columnOptions={columnOptions}
+                recipientIndices={allRecipients.indices}
+                excludedRows={excludedRows}
+                nameColumn={selectedColumn}
+                emailColumn={delivery.emailColumn}
+                isDarkMode={isDarkMode}
+                onEditCell={editCell}
+                onSetIncluded={setRowsIncluded}
+                onExport={exportSheet}
+              />
+            )}
+
             <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
               <div className="flex flex-col gap-4">
                 <div className="flex flex-wrap items-center justify-between gap-3">
                   <div>
                     <h2 className="text-lg font-semibold">2. Position & Style</h2>
                     <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                      Drag the text to align on certificate.
+                      Drag each layer to align it on the certificate, then nudge it with the arrow
+                      keys (Shift for 10px). Hold Alt while dragging to skip snapping.
                     </p>
                   </div>
-                  <div className="text-xs font-mono text-slate-500 dark:text-slate-400">
-                    {absolutePosition.x}px × {absolutePosition.y}px
+                  <div className="flex flex-wrap items-center gap-3 text-xs">
+                    {(["x", "y"] as const).map((axis) => (
+                      <label key={axis} className="flex items-center gap-1">
+                        <span className="font-medium uppercase">{axis}</span>
+                        <input
+                          type="number"
+                          className={`w-20 rounded-lg border px-2 py-1 font-mono outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
+                          value={absolutePosition[axis]}
+                          onChange={(event) => {
+                            const value = event.target.valueAsNumber;
+                            if (Number.isNaN(value)) return;
+                            placeActiveLayer(
+                              axis === "x" ? value : absolutePosition.x,
+                              axis === "y" ? value : absolutePosition.y
+                            );
+                          }}
+                        />
+                        <span className="text-slate-500">px</span>
+                      </label>
+                    ))}
+                    <button
+                      type="button"
+                      className="font-medium text-emerald-600 dark:text-emerald-400 transition hover:underline disabled:cursor-not-allowed disabled:opacity-50 disabled:no-underline"
+                      disabled={!canUndo}
+                      title="Undo (Ctrl+Z)"
+                      onClick={() => stepHistory(undoHistory)}
+                    >
+                      ↶ Undo
+                    </button>
+                    <button
+                      type="button"
+                      className="font-medium text-emerald-600 dark:text-emerald-400 transition hover:underline disabled:cursor-not-allowed disabled:opacity-50 disabled:no-underline"
+                      disabled={!canRedo}
+                      title="Redo (Ctrl+Shift+Z)"
+                      onClick={() => stepHistory(redoHistory)}
+                    >
+                      ↷ Redo
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center gap-2">
+                  {designPageList.map((page, index) => (
+                    <button
+                      key={page.id}
+                      type="button"
+                      onClick={() => selectPage(index)}
+                      className={`rounded-lg border px-3 py-1.5 text-xs font-medium transition ${
+                        index === activePage
+                          ? "border-emerald-500 bg-emerald-500 text-white"
+                          : isDarkMode
+                            ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700"
+                            : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"
+                      }`}
+                    >
+                      Page {index + 1}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    className="text-xs font-medium text-emerald-600 dark:text-emerald-400 transition hover:underline"
+                    onClick={addPage}
+                  >
+                    + Add page
+                  </button>
+                  {designPageList.length > 1 && (
+                    <button
+                      type="button"
+                      className="text-xs font-medium text-rose-600 dark:text-rose-400 transition hover:underline"
+                      onClick={removePage}
+                    >
+                      Remove page
+                    </button>
+                  )}
+                  <div className="ml-auto flex items-center gap-4 text-xs">
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={snapEnabled}
+                        onChange={(event) => setSnapEnabled(event.target.checked)}
+                      />
+                      Snap to center and layers
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={showRulers}
+                        onChange={(event) => setShowRulers(event.target.checked)}
+                      />
+                      Rulers & grid
+                    </label>
                   </div>
                 </div>
 
                 <div
                   ref={previewRef}
-                  className={`relative mt-4 w-full overflow-hidden rounded-lg border shadow-inner ${isDarkMode ? "border-slate-700 bg-slate-950" : "border-slate-300 bg-white"}`}
+                  tabIndex={0}
+                  onKeyDown={(event) => {
+                    const direction = NUDGE_DIRECTIONS[event.key];
+                    if (!direction) return;
+                    event.preventDefault();
+                    const step = event.shiftKey ? NUDGE_SHIFT_STEP_PX : NUDGE_STEP_PX;
+                    placeActiveLayer(
+                      absolutePosition.x + direction[0] * step,
+                      absolutePosition.y + direction[1] * step
+                    );
+                  }}
+                  className={`relative mt-4 w-full overflow-hidden rounded-lg border shadow-inner outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-950" : "border-slate-300 bg-white"}`}
                 >
                   <img
                     src={templateSrc}
@@ -486,102 +2448,520 @@ export default function Home() {
                     onLoad={handleImageLoad}
                     draggable={false}
                   />
-                  <div
-                    className="absolute cursor-move select-none whitespace-nowrap font-semibold drop-shadow-[0_2px_8px_rgba(0,0,0,0.8)]"
-                    style={{
-                      left: `${position.x * 100}%`,
-                      top: `${position.y * 100}%`,
-                      fontSize: `${displayFontSize}px`,
-                      color: fontColor,
-                      fontFamily: selectedFont.fontFamily,
-                      transform: "translate(-50%, -50%)",
-                    }}
-                    onPointerDown={(event) => {
-                      event.preventDefault();
-                      setIsDragging(true);
-                    }}
-                  >
-                    {activePreviewName}
-                  </div>
+                  {activePage === 0 && previewRule?.template && (
+                    <div
+                      className="absolute inset-0 bg-no-repeat"
+                      style={{
+                        backgroundImage: `url("${templateUrl(previewRule.template)}")`,
+                        backgroundSize: "100% 100%",
+                      }}
+                    />
+                  )}
+                  <canvas
+                    ref={previewCanvasRef}
+                    width={templateSize.width}
+                    height={templateSize.height}
+                    className="pointer-events-none absolute inset-0 h-full w-full"
+                  />
+                  {layers.map((layer) => {
+                    if (layer.kind === "qr") {
+                      return (
+                        <div
+                          key={layer.id}
+                          className={`absolute aspect-square cursor-move ${layer.id === activeLayer.id ? "outline outline-1 outline-dashed outline-emerald-500" : ""}`}
+                          style={{
+                            left: `${layer.position.x * 100}%`,
+                            top: `${layer.position.y * 100}%`,
+                            width: `${layer.size * 100}%`,
+                            transform: "translate(-50%, -50%)",
+                          }}
+                          onPointerDown={(event) => startDrag(event, layer.id, "move")}
+                        />
+                      );
+                    }
+                    if (layer.kind === "image") {
+                      const image = previewImageFor(layer);
+                      return (
+                        <div
+                          key={layer.id}
+                          className={`absolute cursor-move ${image ? "" : "flex items-center justify-center border-2 border-dashed border-slate-400 bg-slate-400/20 text-xs text-slate-500"} ${layer.id === activeLayer.id ? "outline outline-1 outline-dashed outline-emerald-500" : ""}`}
+                          style={{
+                            left: `${layer.position.x * 100}%`,
+                            top: `${layer.position.y * 100}%`,
+                            width: `${layer.box.width * 100}%`,
+                            height: `${layer.box.height * 100}%`,
+                            transform: `translate(-50%, -50%) rotate(${layer.rotation}deg)`,
+                          }}
+                          onPointerDown={(event) => startDrag(event, layer.id, "move")}
+                        >
+                          {!image && (layer.source?.kind === "column" ? "Photo" : layer.label || "Image")}
+                        </div>
+                      );
+                    }
+                    const text = transformText(previewTextFor(layer), layer.textTransform);
+                    const layout = previewLayoutFor(layer, text);
+                    return (
+                      <div
+                        key={layer.id}
+                        className={`absolute cursor-move select-none whitespace-pre text-transparent ${layer.id === activeLayer.id ? "outline outline-1 outline-dashed outline-emerald-500" : ""}`}
+                        style={{
+                          left: `${layer.position.x * 100}%`,
+                          top: `${layer.position.y * 100}%`,
+                          fontSize: `${layout.fontSize * previewScale}px`,
+                          lineHeight: `${layout.lineHeight * previewScale}px`,
+                          letterSpacing: `${layer.letterSpacing * previewScale}px`,
+                          textAlign: layer.align,
+                          fontFamily: fontStackFor(layer.fontKey, text),
+                          fontWeight: layer.fontWeight,
+                          fontStyle: layer.fontStyle,
+                          direction: textDirection(text),
+                          transform: `translate(${ALIGN_OFFSETS[layer.align]}, -50%) rotate(${layer.rotation}deg)`,
+                          transformOrigin: ALIGN_ORIGINS[layer.align],
+                        }}
+                        onPointerDown={(event) => startDrag(event, layer.id, "move")}
+                      >
+                        {layout.lines.map((line, index) => (
+                          <div key={index}>{line || "\u00a0"}</div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                  {showRulers && (
+                    <>
+                      <div
+                        className="pointer-events-none absolute inset-0"
+                        style={{
+                          backgroundImage:
+                            "linear-gradient(to right, rgba(14, 165, 233, 0.25) 1px, transparent 1px), linear-gradient(to bottom, rgba(14, 165, 233, 0.25) 1px, transparent 1px)",
+                          backgroundSize: `${rulerGap}px ${rulerGap}px`,
+                        }}
+                      />
+                      <div className="pointer-events-none absolute inset-x-0 top-0 h-4 bg-white/80 font-mono text-[9px] text-slate-600">
+                        {rulerTicks(templateSize.width, ruler).map((tick) => (
+                          <span
+                            key={tick}
+                            className="absolute top-0 h-full border-l border-slate-500 pl-0.5"
+                            style={{ left: `${(tick / templateSize.width) * 100}%` }}
+                          >
+                            {tick}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="pointer-events-none absolute inset-y-0 left-0 w-7 bg-white/80 font-mono text-[9px] text-slate-600">
+                        {rulerTicks(templateSize.height, ruler).map((tick) => (
+                          <span
+                            key={tick}
+                            className="absolute left-0 w-full border-t border-slate-500 pl-0.5"
+                            style={{ top: `${(tick / templateSize.height) * 100}%` }}
+                          >
+                            {tick}
+                          </span>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                  {dragState && guides.x !== null && (
+                    <div
+                      className="pointer-events-none absolute inset-y-0 w-px bg-fuchsia-500"
+                      style={{ left: `${guides.x * 100}%` }}
+                    />
+                  )}
+                  {dragState && guides.y !== null && (
+                    <div
+                      className="pointer-events-none absolute inset-x-0 h-px bg-fuchsia-500"
+                      style={{ top: `${guides.y * 100}%` }}
+                    />
+                  )}
+                  {activeBoxed && activeBox && (
+                    <div
+                      className="pointer-events-none absolute border border-dashed border-sky-500"
+                      style={{
+                        left: `${(activeBox.left / templateSize.width) * 100}%`,
+                        top: `${(activeBox.top / templateSize.height) * 100}%`,
+                        width: `${activeBoxed.box.width * 100}%`,
+                        height: `${activeBoxed.box.height * 100}%`,
+                      }}
+                    >
+                      <div
+                        className="pointer-events-auto absolute -bottom-1.5 -right-1.5 h-3 w-3 cursor-nwse-resize rounded-sm bg-sky-500"
+                        title={activeImage ? "Drag to resize the image box" : "Drag to resize the text box"}
+                        onPointerDown={(event) => startDrag(event, activeLayer.id, "resize")}
+                      />
+                    </div>
+                  )}
                 </div>
 
-                <div className="mt-4 grid gap-4 sm:grid-cols-3">
-                  <label className="flex flex-col gap-2 text-sm">
-                    <div className="flex items-center justify-between">
-                      <span className="font-medium">Font size</span>
-                      <span className="text-xs text-slate-500">{fontSize}px</span>
+                {previewWarnings.length > 0 && (
+                  <div className={`rounded-lg border p-3 text-xs ${isDarkMode ? "border-amber-900 bg-amber-900/20 text-amber-300" : "border-amber-200 bg-amber-50 text-amber-800"}`}>
+                    <p className="font-semibold">⚠️ {previewWarnings.length} {previewWarnings.length === 1 ? "warning" : "warnings"}</p>
+                    <ul className="mt-1 space-y-0.5">
+                      {previewWarnings.map((warning) => (
+                        <li key={warning.key}>
+                          <span className="font-medium">{warning.layer}:</span> {warning.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <LayerList
+                  layers={layers}
+                  activeLayerId={activeLayer.id}
+                  columnOptions={columnOptions}
+                  isDarkMode={isDarkMode}
+                  onSelect={setActiveLayerId}
+                  onChange={updateLayer}
+                  onAdd={addLayer}
+                  onAddQr={addQrLayer}
+                  onAddImage={addImageLayer}
+                  onRemove={removeLayer}
+                />
+
+                {activeImage && (
+                  <ImageLayerControls
+                    layer={activeImage}
+                    columnOptions={columnOptions}
+                    templateSize={templateSize}
+                    photoCount={photoLibrary.size}
+                    imageError={imageError}
+                    isDarkMode={isDarkMode}
+                    onChange={(patch) => updateLayer(activeImage.id, patch)}
+                    onImageFile={handleImageFile}
+                    onPhotoFiles={handlePhotoFiles}
+                    onClearPhotos={() => setPhotoLibrary(new Map())}
+                  />
+                )}
+
+                {activeText && (
+                  <>
+                    <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                      <label className="flex flex-col gap-2 text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">Font size</span>
+                          <span className="text-xs text-slate-500">{activeText.fontSize}px</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            className={`rounded-lg border px-3 py-1.5 text-sm font-semibold transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
+                            onClick={() =>
+                              updateLayer(activeText.id, {
+                                fontSize: clamp(activeText.fontSize - 2, FONT_SIZE_MIN, FONT_SIZE_MAX),
+                              })
+                            }
+                          >
+                            −
+                          </button>
+                          <input
+                            type="range"
+                            min={FONT_SIZE_MIN}
+                            max={FONT_SIZE_MAX}
+                            value={activeText.fontSize}
+                            onChange={(event) =>
+                              updateLayer(activeText.id, { fontSize: Number(event.target.value) })
+                            }
+                            className="flex-1"
+                          />
+                          <button
+                            type="button"
+                            className={`rounded-lg border px-3 py-1.5 text-sm font-semibold transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
+                            onClick={() =>
+                              updateLayer(activeText.id, {
+                                fontSize: clamp(activeText.fontSize + 2, FONT_SIZE_MIN, FONT_SIZE_MAX),
+                              })
+                            }
+                          >
+                            +
+                          </button>
+                        </div>
+                      </label>
+                      <label className="flex flex-col gap-2 text-sm">
+                        <span className="font-medium">Font color</span>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="color"
+                            value={activeText.color}
+                            onChange={(event) => updateLayer(activeText.id, { color: event.target.value })}
+                            className="h-10 w-full cursor-pointer rounded-lg border border-slate-300 dark:border-slate-700"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => updateLayer(activeText.id, { color: "#ffffff" })}
+                            className={`rounded-lg border px-3 py-2 text-xs font-medium transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-white hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
+                            title="Default white"
+                          >
+                            White
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => updateLayer(activeText.id, { color: "#000000" })}
+                            className={`rounded-lg border px-3 py-2 text-xs font-medium transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-white hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
+                            title="Black"
+                          >
+                            Black
+                          </button>
+                        </div>
+                      </label>
+                      <div className="flex flex-col gap-2 text-sm">
+                        <span className="font-medium">Font family</span>
+                        <select
+                          className={`rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
+                          aria-label="Font family"
+                          value={selectedFont.value}
+                          onChange={(event) =>
+                            updateLayer(activeText.id, { fontKey: event.target.value as FontValue })
+                          }
+                        >
+                          <optgroup label="Built-in">
+                            {FONT_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </optgroup>
+                          {(customFonts.length > 0 || selectedFontMissing) && (
+                            <optgroup label="Uploaded">
+                              {customFonts.map((font) => (
+                                <option key={font.family} value={customFontKey(font.family)}>
+                                  {font.family}
+                                </option>
+                              ))}
+                              {selectedFontMissing && (
+                                <option value={selectedFont.value}>{selectedFont.label} (missing)</option>
+                              )}
+                            </optgroup>
+                          )}
+                        </select>
+                        <div className="flex flex-wrap items-center gap-3 text-xs">
+                          <label className="cursor-pointer font-medium text-emerald-600 dark:text-emerald-400 transition hover:underline">
+                            ⬆ Upload font
+                            <input
+                              className="hidden"
+                              type="file"
+                              accept={FONT_FILE_ACCEPT}
+                              onChange={(event) => {
+                                const file = event.target.files?.[0] ?? null;
+                                event.target.value = "";
+                                handleFontUpload(file);
+                              }}
+                            />
+                          </label>
+                          {selectedFontUploaded && (
+                            <button
+                              type="button"
+                              className="font-medium text-rose-600 dark:text-rose-400 transition hover:underline"
+                              onClick={() => removeCustomFont(selectedFont.label)}
+                            >
+                              Remove {selectedFont.label}
+                            </button>
+                          )}
+                        </div>
+                        {fontError && <p className="text-xs text-rose-600 dark:text-rose-400">{fontError}</p>}
+                      </div>
+                      <div className="flex flex-col gap-2 text-sm">
+                        <span className="font-medium">Alignment</span>
+                        <div className="flex items-center gap-2">
+                          {TEXT_ALIGN_OPTIONS.map((option) => (
+                            <button
+                              key={option.value}
+                              type="button"
+                              onClick={() => updateLayer(activeText.id, { align: option.value })}
+                              className={`flex-1 rounded-lg border px-3 py-2 text-xs font-medium transition ${
+                                activeText.align === option.value
+                                  ? "border-emerald-500 bg-emerald-500 text-white"
+                                  : isDarkMode
+                                    ? "border-slate-700 bg-slate-800 text-white hover:bg-slate-700"
+                                    : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"
+                              }`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <button
-                        type="button"
-                        className={`rounded-lg border px-3 py-1.5 text-sm font-semibold transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
-                        onClick={() =>
-                          setFontSize((value) => clamp(value - 2, FONT_SIZE_MIN, FONT_SIZE_MAX))
-                        }
-                      >
-                        −
-                      </button>
+
+                    <div className="mt-4 grid gap-4 sm:grid-cols-4">
+                      <label className="flex flex-col gap-2 text-sm">
+                        <span className="font-medium">Text fit</span>
+                        <select
+                          className={`rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
+                          value={activeText.fit}
+                          onChange={(event) =>
+                            updateLayer(activeText.id, { fit: event.target.value as TextLayer["fit"] })
+                          }
+                        >
+                          {TEXT_FIT_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      {activeText.fit !== "none" && (
+                        <>
+                          <label className="flex flex-col gap-2 text-sm">
+                            <span className="font-medium">Box size (px)</span>
+                            <div className="flex items-center gap-1">
+                              <input
+                                type="number"
+                                min={1}
+                                className={`w-full rounded-lg border px-2 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
+                                value={Math.round(activeText.box.width * templateSize.width)}
+                                onChange={(event) =>
+                                  updateLayer(activeText.id, {
+                                    box: {
+                                      ...activeText.box,
+                                      width: clamp(Number(event.target.value) / templateSize.width, 0.01, 1),
+                                    },
+                                  })
+                                }
+                              />
+                              <span className="text-xs text-slate-500">×</span>
+                              <input
+                                type="number"
+                                min={1}
+                                className={`w-full rounded-lg border px-2 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
+                                value={Math.round(activeText.box.height * templateSize.height)}
+                                onChange={(event) =>
+                                  updateLayer(activeText.id, {
+                                    box: {
+                                      ...activeText.box,
+                                      height: clamp(Number(event.target.value) / templateSize.height, 0.01, 1),
+                                    },
+                                  })
+                                }
+                              />
+                            </div>
+                          </label>
+                          <label className="flex flex-col gap-2 text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium">Min size</span>
+                              <span className="text-xs text-slate-500">{activeText.minFontSize}px</span>
+                            </div>
+                            <input
+                              type="range"
+                              min={FONT_SIZE_MIN}
+                              max={activeText.fontSize}
+                              value={Math.min(activeText.minFontSize, activeText.fontSize)}
+                              onChange={(event) =>
+                                updateLayer(activeText.id, { minFontSize: Number(event.target.value) })
+                              }
+                            />
+                          </label>
+                          <label className="flex flex-col gap-2 text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium">Line height</span>
+                              <span className="text-xs text-slate-500">{activeText.lineHeight.toFixed(2)}×</span>
+                            </div>
+                            <input
+                              type="range"
+                              min={0.8}
+                              max={2.5}
+                              step={0.05}
+                              disabled={activeText.fit !== "wrap"}
+                              value={activeText.lineHeight}
+                              onChange={(event) =>
+                                updateLayer(activeText.id, { lineHeight: Number(event.target.value) })
+                              }
+                            />
+                          </label>
+                        </>
+                      )}
+                    </div>
+
+                    <TextStyleControls
+                      key={activeText.id}
+                      layer={activeText}
+                      imageError={imageError}
+                      isDarkMode={isDarkMode}
+                      onChange={(patch) => updateLayer(activeText.id, patch)}
+                      onPatternFile={handlePatternFile}
+                    />
+                  </>
+                )}
+                {activeQr && (
+                  <div className="mt-4 grid gap-4 sm:grid-cols-3">
+                    <label className="flex flex-col gap-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">QR size</span>
+                        <span className="text-xs text-slate-500">
+                          {Math.round(activeQr.size * templateSize.width)}px
+                        </span>
+                      </div>
                       <input
                         type="range"
-                        min={FONT_SIZE_MIN}
-                        max={FONT_SIZE_MAX}
-                        value={fontSize}
-                        onChange={(event) => setFontSize(Number(event.target.value))}
-                        className="flex-1"
+                        min={0.03}
+                        max={0.4}
+                        step={0.005}
+                        value={activeQr.size}
+                        onChange={(event) => updateLayer(activeQr.id, { size: Number(event.target.value) })}
                       />
-                      <button
-                        type="button"
-                        className={`rounded-lg border px-3 py-1.5 text-sm font-semibold transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
-                        onClick={() =>
-                          setFontSize((value) => clamp(value + 2, FONT_SIZE_MIN, FONT_SIZE_MAX))
-                        }
-                      >
-                        +
-                      </button>
-                    </div>
-                  </label>
-                  <label className="flex flex-col gap-2 text-sm">
-                    <span className="font-medium">Font color</span>
-                    <div className="flex items-center gap-2">
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm">
+                      <span className="font-medium">Code color</span>
                       <input
                         type="color"
-                        value={fontColor}
-                        onChange={(event) => setFontColor(event.target.value)}
+                        value={activeQr.color}
+                        onChange={(event) => updateLayer(activeQr.id, { color: event.target.value })}
                         className="h-10 w-full cursor-pointer rounded-lg border border-slate-300 dark:border-slate-700"
                       />
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm">
+                      <span className="font-medium">Background</span>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={activeQr.background ?? "#ffffff"}
+                          disabled={activeQr.background === null}
+                          onChange={(event) => updateLayer(activeQr.id, { background: event.target.value })}
+                          className="h-10 w-full cursor-pointer rounded-lg border border-slate-300 disabled:opacity-40 dark:border-slate-700"
+                        />
+                        <label className="flex items-center gap-1 text-xs">
+                          <input
+                            type="checkbox"
+                            checked={activeQr.background === null}
+                            onChange={(event) =>
+                              updateLayer(activeQr.id, { background: event.target.checked ? null : "#ffffff" })
+                            }
+                          />
+                          None
+                        </label>
+                      </div>
+                    </label>
+                  </div>
+                )}
+
+                {issued.rows.length > 1 && (
+                  <div className="mt-4 flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <div className="flex items-center gap-2">
                       <button
                         type="button"
-                        onClick={() => setFontColor("#ffffff")}
-                        className={`rounded-lg border px-3 py-2 text-xs font-medium transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-white hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
-                        title="Default white"
+                        className={`rounded-lg border px-2.5 py-1 text-xs font-medium transition disabled:opacity-40 ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
+                        disabled={previewPosition === 0}
+                        onClick={() => setPreviewIndex(previewPosition - 1)}
                       >
-                        White
+                        ◀
                       </button>
+                      <span className="font-mono text-xs">
+                        Row {previewPosition + 1} / {issued.rows.length}
+                      </span>
                       <button
                         type="button"
-                        onClick={() => setFontColor("#000000")}
-                        className={`rounded-lg border px-3 py-2 text-xs font-medium transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-white hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
-                        title="Black"
+                        className={`rounded-lg border px-2.5 py-1 text-xs font-medium transition disabled:opacity-40 ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`}
+                        disabled={previewPosition >= issued.rows.length - 1}
+                        onClick={() => setPreviewIndex(previewPosition + 1)}
                       >
-                        Black
+                        ▶
                       </button>
                     </div>
-                  </label>
-                  <label className="flex flex-col gap-2 text-sm">
-                    <span className="font-medium">Font family</span>
-                    <select
-                      className={`rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
-                      value={fontKey}
-                      onChange={(event) => setFontKey(event.target.value as FontValue)}
-                    >
-                      {FONT_OPTIONS.map((option) => (
-                        <option key={option.value} value={option.value}>
-                          {option.label}
-                        </option>
-                      ))}
-                    </select>
-                  </label>
-                </div>
+                    {variants.rules.length > 0 && (
+                      <span className="text-xs text-slate-500">
+                        Variant: <span className="font-medium">{variantName(variants.rules, previewVariant)}</span>
+                      </span>
+                    )}
+                  </div>
+                )}
 
                 <label className="mt-4 flex flex-col gap-2 text-sm">
                   <span className="font-medium">Preview text override</span>
@@ -596,7 +2976,9 @@ export default function Home() {
                 <div className={`mt-4 rounded-lg border border-dashed p-4 text-sm ${isDarkMode ? "border-slate-700 bg-slate-900/30" : "border-slate-300 bg-white"}`}>
                   <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                     <div>
-                      <p className="font-medium">Template image</p>
+                      <p className="font-medium">
+                        Template image{designPageList.length > 1 && ` for page ${activePage + 1}`}
+                      </p>
                       <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
                         Upload a JPG/PNG or use default background.
                       </p>
@@ -628,15 +3010,115 @@ export default function Home() {
                 </div>
               </div>
             </div>
+
+            <VariantPanel
+              settings={variants}
+              counts={variantCounts}
+              error={variantMatcher.error ?? variantFileError}
+              mergedOutput={isMergedFormat(outputFormat)}
+              isDarkMode={isDarkMode}
+              onChange={setVariants}
+              onTemplateFile={handleVariantTemplate}
+            />
           </div>
 
           <div className="space-y-6">
+            <ProjectPanel
+              projectName={projectName}
+              autosavedAt={autosavedAt}
+              error={projectError}
+              isDarkMode={isDarkMode}
+              onNameChange={setProjectName}
+              onExport={handleProjectExport}
+              onImport={handleProjectImport}
+            />
+
+            <DesignGallery
+              starters={STARTER_DESIGNS}
+              starterThumbnails={starterThumbnails}
+              designs={libraryDesigns}
+              saving={isSavingDesign}
+              error={libraryError}
+              isDarkMode={isDarkMode}
+              onShowStarters={showStarters}
+              onApplyStarter={applyStarter}
+              onSave={handleSaveDesign}
+              onOpen={handleOpenDesign}
+              onRename={handleRenameDesign}
+              onDuplicate={handleDuplicateDesign}
+              onDelete={handleDeleteDesign}
+            />
+
+            <CertificateIdPanel
+              settings={certificateIds}
+              columnOptions={columnOptions}
+              projectName={projectName}
+              sampleId={issued.ids[0] ?? null}
+              apiKey={apiKey}
+              error={issued.error}
+              isDarkMode={isDarkMode}
+              onChange={setCertificateIds}
+              onApiKeyChange={handleApiKeyChange}
+            />
+
+            <SigningPanel
+              signingKey={signingKey}
+              enabled={signCertificates}
+              error={signingError}
+              isDarkMode={isDarkMode}
+              onToggle={setSignCertificates}
+              onCreate={handleCreateSigningKey}
+              onImport={handleImportSigningKey}
+              onExport={handleExportSigningKey}
+              onRemove={handleRemoveSigningKey}
+            />
+
+            <DeliveryPanel
+              settings={delivery}
+              columnOptions={columnOptions}
+              mailStatus={mailStatus}
+              apiKey={apiKey}
+              recipientCount={names.length}
+              addressCount={deliveryAddressCount}
+              warnings={deliveryWarnings}
+              report={deliveryReport}
+              running={deliveryRunning}
+              progress={deliveryProgress}
+              message={deliveryMessage}
+              canStart={names.length > 0 && generateStatus !== "running" && !deliveryRunning}
+              mergedOutput={isMergedFormat(outputFormat)}
+              isDarkMode={isDarkMode}
+              onChange={setDelivery}
+              onApiKeyChange={handleApiKeyChange}
+              onSend={() => handleDeliver()}
+              onRetryFailed={retryFailedDeliveries}
+              onCancel={() => deliveryAbortRef.current?.abort()}
+              onDownloadReport={downloadDeliveryReport}
+              onDryRun={handleGenerate}
+            />
+
             <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-emerald-800 bg-gradient-to-br from-emerald-900/20 to-slate-900/50" : "border-emerald-200 bg-gradient-to-br from-emerald-50 to-white"}`}>
-              <h2 className="text-lg font-semibold">3. Generate ZIP</h2>
+              <h2 className="text-lg font-semibold">3. Generate</h2>
               <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
-                All processing happens in your browser. Nothing is stored or uploaded.
+                Certificates are rendered in your browser. Only names and IDs are sent to this site, and only when publishing for verification is on.
               </p>
 
+              <OutputSettings
+                format={outputFormat}
+                pdfOptions={pdfOptions}
+                printOptions={printOptions}
+                templateSize={designPageList[0].templateSize}
+                pageCount={designPageList.length}
+                files={fileNaming}
+                examplePath={exampleOutputPath}
+                fileIssues={fileIssues}
+                isDarkMode={isDarkMode}
+                onFormatChange={setOutputFormat}
+                onPdfOptionsChange={setPdfOptions}
+                onPrintOptionsChange={setPrintOptions}
+                onFilesChange={setFileNaming}
+              />
+
               <button
                 className={`mt-6 w-full rounded-lg py-3 text-base font-semibold transition shadow-lg ${
                   canGenerate
@@ -649,16 +3131,48 @@ export default function Home() {
                 {generateStatus === "running" ? (
                   <span className="flex items-center justify-center gap-2">
                     <span className="h-4 w-4 animate-spin rounded-full border-2 border-white/30 border-t-white"></span>
-                    Building ZIP...
+                    {isMergedFormat(outputFormat) ? "Building PDF..." : "Building ZIP..."}
                   </span>
+                ) : isMergedFormat(outputFormat) ? (
+                  "📄 Download PDF"
                 ) : (
                   "📦 Download ZIP"
                 )}
               </button>
 
+              {generateStatus === "running" && progress && (
+                <div className="mt-4 space-y-2 text-sm">
+                  <div
+                    className={`h-2 w-full overflow-hidden rounded-full ${isDarkMode ? "bg-slate-800" : "bg-slate-200"}`}
+                    role="progressbar"
+                    aria-valuemin={0}
+                    aria-valuemax={progress.total}
+                    aria-valuenow={progress.done}
+                  >
+                    <div
+                      className="h-full rounded-full bg-emerald-500 transition-[width]"
+                      style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-slate-500">
+                    <span>
+                      {progress.done} / {progress.total}
+                      {progress.etaMs !== null && ` · about ${formatDuration(progress.etaMs)} left`}
+                    </span>
+                    <button
+                      type="button"
+                      className="font-medium text-rose-600 dark:text-rose-400 transition hover:underline"
+                      onClick={cancelGenerate}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {generateStatus === "success" && (
                 <p className="mt-3 text-sm font-medium text-emerald-600 dark:text-emerald-400">
-                  ✅ ZIP downloaded successfully!
+                  ✅ {isMergedFormat(outputFormat) ? "PDF" : "ZIP"} downloaded successfully!
                 </p>
               )}
             </div>
@@ -672,6 +3186,12 @@ export default function Home() {
                     {uploadStatus}
                   </span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-600 dark:text-slate-400">Selected:</span>
+                  <span className="font-medium">
+                    {names.length} of {allRecipients.names.length}
+                  </span>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-slate-600 dark:text-slate-400">Generate:</span>
                   <span className={`font-medium ${generateStatus === "success" ? "text-emerald-600 dark:text-emerald-400" : generateStatus === "error" ? "text-rose-600 dark:text-rose-400" : ""}`}>
@@ -689,30 +3209,22 @@ export default function Home() {
                   {statusMessage}
                 </div>
               )}
-
-              {names.length > 0 && (
-                <div className={`mt-4 max-h-64 overflow-y-auto rounded-lg border p-4 text-sm ${isDarkMode ? "border-slate-700 bg-slate-950" : "border-slate-200 bg-white"}`}>
-                  <p className="mb-2 text-xs font-medium uppercase tracking-wider text-slate-500">
-                    Loaded names ({names.length})
-                  </p>
-                  <ol className="space-y-1.5">
-                    {names.slice(0, 20).map((name, index) => (
-                      <li key={name + index} className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
-                        <span className="text-xs text-slate-400 dark:text-slate-500 font-mono w-6">{index + 1}.</span>
-                        <span className="truncate">{name}</span>
-                      </li>
-                    ))}
-                  </ol>
-                  {names.length > 20 && (
-                    <p className="mt-3 text-xs text-slate-500 text-center">
-                      ...and {names.length - 20} more
-                    </p>
-                  )}
-                </div>
-              )}
             </div>
           </div>
         </section>
+
+        <HistoryPanel
+          runs={runs}
+          revocations={revocations}
+          busy={historyBusy}
+          message={historyMessage}
+          error={historyError}
+          isDarkMode={isDarkMode}
+          onRedownload={handleRedownload}
+          onReissue={handleReissue}
+          onRevoke={handleRevoke}
+          onExportRegistry={exportHistoryRegistry}
+        />
       </main>
     </div>
   );
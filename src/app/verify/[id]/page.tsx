@@ -0,0 +1,75 @@
+import type { Metadata } from "next";
+import { certificateIdFromPath } from "@/lib/certificate-id";
+import { findCertificate } from "@/lib/registry-store";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Verify certificate",
+  robots: { index: false },
+};
+
+type VerifyPageProps = { params: Promise<{ id: string }> };
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+export default async function VerifyPage({ params }: VerifyPageProps) {
+  const { id } = await params;
+  const certificateId = certificateIdFromPath(id);
+  const certificate = await findCertificate(certificateId);
+
+  return (
+    <div className="min-h-screen bg-white text-slate-900">
+      <main className="mx-auto flex max-w-xl flex-col gap-6 px-4 py-16">
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Certificate nucleus</p>
+        {certificate?.revokedAt ? (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 p-6 shadow-lg">
+            <h1 className="text-2xl font-bold text-amber-700">⚠️ Revoked certificate</h1>
+            <p className="mt-3 text-sm text-slate-600">
+              This certificate was issued through this site but has been withdrawn by the organiser
+              and is no longer valid.
+            </p>
+            <dl className="mt-4 grid grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm">
+              <dt className="text-slate-500">Issued to</dt>
+              <dd className="font-semibold">{certificate.name}</dd>
+              <dt className="text-slate-500">Event</dt>
+              <dd className="font-medium">{certificate.event || "—"}</dd>
+              <dt className="text-slate-500">Revoked on</dt>
+              <dd className="font-medium">{formatDate(certificate.revokedAt)}</dd>
+              <dt className="text-slate-500">Certificate ID</dt>
+              <dd className="font-mono">{certificate.id}</dd>
+            </dl>
+          </div>
+        ) : certificate ? (
+          <div className="rounded-xl border border-emerald-200 bg-emerald-50 p-6 shadow-lg">
+            <h1 className="text-2xl font-bold text-emerald-700">✅ Valid certificate</h1>
+            <dl className="mt-4 grid grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm">
+              <dt className="text-slate-500">Issued to</dt>
+              <dd className="font-semibold">{certificate.name}</dd>
+              <dt className="text-slate-500">Event</dt>
+              <dd className="font-medium">{certificate.event || "—"}</dd>
+              <dt className="text-slate-500">Issued on</dt>
+              <dd className="font-medium">{formatDate(certificate.issuedAt)}</dd>
+              <dt className="text-slate-500">Certificate ID</dt>
+              <dd className="font-mono">{certificate.id}</dd>
+            </dl>
+          </div>
+        ) : (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-6 shadow-lg">
+            <h1 className="text-2xl font-bold text-rose-700">❌ Certificate not found</h1>
+            <p className="mt-3 text-sm text-slate-600">
+              No certificate with ID <span className="font-mono">{certificateId}</span> was issued
+              through this site. Check the ID for typos or contact the organiser.
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { Metadata } from "next";
+import { SignatureVerifier } from "@/components/SignatureVerifier";
+
+export const metadata: Metadata = {
+  title: "Check a signed certificate",
+  robots: { index: false },
+};
+
+type SignatureCheckPageProps = { searchParams: Promise<{ key?: string | string[] }> };
+
+export default async function SignatureCheckPage({ searchParams }: SignatureCheckPageProps) {
+  const { key } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-white text-slate-900">
+      <main className="mx-auto flex max-w-xl flex-col gap-6 px-4 py-16">
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Certificate nucleus</p>
+        <div>
+          <h1 className="text-2xl font-bold">Check a signed certificate</h1>
+          <p className="mt-2 text-sm text-slate-600">
+            Signed certificates carry their recipient details and a signature from the issuer. The
+            check runs in your browser against the issuer&apos;s public key.
+          </p>
+        </div>
+        <SignatureVerifier initialKey={typeof key === "string" ? key : ""} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  assignCertificateIds,
+  resolveEventName,
+  withCertificateIds,
+} from "../lib/certificate-id";
+import {
+  createCertificateRenderer,
+  filesPerRecipient,
+  renderConfigFromDesign,
+} from "../lib/engine";
+import { getFontOption, primaryFamily } from "../lib/fonts";
+import { describeMissingImages, findMissingImages, resolveRowImages } from "../lib/images";
+import { createPdfWriter } from "../lib/imposition";
+import { isTextLayer } from "../lib/layers";
+import {
+  FILE_MANIFEST_NAME,
+  bundleFileName,
+  outputManifestCsv,
+  pagePaths,
+  planOutputPaths,
+  type OutputFile,
+} from "../lib/naming";
+import {
+  createNodeBackend,
+  hasFontFamily,
+  loadImageLibrary,
+  loadProjectTemplate,
+  loadVariantTemplates,
+  registerBundledFonts,
+  registerFontFile,
+  registerFontsourceFonts,
+  withProjectFonts,
+} from "../lib/node-backend";
+import {
+  createCertificatePdf,
+  isMergedFormat,
+  setPdfSignatures,
+  type OutputFormat,
+} from "../lib/pdf";
+import { bindProjectToColumns, designLayers, designPages, parseProject } from "../lib/project";
+import {
+  REGISTRY_FILE_NAMES,
+  createRegistryEntries,
+  registryToCsv,
+  registryToJson,
+} from "../lib/registry";
+import { registerCertificates } from "../lib/registry-store";
+import { extractRecipients, readWorkbook } from "../lib/sheet";
+import {
+  MANIFEST_FILE_NAME,
+  SIGNATURE_KEYWORD,
+  createClaims,
+  hashDesign,
+  importPrivateKey,
+  parseSigningKey,
+  sha256Hex,
+  signClaims,
+  signManifest,
+  type ManifestFile,
+} from "../lib/signing";
+import { createVariantMatcher, variantFolder } from "../lib/variants";
+
+const USAGE = `Usage: nucleus-cert <sheet.xlsx|.ods|.csv> <project.json> <outdir> [options]
+
+Options:
+  --sheet <name>                 Workbook sheet to read (default: the first with values)
+  --format <format>              Override the project's output format: png, pdf,
+                                 pdf-merged, or pdf-print (imposed print sheets)
+  --template <file>              Use this template image for the first page
+  --public <dir>                 Where "/..." template paths resolve (default: ./public)
+  --font <file[=Family]>         Register an extra font file (repeatable)
+  --photos <dir|zip>             Photos for image layers that take a file name from a column
+  --verify-url <url>             Site the QR codes link to (default: the project's setting)
+  --register                     Add issued IDs to the registry in $NUCLEUS_DATA_DIR
+  --sign-key <file>              Sign certificates with a key exported from the app
+  -h, --help                     Show this help`;
+
+const OUTPUT_FORMATS: OutputFormat[] = ["png", "pdf", "pdf-merged", "pdf-print"];
+
+const fail = (message: string): never => {
+  console.error(`nucleus-cert: ${message}`);
+  process.exit(1);
+};
+
+const readJson = async (file: string) => {
+  const text = await readFile(file, "utf8").catch(() => fail(`Cannot read ${file}.`));
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return fail(`${file} is not valid JSON.`);
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      sheet: { type: "string" },
+      format: { type: "string" },
+      template: { type: "string" },
+      public: { type: "string", default: "public" },
+      font: { type: "string", multiple: true, default: [] },
+      photos: { type: "string" },
+      "verify-url": { type: "string" },
+      register: { type: "boolean" },
+      "sign-key": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 3) {
+    fail(`expected 3 arguments, got ${positionals.length}.\n\n${USAGE}`);
+  }
+  const [sheetPath, projectPath, outDir] = positionals;
+  const publicDir = path.resolve(values.public);
+
+  const sheet = readWorkbook(
+    await readFile(sheetPath).catch(() => fail(`Cannot read ${sheetPath}.`)),
+    path.basename(sheetPath),
+    values.sheet
+  );
+  const columns = sheet.columnOptions.map((option) => option.label);
+  const project = bindProjectToColumns(parseProject(await readJson(projectPath)), columns);
+  const layers = designLayers(project);
+
+  const format = (values.format ?? project.output.format) as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    fail(`unknown format "${values.format}". Use ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+
+  await registerBundledFonts(path.join(publicDir, "fonts"));
+  await registerFontsourceFonts(path.resolve(__dirname, "../../node_modules"));
+  for (const entry of values.font) {
+    const [file, family] = entry.split("=");
+    registerFontFile(path.resolve(file), family || undefined);
+  }
+  let linked = project;
+  try {
+    linked = withProjectFonts(project);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : "Cannot load the project's fonts.");
+  }
+  const missingFonts = [
+    ...new Set(
+      designLayers(linked)
+        .filter(isTextLayer)
+        .map((layer) => primaryFamily(getFontOption(layer.fontKey)))
+    ),
+  ].filter((family) => !hasFontFamily(family));
+  if (missingFonts.length) {
+    fail(
+      `font ${missingFonts.map((family) => `"${family}"`).join(", ")} is not installed; pass --font <file>=<family>.`
+    );
+  }
+
+  const recipients = extractRecipients(sheet.rows, project.nameColumn);
+  const { names } = recipients;
+  if (!names.length) {
+    fail(`no recipients found in column "${columns[project.nameColumn] ?? project.nameColumn + 1}".`);
+  }
+  const event = resolveEventName(project.certificateIds, project.name);
+  const ids = assignCertificateIds(recipients.rows, names, project.certificateIds, columns, event);
+  const bound = withCertificateIds(columns, recipients.rows, ids);
+  const { rows } = bound;
+
+  const photos = values.photos ? await loadImageLibrary(values.photos) : new Map();
+  const missingImages = findMissingImages(layers, recipients.rows, photos);
+  if (missingImages.length) {
+    const where = values.photos ? ` from ${values.photos}` : "; pass --photos <dir|zip>";
+    const details = missingImages.map(
+      (entry) => `  ${entry.layer.label || "Untitled"}: ${describeMissingImages(entry)}`
+    );
+    fail(`photos are missing${where}.\n${details.join("\n")}`);
+  }
+
+  const templates = await Promise.all(
+    designPages(project).map(async (page, index) =>
+      index === 0 && values.template
+        ? new Uint8Array(
+            await readFile(values.template).catch(() => fail(`Cannot read ${values.template}.`))
+          )
+        : loadProjectTemplate(page.template, publicDir)
+    )
+  );
+  const verifyBaseUrl = values["verify-url"] ?? project.certificateIds.verifyBaseUrl;
+  if (!verifyBaseUrl && layers.some((layer) => layer.kind === "qr")) {
+    console.warn("Warning: no --verify-url; QR codes will contain only the certificate ID.");
+  }
+  const config = renderConfigFromDesign(
+    { ...linked, output: { ...project.output, format }, certificateIds: { verifyBaseUrl } },
+    bound.columns
+  );
+  const variantTemplates = await loadVariantTemplates(project.variants, publicDir);
+  const renderer = await createCertificateRenderer(
+    createNodeBackend(),
+    config,
+    templates,
+    variantTemplates
+  );
+  const matchVariant = createVariantMatcher(project.variants.rules, config.columns);
+  const registry = createRegistryEntries(ids, names, event);
+
+  const signKeyPath = values["sign-key"];
+  const signingKey = signKeyPath
+    ? parseSigningKey(
+        await readFile(signKeyPath, "utf8").catch(() => fail(`Cannot read ${signKeyPath}.`))
+      )
+    : null;
+  const signer = signingKey ? await importPrivateKey(signingKey) : null;
+  const designHash = signer ? await hashDesign(project, templates, variantTemplates) : "";
+  const signatures = signer
+    ? await Promise.all(
+        registry.map((entry, index) =>
+          signClaims(signer, createClaims(entry, columns, recipients.rows[index], designHash))
+        )
+      )
+    : [];
+  const manifestFiles: ManifestFile[] = [];
+  const writeOutput = async (name: string, bytes: Uint8Array | string) => {
+    const data = typeof bytes === "string" ? new TextEncoder().encode(bytes) : bytes;
+    if (signer) manifestFiles.push({ path: name, sha256: await sha256Hex(data) });
+    await mkdir(path.dirname(path.join(outDir, name)), { recursive: true });
+    await writeFile(path.join(outDir, name), data);
+  };
+
+  await mkdir(outDir, { recursive: true });
+  const mergedPdf = isMergedFormat(format) ? await createCertificatePdf(project.name) : null;
+  const pdfWriter = mergedPdf ? createPdfWriter(mergedPdf, config) : null;
+
+  const files = rows.map((row, index): OutputFile => ({
+    row: recipients.indices[index],
+    name: names[index],
+    values: row,
+    prefix: project.variants.folders
+      ? variantFolder(project.variants.rules, matchVariant(row))
+      : "",
+  }));
+  const paths = planOutputPaths(files, config.columns, project.output.files, config.format).map(
+    (filePath) => pagePaths(filePath, filesPerRecipient(config))
+  );
+  for (const [index, row] of rows.entries()) {
+    const images = resolveRowImages(layers, row, photos);
+    if (pdfWriter) {
+      await pdfWriter.add(await renderer.renderPages(row, images));
+    } else {
+      const output = await renderer.render(row, names[index], signatures[index], images);
+      for (const [page, bytes] of output.entries()) {
+        await writeOutput(paths[index][page], bytes);
+      }
+    }
+    process.stderr.write(`\rRendered ${index + 1}/${rows.length}`);
+  }
+  process.stderr.write("\n");
+
+  if (mergedPdf) {
+    await pdfWriter?.finish();
+    if (signatures.length) setPdfSignatures(mergedPdf, SIGNATURE_KEYWORD, signatures);
+    await writeOutput(
+      bundleFileName(project.output.files, "certificates", "pdf"),
+      await mergedPdf.save()
+    );
+  } else if (project.output.files.manifest) {
+    await writeOutput(FILE_MANIFEST_NAME, outputManifestCsv(files, paths, config.columns));
+  }
+
+  await writeOutput(REGISTRY_FILE_NAMES.csv, registryToCsv(registry));
+  await writeOutput(REGISTRY_FILE_NAMES.json, registryToJson(registry));
+  if (signer && signingKey) {
+    const manifest = await signManifest(signer, {
+      publicKey: signingKey.publicKey,
+      design: designHash,
+      issuedAt: registry[0].issuedAt,
+      files: manifestFiles,
+    });
+    await writeFile(path.join(outDir, MANIFEST_FILE_NAME), JSON.stringify(manifest, null, 2));
+  }
+  if (values.register) {
+    const total = await registerCertificates(registry);
+    console.log(`Registered ${registry.length} ID(s); the registry now holds ${total}.`);
+  }
+  console.log(`Wrote ${rows.length} certificate(s) to ${path.resolve(outDir)}`);
+};
+
+main().catch((error: unknown) => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,119 @@
+"use client";
+
+import { CERTIFICATE_ID_FIELD, type CertificateIdSettings } from "@/lib/certificate-id";
+import type { ColumnOption } from "@/lib/sheet";
+
+type CertificateIdPanelProps = {
+  settings: CertificateIdSettings;
+  columnOptions: ColumnOption[];
+  projectName: string;
+  /** ID the first recipient will get, or null when the IDs are invalid. */
+  sampleId: string | null;
+  /** The server's NUCLEUS_API_KEY, which publishing needs; kept in this browser. */
+  apiKey: string;
+  error: string | null;
+  isDarkMode: boolean;
+  onChange: (settings: CertificateIdSettings) => void;
+  onApiKeyChange: (apiKey: string) => void;
+};
+
+const AUTO_ID = "auto";
+
+export function CertificateIdPanel({
+  settings,
+  columnOptions,
+  projectName,
+  sampleId,
+  apiKey,
+  error,
+  isDarkMode,
+  onChange,
+  onApiKeyChange,
+}: CertificateIdPanelProps) {
+  const inputClass = `w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const update = (patch: Partial<CertificateIdSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
+      <h2 className="text-lg font-semibold">Certificate IDs</h2>
+      <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+        Every certificate gets a unique ID. Show it with {`{{${CERTIFICATE_ID_FIELD}}}`} in a text
+        layer or add a QR code layer that links to its verification page.
+      </p>
+
+      <div className="mt-4 space-y-3 text-sm">
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">ID source</span>
+          <select
+            className={inputClass}
+            value={settings.source === "column" ? String(settings.column) : AUTO_ID}
+            onChange={(event) =>
+              update(
+                event.target.value === AUTO_ID
+                  ? { source: "auto" }
+                  : { source: "column", column: Number(event.target.value) }
+              )
+            }
+          >
+            <option value={AUTO_ID}>Generate from event and name</option>
+            {columnOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                Column: {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Event name</span>
+          <input
+            className={inputClass}
+            value={settings.event}
+            placeholder={projectName}
+            onChange={(event) => update({ event: event.target.value })}
+          />
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Verification site</span>
+          <input
+            className={inputClass}
+            type="url"
+            value={settings.verifyBaseUrl}
+            placeholder="This site"
+            onChange={(event) => update({ verifyBaseUrl: event.target.value.trim() })}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.publish}
+            onChange={(event) => update({ publish: event.target.checked })}
+          />
+          <span>Publish issued IDs to this site&apos;s verification registry</span>
+        </label>
+        {settings.publish && (
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">API key</span>
+            <input
+              className={inputClass}
+              type="password"
+              autoComplete="off"
+              value={apiKey}
+              placeholder="NUCLEUS_API_KEY of this site"
+              onChange={(event) => onApiKeyChange(event.target.value.trim())}
+            />
+            <span className="text-xs text-slate-500">
+              The registry only accepts IDs with the server&apos;s key. It is kept in this browser.
+            </span>
+          </label>
+        )}
+      </div>
+
+      {sampleId && (
+        <p className="mt-3 text-xs text-slate-500">
+          First certificate: <span className="font-mono">{sampleId}</span>
+        </p>
+      )}
+      {error && <p className="mt-2 text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { findDuplicateRows, matchesSearch, parseRowFilter } from "@/lib/grid";
+import type { ColumnOption } from "@/lib/sheet";
+
+type DataGridProps = {
+  rows: string[][];
+  columnOptions: ColumnOption[];
+  /** Sheet indices of the recipient rows, i.e. data rows with a name. */
+  recipientIndices: number[];
+  excludedRows: Set<number>;
+  nameColumn: number;
+  emailColumn: number | null;
+  isDarkMode: boolean;
+  onEditCell: (row: number, column: number, value: string) => void;
+  onSetIncluded: (rows: number[], included: boolean) => void;
+  onExport: () => void;
+};
+
+type View = "all" | "included" | "excluded" | "duplicates";
+
+type EditingCell = { row: number; column: number; value: string };
+
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 384;
+/** Rows rendered above and below the viewport so fast scrolling stays filled. */
+const OVERSCAN = 8;
+const COLUMN_WIDTH = 160;
+const LEAD_WIDTH = 76;
+
+export function DataGrid({
+  rows,
+  columnOptions,
+  recipientIndices,
+  excludedRows,
+  nameColumn,
+  emailColumn,
+  isDarkMode,
+  onEditCell,
+  onSetIncluded,
+  onExport,
+}: DataGridProps) {
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState("");
+  const [view, setView] = useState<View>("all");
+  const [scrollTop, setScrollTop] = useState(0);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+
+  const inputClass = `rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const buttonClass = `rounded-lg border px-3 py-1.5 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-50 ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`;
+
+  const labels = useMemo(() => columnOptions.map((option) => option.label), [columnOptions]);
+
+  const compiled = useMemo(() => {
+    try {
+      return { predicate: parseRowFilter(filter, labels), error: null };
+    } catch (error) {
+      return {
+        predicate: () => true,
+        error: error instanceof Error ? error.message : "Invalid filter.",
+      };
+    }
+  }, [filter, labels]);
+
+  const duplicates = useMemo(
+    () =>
+      findDuplicateRows(
+        rows,
+        recipientIndices,
+        emailColumn === null ? [nameColumn] : [nameColumn, emailColumn]
+      ),
+    [rows, recipientIndices, nameColumn, emailColumn]
+  );
+
+  const shown = useMemo(
+    () =>
+      recipientIndices.filter((index) => {
+        const row = rows[index];
+        if (view === "included" && excludedRows.has(index)) return false;
+        if (view === "excluded" && !excludedRows.has(index)) return false;
+        if (view === "duplicates" && !duplicates.has(index)) return false;
+        return matchesSearch(row, search) && compiled.predicate(row);
+      }),
+    [recipientIndices, rows, view, excludedRows, duplicates, search, compiled]
+  );
+
+  const includedCount = recipientIndices.length - excludedRows.size;
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(shown.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const gridTemplateColumns = `${LEAD_WIDTH}px repeat(${columnOptions.length}, ${COLUMN_WIDTH}px)`;
+  const width = LEAD_WIDTH + columnOptions.length * COLUMN_WIDTH;
+  const allShownIncluded = shown.length > 0 && shown.every((index) => !excludedRows.has(index));
+
+  const commitEdit = () => {
+    if (!editing) return;
+    if (editing.value !== (rows[editing.row][editing.column] ?? "")) {
+      onEditCell(editing.row, editing.column, editing.value);
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Recipients</h2>
+          <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+            {includedCount} of {recipientIndices.length} selected for generation. Click a cell to fix it.
+          </p>
+        </div>
+        <button type="button" className={buttonClass} onClick={onExport}>
+          📊 Export XLSX
+        </button>
+      </div>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-[1fr,2fr,auto]">
+        <input
+          className={inputClass}
+          placeholder="Search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+        />
+        <input
+          className={`${inputClass} font-mono text-xs`}
+          placeholder='Filter, e.g. City = Paris and Score >= 80'
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+        />
+        <select className={inputClass} value={view} onChange={(event) => setView(event.target.value as View)}>
+          <option value="all">All rows</option>
+          <option value="included">Selected</option>
+          <option value="excluded">Left out</option>
+          <option value="duplicates">Duplicates ({duplicates.size})</option>
+        </select>
+      </div>
+      {compiled.error && <p className="mt-2 text-xs text-rose-600 dark:text-rose-400">{compiled.error}</p>}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-slate-500">
+          Showing {shown.length} row{shown.length === 1 ? "" : "s"}
+        </span>
+        <button type="button" className={buttonClass} disabled={!shown.length} onClick={() => onSetIncluded(shown, !allShownIncluded)}>
+          {allShownIncluded ? "Leave out shown" : "Select shown"}
+        </button>
+        <button
+          type="button"
+          className={buttonClass}
+          disabled={!shown.length || shown.length === recipientIndices.length}
+          onClick={() => {
+            const kept = new Set(shown);
+            onSetIncluded(recipientIndices.filter((index) => !kept.has(index)), false);
+            onSetIncluded(shown, true);
+          }}
+        >
+          Select only shown
+        </button>
+        {excludedRows.size > 0 && (
+          <button type="button" className={buttonClass} onClick={() => onSetIncluded(recipientIndices, true)}>
+            Select all
+          </button>
+        )}
+      </div>
+
+      <div
+        className={`mt-3 overflow-auto rounded-lg border text-sm ${isDarkMode ? "border-slate-800 bg-slate-950" : "border-slate-200 bg-white"}`}
+        style={{ height: Math.min(VIEWPORT_HEIGHT, (shown.length + 1) * ROW_HEIGHT + 2) }}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <div style={{ width, minWidth: "100%" }}>
+          <div
+            className={`sticky top-0 z-10 grid border-b text-xs font-semibold ${isDarkMode ? "border-slate-800 bg-slate-900" : "border-slate-200 bg-slate-100"}`}
+            style={{ gridTemplateColumns, height: ROW_HEIGHT }}
+          >
+            <span className="px-2 leading-8 text-slate-500">#</span>
+            {columnOptions.map((option) => (
+              <span key={option.value} className="truncate px-2 leading-8" title={option.label}>
+                {option.label}
+                {option.value === nameColumn && " ★"}
+              </span>
+            ))}
+          </div>
+          <div className="relative" style={{ height: shown.length * ROW_HEIGHT }}>
+            {shown.slice(first, last).map((index, offset) => {
+              const row = rows[index];
+              const included = !excludedRows.has(index);
+              const duplicateOf = duplicates.get(index);
+              return (
+                <div
+                  key={index}
+                  className={`absolute inset-x-0 grid border-b ${isDarkMode ? "border-slate-900" : "border-slate-100"} ${included ? "" : "opacity-50"}`}
+                  style={{ gridTemplateColumns, height: ROW_HEIGHT, top: (first + offset) * ROW_HEIGHT }}
+                >
+                  <label className="flex items-center gap-1.5 px-2 text-xs text-slate-500">
+                    <input
+                      type="checkbox"
+                      className="h-3.5 w-3.5 accent-emerald-500"
+                      checked={included}
+                      onChange={(event) => onSetIncluded([index], event.target.checked)}
+                    />
+                    <span className="font-mono">{index + 1}</span>
+                    {duplicateOf !== undefined && (
+                      <span title={`Same as row ${duplicateOf + 1}`} className="text-amber-600 dark:text-amber-400">
+                        ⚠
+                      </span>
+                    )}
+                  </label>
+                  {columnOptions.map((option) =>
+                    editing?.row === index && editing.column === option.value ? (
+                      <input
+                        key={option.value}
+                        autoFocus
+                        className={`h-full w-full px-2 text-sm outline-none ring-2 ring-inset ring-emerald-500 ${isDarkMode ? "bg-slate-800 text-white" : "bg-white text-slate-900"}`}
+                        value={editing.value}
+                        onChange={(event) => setEditing({ ...editing, value: event.target.value })}
+                        onBlur={commitEdit}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") commitEdit();
+                          if (event.key === "Escape") setEditing(null);
+                        }}
+                      />
+                    ) : (
+                      <button
+                        key={option.value}
+                        type="button"
+                        className="truncate px-2 text-left leading-8 hover:bg-emerald-500/10"
+                        title={row[option.value] ?? ""}
+                        onClick={() => setEditing({ row: index, column: option.value, value: row[option.value] ?? "" })}
+                      >
+                        {row[option.value] ?? ""}
+                      </button>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+      {duplicates.size > 0 && view !== "duplicates" && (
+        <p className="mt-2 text-xs text-amber-700 dark:text-amber-400">
+          ⚠ {duplicates.size} row{duplicates.size === 1 ? " repeats" : "s repeat"} an earlier name
+          {emailColumn === null ? "" : " or email address"}. Pick &quot;Duplicates&quot; to review them.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import type { BatchProgress } from "@/lib/batch";
+import {
+  RATE_PER_MINUTE_MAX,
+  RATE_PER_MINUTE_MIN,
+  type DeliveryResult,
+  type DeliverySettings,
+} from "@/lib/email";
+import type { ColumnOption } from "@/lib/sheet";
+
+/** What `GET /api/mail` reports about the server's SMTP setup. */
+export type MailStatus = {
+  configured: boolean;
+  from: string | null;
+  /** Whether NUCLEUS_API_KEY is set, without which the server sends nothing. */
+  keyConfigured: boolean;
+};
+
+type DeliveryPanelProps = {
+  settings: DeliverySettings;
+  columnOptions: ColumnOption[];
+  /** Null when the API could not be reached. */
+  mailStatus: MailStatus | null;
+  /** The server's NUCLEUS_API_KEY, which sending needs; kept in this browser. */
+  apiKey: string;
+  recipientCount: number;
+  /** Recipients with a valid address in the email column. */
+  addressCount: number;
+  warnings: string[];
+  report: DeliveryResult[];
+  running: boolean;
+  progress: BatchProgress | null;
+  message: string | null;
+  canStart: boolean;
+  /** Merged PDFs have no per-recipient files to put in `.eml` files. */
+  mergedOutput: boolean;
+  isDarkMode: boolean;
+  onChange: (settings: DeliverySettings) => void;
+  onApiKeyChange: (apiKey: string) => void;
+  onSend: () => void;
+  onRetryFailed: () => void;
+  onCancel: () => void;
+  onDownloadReport: () => void;
+  onDryRun: () => void;
+};
+
+const NO_COLUMN = "none";
+
+export function DeliveryPanel({
+  settings,
+  columnOptions,
+  mailStatus,
+  apiKey,
+  recipientCount,
+  addressCount,
+  warnings,
+  report,
+  running,
+  progress,
+  message,
+  canStart,
+  mergedOutput,
+  isDarkMode,
+  onChange,
+  onApiKeyChange,
+  onSend,
+  onRetryFailed,
+  onCancel,
+  onDownloadReport,
+  onDryRun,
+}: DeliveryPanelProps) {
+  const inputClass = `w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const buttonClass = `rounded-lg border px-3 py-1.5 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-50 ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`;
+  const update = (patch: Partial<DeliverySettings>) => onChange({ ...settings, ...patch });
+
+  const failedCount = report.filter((result) => result.status === "failed").length;
+  const sentCount = report.length - failedCount;
+  const hasColumn = settings.emailColumn !== null;
+  const dryRun = settings.mode === "dry-run";
+  const canSend =
+    canStart &&
+    hasColumn &&
+    addressCount > 0 &&
+    Boolean(mailStatus?.configured && mailStatus.keyConfigured && apiKey);
+
+  return (
+    <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
+      <h2 className="text-lg font-semibold">Email delivery</h2>
+      <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+        Email every recipient their own certificate. Each certificate is rendered here and passed to
+        this site&apos;s mail server together with the address and message.
+      </p>
+
+      <div className="mt-4 space-y-3 text-sm">
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Email column</span>
+          <select
+            className={inputClass}
+            value={hasColumn ? String(settings.emailColumn) : NO_COLUMN}
+            disabled={!columnOptions.length}
+            onChange={(event) =>
+              update({
+                emailColumn: event.target.value === NO_COLUMN ? null : Number(event.target.value),
+              })
+            }
+          >
+            <option value={NO_COLUMN}>Choose a column</option>
+            {columnOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {hasColumn && recipientCount > 0 && (
+            <span className="text-xs text-slate-500">
+              {addressCount} of {recipientCount} recipients have a valid address.
+            </span>
+          )}
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Subject</span>
+          <input
+            className={inputClass}
+            value={settings.subject}
+            onChange={(event) => update({ subject: event.target.value })}
+          />
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Message</span>
+          <textarea
+            className={`${inputClass} min-h-28 font-mono text-xs`}
+            value={settings.body}
+            onChange={(event) => update({ body: event.target.value })}
+          />
+        </label>
+        {warnings.length > 0 && (
+          <ul className="space-y-1 text-xs text-amber-700 dark:text-amber-400">
+            {warnings.map((warning) => (
+              <li key={warning}>⚠️ {warning}</li>
+            ))}
+          </ul>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Mode</span>
+            <select
+              className={inputClass}
+              value={settings.mode}
+              onChange={(event) => update({ mode: event.target.value === "dry-run" ? "dry-run" : "send" })}
+            >
+              <option value="send">Send via SMTP</option>
+              <option value="dry-run">Dry run (.eml files)</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Emails per minute</span>
+            <input
+              className={inputClass}
+              type="number"
+              min={RATE_PER_MINUTE_MIN}
+              max={RATE_PER_MINUTE_MAX}
+              value={settings.ratePerMinute}
+              disabled={dryRun}
+              onChange={(event) =>
+                update({
+                  ratePerMinute: Math.min(
+                    RATE_PER_MINUTE_MAX,
+                    Math.max(RATE_PER_MINUTE_MIN, Math.round(Number(event.target.value) || 0))
+                  ),
+                })
+              }
+            />
+          </label>
+        </div>
+        {!dryRun && (
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">API key</span>
+            <input
+              className={inputClass}
+              type="password"
+              autoComplete="off"
+              value={apiKey}
+              placeholder="NUCLEUS_API_KEY of this site"
+              onChange={(event) => onApiKeyChange(event.target.value.trim())}
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        {dryRun ? (
+          <button type="button" className={buttonClass} disabled={!canStart || !hasColumn || mergedOutput} onClick={onDryRun}>
+            📦 Download ZIP with .eml files
+          </button>
+        ) : running ? (
+          <button type="button" className={buttonClass} onClick={onCancel}>
+            ✋ Stop sending
+          </button>
+        ) : (
+          <>
+            <button type="button" className={buttonClass} disabled={!canSend} onClick={onSend}>
+              ✉️ Send {addressCount} email{addressCount === 1 ? "" : "s"}
+            </button>
+            {failedCount > 0 && (
+              <button type="button" className={buttonClass} disabled={!canSend} onClick={onRetryFailed}>
+                🔁 Retry {failedCount} failed
+              </button>
+            )}
+          </>
+        )}
+        {report.length > 0 && (
+          <button type="button" className={buttonClass} disabled={running} onClick={onDownloadReport}>
+            📄 Report CSV
+          </button>
+        )}
+      </div>
+
+      {dryRun ? (
+        <p className="mt-3 text-xs text-slate-500">
+          {mergedOutput
+            ? "Dry runs need PNG or per-recipient PDF output."
+            : "Adds one .eml file per recipient to emails/ in the ZIP; nothing is sent."}
+        </p>
+      ) : mailStatus?.configured && mailStatus.keyConfigured ? (
+        <p className="mt-3 text-xs text-slate-500">
+          {apiKey ? (
+            <>
+              Sending as <span className="font-mono">{mailStatus.from}</span>.
+            </>
+          ) : (
+            "Enter this site's API key to send."
+          )}
+        </p>
+      ) : (
+        <p className="mt-3 text-xs text-amber-700 dark:text-amber-400">
+          {!mailStatus
+            ? "The mail API is not reachable from this page, or the API key is wrong. Use a dry run instead."
+            : mailStatus.configured
+              ? "This server sends no email until NUCLEUS_API_KEY is set. Use a dry run instead."
+              : "This server has no mail transport. Set NUCLEUS_SMTP_URL, or use a dry run."}
+        </p>
+      )}
+
+      {running && progress && (
+        <div className={`mt-3 h-2 w-full overflow-hidden rounded-full ${isDarkMode ? "bg-slate-800" : "bg-slate-200"}`}>
+          <div
+            className="h-full rounded-full bg-emerald-500 transition-all"
+            style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+          />
+        </div>
+      )}
+      {message && <p className="mt-2 text-xs text-slate-600 dark:text-slate-400">{message}</p>}
+
+      {report.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs font-medium">
+            {sentCount} sent · {failedCount} failed
+          </p>
+          <ul className={`mt-2 max-h-60 space-y-1 overflow-y-auto rounded-lg border p-2 text-xs ${isDarkMode ? "border-slate-800" : "border-slate-200"}`}>
+            {report.map((result) => (
+              <li key={result.index} className="flex items-start justify-between gap-3">
+                <span className="min-w-0">
+                  <span className="font-medium">{result.name}</span>{" "}
+                  <span className="text-slate-500">{result.email || "—"}</span>
+                  {result.error && (
+                    <span className="block text-rose-600 dark:text-rose-400">{result.error}</span>
+                  )}
+                </span>
+                <span className="shrink-0">
+                  {result.status === "sent" ? "✅ sent" : "❌ failed"}
+                  {result.attempts > 1 ? ` (run ${result.attempts})` : ""}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
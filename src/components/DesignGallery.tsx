@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import type { LibraryDesign } from "@/lib/design-library";
+import type { StarterDesign } from "@/lib/starters";
+
+type DesignGalleryProps = {
+  starters: StarterDesign[];
+  /** PNG data URLs by starter ID, filled in once the starters are shown. */
+  starterThumbnails: Record<string, string>;
+  designs: LibraryDesign[];
+  saving: boolean;
+  error: string | null;
+  isDarkMode: boolean;
+  onShowStarters: () => void;
+  onApplyStarter: (starter: StarterDesign) => void;
+  onSave: () => void;
+  onOpen: (design: LibraryDesign) => void;
+  onRename: (design: LibraryDesign, name: string) => void;
+  onDuplicate: (design: LibraryDesign) => void;
+  onDelete: (design: LibraryDesign) => void;
+};
+
+export function DesignGallery({
+  starters,
+  starterThumbnails,
+  designs,
+  saving,
+  error,
+  isDarkMode,
+  onShowStarters,
+  onApplyStarter,
+  onSave,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: DesignGalleryProps) {
+  const [showStarters, setShowStarters] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const inputClass = `w-full rounded-lg border px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const buttonClass = `rounded-lg border px-2.5 py-1 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-50 ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`;
+  const cardClass = `overflow-hidden rounded-lg border ${isDarkMode ? "border-slate-800 bg-slate-900" : "border-slate-200 bg-white"}`;
+
+  const thumbnail = (url: string | undefined, size: { width: number; height: number }) => (
+    <div
+      className={`w-full bg-cover bg-center ${url ? "" : "animate-pulse"} ${isDarkMode ? "bg-slate-800" : "bg-slate-100"}`}
+      style={{
+        aspectRatio: `${size.width} / ${size.height}`,
+        backgroundImage: url ? `url("${url}")` : undefined,
+      }}
+    />
+  );
+
+  const commitRename = (design: LibraryDesign) => {
+    const name = renaming?.name.trim();
+    setRenaming(null);
+    if (name && name !== design.project.name) onRename(design, name);
+  };
+
+  return (
+    <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
+      <h2 className="text-lg font-semibold">Designs</h2>
+      <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+        Start from a bundled design, or keep your own in this browser to reuse later.
+      </p>
+
+      <div className="mt-4 flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium">Starters</h3>
+        <button
+          type="button"
+          className={buttonClass}
+          onClick={() => {
+            if (!showStarters) onShowStarters();
+            setShowStarters(!showStarters);
+          }}
+        >
+          {showStarters ? "Hide" : "Browse"}
+        </button>
+      </div>
+      {showStarters && (
+        <ul className="mt-3 grid grid-cols-2 gap-3">
+          {starters.map((starter) => (
+            <li key={starter.id} className={cardClass}>
+              {thumbnail(starterThumbnails[starter.id], starter.createPage().templateSize)}
+              <div className="space-y-2 p-2">
+                <p className="text-sm font-medium">{starter.name}</p>
+                <p className="text-xs text-slate-500">{starter.description}</p>
+                <button
+                  type="button"
+                  className={buttonClass}
+                  onClick={() => onApplyStarter(starter)}
+                >
+                  Apply
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-5 flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium">My designs</h3>
+        <button type="button" className={buttonClass} disabled={saving} onClick={onSave}>
+          {saving ? "Saving…" : "⭐ Save current design"}
+        </button>
+      </div>
+      {designs.length ? (
+        <ul className="mt-3 space-y-2">
+          {designs.map((design) => (
+            <li key={design.id} className={`flex items-center gap-3 p-2 ${cardClass}`}>
+              <div className="w-20 shrink-0">
+                {thumbnail(design.thumbnail, design.project.templateSize)}
+              </div>
+              <div className="min-w-0 flex-1 space-y-1.5">
+                {renaming?.id === design.id ? (
+                  <input
+                    className={inputClass}
+                    aria-label="Design name"
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(event) => setRenaming({ id: design.id, name: event.target.value })}
+                    onBlur={() => commitRename(design)}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter") commitRename(design);
+                      if (event.key === "Escape") setRenaming(null);
+                    }}
+                  />
+                ) : (
+                  <p className="truncate text-sm font-medium" title={design.project.name}>
+                    {design.project.name}
+                  </p>
+                )}
+                <p className="text-xs text-slate-500">
+                  Saved {new Date(design.savedAt).toLocaleString()}
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  <button type="button" className={buttonClass} onClick={() => onOpen(design)}>
+                    Open
+                  </button>
+                  <button
+                    type="button"
+                    className={buttonClass}
+                    onClick={() => setRenaming({ id: design.id, name: design.project.name })}
+                  >
+                    Rename
+                  </button>
+                  <button type="button" className={buttonClass} onClick={() => onDuplicate(design)}>
+                    Duplicate
+                  </button>
+                  <button
+                    type="button"
+                    className="text-xs font-medium text-rose-600 dark:text-rose-400 transition hover:underline"
+                    onClick={() => onDelete(design)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-xs text-slate-500">
+          Saved designs keep every page, font, variant, and output setting.
+        </p>
+      )}
+
+      {error && <p className="mt-3 text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { diffRuns, type GenerationRun, type RunRecipient } from "@/lib/audit-log";
+import { OUTPUT_FORMAT_OPTIONS } from "@/lib/pdf";
+
+type HistoryPanelProps = {
+  /** Newest first. */
+  runs: GenerationRun[];
+  /** Revoked certificate IDs, mapped to when they were revoked. */
+  revocations: Map<string, string>;
+  /** The certificate an action is running for, as `runId:certificateId`. */
+  busy: string | null;
+  message: string | null;
+  error: string | null;
+  isDarkMode: boolean;
+  onRedownload: (run: GenerationRun, recipient: RunRecipient) => void;
+  onReissue: (run: GenerationRun, recipient: RunRecipient) => void;
+  onRevoke: (run: GenerationRun, recipient: RunRecipient, revoke: boolean) => void;
+  onExportRegistry: (format: "json" | "csv") => void;
+};
+
+/** Recipients listed at once for a run; the search narrows larger runs. */
+const MAX_LISTED = 100;
+/** Entries listed per section of a comparison. */
+const MAX_DIFF_ENTRIES = 20;
+
+const formatLabel = (run: GenerationRun) =>
+  run.kind === "email"
+    ? "Emailed"
+    : (OUTPUT_FORMAT_OPTIONS.find((option) => option.value === run.output.format)?.label ??
+      run.output.format);
+
+const runLabel = (run: GenerationRun) =>
+  `${new Date(run.issuedAt).toLocaleString()} · ${run.recipients.length} certificate${run.recipients.length === 1 ? "" : "s"}`;
+
+const moreNote = (count: number) =>
+  count > MAX_DIFF_ENTRIES ? (
+    <li className="text-slate-500">and {count - MAX_DIFF_ENTRIES} more</li>
+  ) : null;
+
+export function HistoryPanel({
+  runs,
+  revocations,
+  busy,
+  message,
+  error,
+  isDarkMode,
+  onRedownload,
+  onReissue,
+  onRevoke,
+  onExportRegistry,
+}: HistoryPanelProps) {
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [compare, setCompare] = useState<{ before: string; after: string } | null>(null);
+  const inputClass = `rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const buttonClass = `rounded-lg border px-2.5 py-1 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-50 ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`;
+  const rowClass = `border-t ${isDarkMode ? "border-slate-800" : "border-slate-200"}`;
+
+  // Compares the two newest runs until another pair is picked.
+  const pair = compare ?? (runs.length > 1 ? { before: runs[1].id, after: runs[0].id } : null);
+  const before = runs.find((run) => run.id === pair?.before);
+  const after = runs.find((run) => run.id === pair?.after);
+  const diff = useMemo(
+    () => (before && after && before !== after ? diffRuns(before, after) : null),
+    [before, after]
+  );
+
+  const openRun = runs.find((run) => run.id === openRunId) ?? null;
+  const query = search.trim().toLowerCase();
+  const matches = openRun
+    ? openRun.recipients.filter(
+        (recipient) =>
+          !query ||
+          recipient.name.toLowerCase().includes(query) ||
+          recipient.id.toLowerCase().includes(query)
+      )
+    : [];
+
+  const runSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <select
+      className={`${inputClass} min-w-0 flex-1`}
+      aria-label={label}
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+    >
+      {runs.map((run) => (
+        <option key={run.id} value={run.id}>
+          {runLabel(run)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">History</h2>
+          <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+            Every run is recorded in this browser with its design, sheet, and the values each
+            certificate was drawn with. Download or re-issue a single certificate, or revoke it.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            className={buttonClass}
+            disabled={!runs.length}
+            onClick={() => onExportRegistry("json")}
+          >
+            📄 Registry JSON
+          </button>
+          <button
+            type="button"
+            className={buttonClass}
+            disabled={!runs.length}
+            onClick={() => onExportRegistry("csv")}
+          >
+            📄 Registry CSV
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="mt-3 text-xs text-emerald-600 dark:text-emerald-400">{message}</p>}
+      {error && <p className="mt-3 text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+
+      {!runs.length ? (
+        <p className="mt-4 text-xs text-slate-500">
+          Nothing generated yet. Runs appear here once certificates are downloaded or emailed.
+        </p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs text-slate-500">
+              <tr>
+                <th className="py-2 pr-3 font-medium">Issued</th>
+                <th className="py-2 pr-3 font-medium">Output</th>
+                <th className="py-2 pr-3 font-medium">Source</th>
+                <th className="py-2 pr-3 font-medium">Certificates</th>
+                <th className="py-2 pr-3 font-medium">Design</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => {
+                const revoked = run.recipients.filter((recipient) =>
+                  revocations.has(recipient.id)
+                ).length;
+                return (
+                  <tr key={run.id} className={rowClass}>
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      {new Date(run.issuedAt).toLocaleString()}
+                    </td>
+                    <td className="py-2 pr-3">{formatLabel(run)}</td>
+                    <td className="max-w-48 truncate py-2 pr-3" title={run.source}>
+                      {run.source || "—"}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {run.recipients.length}
+                      {revoked > 0 && (
+                        <span className="ml-1 text-xs text-amber-700 dark:text-amber-400">
+                          ({revoked} revoked)
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 font-mono text-xs" title={run.designHash}>
+                      {run.designHash.slice(0, 10)}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        type="button"
+                        className={buttonClass}
+                        onClick={() => {
+                          setOpenRunId(openRunId === run.id ? null : run.id);
+                          setSearch("");
+                        }}
+                      >
+                        {openRunId === run.id ? "Close" : "Certificates"}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {openRun && (
+        <div
+          className={`mt-4 rounded-lg border p-3 ${isDarkMode ? "border-slate-800" : "border-slate-200"}`}
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-sm font-medium">
+              {openRun.event || "Certificates"} · {new Date(openRun.issuedAt).toLocaleString()}
+            </h3>
+            <input
+              className={inputClass}
+              placeholder="Search name or ID"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+            />
+          </div>
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3 font-medium">Row</th>
+                  <th className="py-2 pr-3 font-medium">Name</th>
+                  <th className="py-2 pr-3 font-medium">Certificate ID</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {matches.slice(0, MAX_LISTED).map((recipient) => {
+                  const revokedAt = revocations.get(recipient.id);
+                  const working = busy === `${openRun.id}:${recipient.id}`;
+                  return (
+                    <tr key={recipient.id} className={rowClass}>
+                      <td className="py-2 pr-3 text-slate-500">{recipient.row + 1}</td>
+                      <td className="py-2 pr-3">{recipient.name}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{recipient.id}</td>
+                      <td className="py-2 pr-3 text-xs">
+                        {revokedAt ? (
+                          <span className="text-amber-700 dark:text-amber-400">
+                            Revoked {new Date(revokedAt).toLocaleDateString()}
+                          </span>
+                        ) : (
+                          <span className="text-emerald-600 dark:text-emerald-400">Valid</span>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex flex-wrap justify-end gap-1.5">
+                          <button
+                            type="button"
+                            className={buttonClass}
+                            disabled={busy !== null}
+                            onClick={() => onRedownload(openRun, recipient)}
+                          >
+                            {working ? "Working…" : "Download"}
+                          </button>
+                          <button
+                            type="button"
+                            className={buttonClass}
+                            disabled={busy !== null || Boolean(revokedAt)}
+                            title={
+                              revokedAt ? "Restore the certificate to re-issue it." : undefined
+                            }
+                            onClick={() => onReissue(openRun, recipient)}
+                          >
+                            Re-issue
+                          </button>
+                          <button
+                            type="button"
+                            className={`text-xs font-medium transition hover:underline disabled:opacity-50 ${revokedAt ? "text-slate-500" : "text-rose-600 dark:text-rose-400"}`}
+                            disabled={busy !== null}
+                            onClick={() => onRevoke(openRun, recipient, !revokedAt)}
+                          >
+                            {revokedAt ? "Restore" : "Revoke"}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {matches.length > MAX_LISTED && (
+            <p className="mt-2 text-xs text-slate-500">
+              Showing {MAX_LISTED} of {matches.length}. Search to find the others.
+            </p>
+          )}
+          {!matches.length && (
+            <p className="mt-2 text-xs text-slate-500">No certificate matches.</p>
+          )}
+        </div>
+      )}
+
+      {pair && (
+        <div className="mt-5">
+          <h3 className="text-sm font-medium">Compare runs</h3>
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+            {runSelect(pair.before, (id) => setCompare({ ...pair, before: id }), "Earlier run")}
+            <span className="text-slate-500">→</span>
+            {runSelect(pair.after, (id) => setCompare({ ...pair, after: id }), "Later run")}
+          </div>
+          {!diff ? (
+            <p className="mt-2 text-xs text-slate-500">Pick two different runs.</p>
+          ) : (
+            <div className="mt-3 space-y-3 text-sm">
+              <p className="flex flex-wrap gap-x-3">
+                <span>{diff.designChanged ? "Design changed" : "Same design"}</span>
+                <span className="text-emerald-600 dark:text-emerald-400">
+                  {diff.added.length} added
+                </span>
+                <span className="text-rose-600 dark:text-rose-400">
+                  {diff.removed.length} removed
+                </span>
+                <span className="text-amber-700 dark:text-amber-400">
+                  {diff.changed.length} changed
+                </span>
+                <span>{diff.unchanged} unchanged</span>
+              </p>
+              {diff.changed.length > 0 && (
+                <ul className="space-y-1 text-xs">
+                  {diff.changed.slice(0, MAX_DIFF_ENTRIES).map(({ after: recipient, fields }) => (
+                    <li key={recipient.id}>
+                      <span className="font-medium">{recipient.name}</span>{" "}
+                      <span className="font-mono text-slate-500">{recipient.id}</span>:{" "}
+                      {fields
+                        .map((field) => `${field.column} "${field.before}" → "${field.after}"`)
+                        .join(", ")}
+                    </li>
+                  ))}
+                  {moreNote(diff.changed.length)}
+                </ul>
+              )}
+              {[
+                { label: "Added", entries: diff.added },
+                { label: "Removed", entries: diff.removed },
+              ].map(
+                ({ label, entries }) =>
+                  entries.length > 0 && (
+                    <div key={label}>
+                      <p className="text-xs font-medium">{label}</p>
+                      <ul className="mt-1 space-y-0.5 text-xs">
+                        {entries.slice(0, MAX_DIFF_ENTRIES).map((recipient) => (
+                          <li key={recipient.id}>
+                            {recipient.name}{" "}
+                            <span className="font-mono text-slate-500">{recipient.id}</span>
+                          </li>
+                        ))}
+                        {moreNote(entries.length)}
+                      </ul>
+                    </div>
+                  )
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import { IMAGE_FILE_ACCEPT } from "@/lib/images";
+import { IMAGE_FIT_OPTIONS, type ImageFit, type ImageLayer } from "@/lib/layers";
+import type { ColumnOption } from "@/lib/sheet";
+
+type ImageLayerControlsProps = {
+  layer: ImageLayer;
+  columnOptions: ColumnOption[];
+  templateSize: { width: number; height: number };
+  /** Photos in the dropped folder or ZIP. */
+  photoCount: number;
+  imageError: string | null;
+  isDarkMode: boolean;
+  onChange: (patch: Partial<ImageLayer>) => void;
+  onImageFile: (file: File) => void;
+  onPhotoFiles: (files: File[]) => void;
+  onClearPhotos: () => void;
+};
+
+const STATIC_IMAGE = "static";
+
+const readEntry = (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) =>
+      (entry as FileSystemFileEntry).file((file) => resolve([file]), reject)
+    );
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns at most 100 entries per call, so read until it comes back empty.
+  const readBatch = (): Promise<File[]> =>
+    new Promise((resolve, reject) =>
+      reader.readEntries(async (entries) => {
+        if (!entries.length) return resolve([]);
+        const files = await Promise.all(entries.map(readEntry)).catch(reject);
+        if (files) resolve([...files.flat(), ...(await readBatch())]);
+      }, reject)
+    );
+  return readBatch();
+};
+
+/** Files from a drop, with dropped folders read recursively. */
+const readDroppedFiles = async (data: DataTransfer) => {
+  const entries = [...data.items]
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (!entries.length) return [...data.files];
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+export function ImageLayerControls({
+  layer,
+  columnOptions,
+  templateSize,
+  photoCount,
+  imageError,
+  isDarkMode,
+  onChange,
+  onImageFile,
+  onPhotoFiles,
+  onClearPhotos,
+}: ImageLayerControlsProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputClass = `w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const source = layer.source;
+  const boundColumn = source?.kind === "column" ? source.column : null;
+
+  const changeSource = (value: string) =>
+    onChange({
+      source: value === STATIC_IMAGE ? null : { kind: "column", column: Number(value) },
+    });
+  const changeBox = (dimension: "width" | "height", pixels: number) =>
+    onChange({
+      box: { ...layer.box, [dimension]: Math.min(1, Math.max(0.01, pixels / templateSize[dimension])) },
+    });
+
+  return (
+    <div className="mt-4 space-y-4 text-sm">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Image</span>
+          <select
+            className={inputClass}
+            value={boundColumn === null ? STATIC_IMAGE : String(boundColumn)}
+            onChange={(event) => changeSource(event.target.value)}
+          >
+            <option value={STATIC_IMAGE}>Same image for everyone</option>
+            {boundColumn !== null && !columnOptions.some((option) => option.value === boundColumn) && (
+              <option value={boundColumn}>Photo named in column {boundColumn + 1}</option>
+            )}
+            {columnOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                Photo named in {option.label} (Column {option.value + 1})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Fit</span>
+          <select
+            className={inputClass}
+            value={layer.fit}
+            onChange={(event) => onChange({ fit: event.target.value as ImageFit })}
+          >
+            {IMAGE_FIT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {boundColumn === null ? (
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <label className="cursor-pointer font-medium text-emerald-600 dark:text-emerald-400 transition hover:underline">
+            {source?.kind === "static" ? "🖼️ Replace image" : "🖼️ Upload logo or signature"}
+            <input
+              className="hidden"
+              type="file"
+              accept={IMAGE_FILE_ACCEPT}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) onImageFile(file);
+              }}
+            />
+          </label>
+          {source?.kind === "static" && <span className="text-slate-500">{source.fileName}</span>}
+        </div>
+      ) : (
+        <label
+          className={`flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed px-4 py-6 text-center text-xs transition ${isDragging ? "border-emerald-500 bg-emerald-500/10" : isDarkMode ? "border-slate-700 hover:border-emerald-400" : "border-slate-300 hover:border-emerald-400"}`}
+          onDragOver={(event) => {
+            event.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={async (event) => {
+            event.preventDefault();
+            setIsDragging(false);
+            onPhotoFiles(await readDroppedFiles(event.dataTransfer));
+          }}
+        >
+          <span className="font-medium">Drop a folder or ZIP of photos here</span>
+          <span className="mt-1 text-slate-500">
+            or click to choose files. Each row&apos;s cell names its file, e.g. <code>S1024.jpg</code>; the
+            extension may be left out. Photos stay on this computer and are not saved with the project.
+          </span>
+          <input
+            className="hidden"
+            type="file"
+            multiple
+            accept={`${IMAGE_FILE_ACCEPT},.zip,application/zip`}
+            onChange={(event) => {
+              const files = [...(event.target.files ?? [])];
+              event.target.value = "";
+              if (files.length) onPhotoFiles(files);
+            }}
+          />
+        </label>
+      )}
+      {boundColumn !== null && photoCount > 0 && (
+        <p className="flex items-center gap-3 text-xs text-slate-500">
+          {photoCount} {photoCount === 1 ? "photo" : "photos"} loaded
+          <button
+            type="button"
+            className="font-medium text-rose-600 dark:text-rose-400 transition hover:underline"
+            onClick={onClearPhotos}
+          >
+            Clear photos
+          </button>
+        </p>
+      )}
+      {imageError && <p className="text-xs text-rose-600 dark:text-rose-400">{imageError}</p>}
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Box size (px)</span>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={1}
+              className={inputClass}
+              value={Math.round(layer.box.width * templateSize.width)}
+              onChange={(event) => changeBox("width", Number(event.target.value))}
+            />
+            <span className="text-xs text-slate-500">×</span>
+            <input
+              type="number"
+              min={1}
+              className={inputClass}
+              value={Math.round(layer.box.height * templateSize.height)}
+              onChange={(event) => changeBox("height", Number(event.target.value))}
+            />
+          </div>
+        </label>
+        <label className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Rotation</span>
+            <span className="text-xs text-slate-500">{layer.rotation}°</span>
+          </div>
+          <input
+            type="range"
+            min={-180}
+            max={180}
+            value={layer.rotation}
+            onChange={(event) => onChange({ rotation: Number(event.target.value) })}
+          />
+        </label>
+        <label className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Opacity</span>
+            <span className="text-xs text-slate-500">{Math.round(layer.opacity * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(layer.opacity * 100)}
+            onChange={(event) => onChange({ opacity: Number(event.target.value) / 100 })}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
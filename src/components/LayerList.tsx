@@ -0,0 +1,194 @@
+"use client";
+
+import { CERTIFICATE_ID_FIELD } from "@/lib/certificate-id";
+import type { Layer, LayerSource, TextLayer } from "@/lib/layers";
+import type { ColumnOption } from "@/lib/sheet";
+import { FORMAT_OPTIONS } from "@/lib/template";
+
+type LayerListProps = {
+  layers: Layer[];
+  activeLayerId: string;
+  columnOptions: ColumnOption[];
+  isDarkMode: boolean;
+  onSelect: (id: string) => void;
+  onChange: (id: string, patch: Partial<TextLayer>) => void;
+  onAdd: () => void;
+  onAddQr: () => void;
+  onAddImage: () => void;
+  onRemove: (id: string) => void;
+};
+
+const STATIC_TEXT = "text";
+
+export function LayerList({
+  layers,
+  activeLayerId,
+  columnOptions,
+  isDarkMode,
+  onSelect,
+  onChange,
+  onAdd,
+  onAddQr,
+  onAddImage,
+  onRemove,
+}: LayerListProps) {
+  const inputClass = `rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const activeLayer = layers.find((layer) => layer.id === activeLayerId);
+  const activeText = activeLayer?.kind === "text" ? activeLayer : null;
+  const columnSource = activeText?.source.kind === "column" ? activeText.source : null;
+  const boundColumn = columnSource ? columnSource.column : null;
+
+  const changeSource = (layer: TextLayer, value: string) => {
+    const source: LayerSource =
+      value === STATIC_TEXT
+        ? { kind: "text", text: layer.source.kind === "text" ? layer.source.text : layer.label }
+        : {
+            kind: "column",
+            column: Number(value),
+            format: layer.source.kind === "column" ? layer.source.format : undefined,
+          };
+    onChange(layer.id, { source });
+  };
+
+  return (
+    <div className={`mt-4 rounded-lg border border-dashed p-4 text-sm ${isDarkMode ? "border-slate-700 bg-slate-900/30" : "border-slate-300 bg-white"}`}>
+      <div className="flex items-center justify-between">
+        <p className="font-medium">Layers</p>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            className="text-xs font-medium text-emerald-600 dark:text-emerald-400 transition hover:underline"
+            onClick={onAdd}
+          >
+            + Add text
+          </button>
+          <button
+            type="button"
+            className="text-xs font-medium text-emerald-600 dark:text-emerald-400 transition hover:underline"
+            onClick={onAddQr}
+          >
+            + QR code
+          </button>
+          <button
+            type="button"
+            className="text-xs font-medium text-emerald-600 dark:text-emerald-400 transition hover:underline"
+            onClick={onAddImage}
+          >
+            + Image
+          </button>
+        </div>
+      </div>
+
+      <ul className="mt-3 flex flex-wrap gap-2">
+        {layers.map((layer) => (
+          <li key={layer.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(layer.id)}
+              className={`rounded-lg border px-3 py-1.5 text-xs font-medium transition ${
+                layer.id === activeLayerId
+                  ? "border-emerald-500 bg-emerald-500 text-white"
+                  : isDarkMode
+                    ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700"
+                    : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"
+              }`}
+            >
+              {layer.kind === "qr" && "▦ "}
+              {layer.kind === "image" && "🖼️ "}
+              {layer.label || "Untitled"}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {activeLayer && (
+        <div className="mt-4 grid gap-3 sm:grid-cols-2">
+          <label className="flex flex-col gap-2">
+            <span className="text-xs font-medium text-slate-500">Layer name</span>
+            <input
+              className={inputClass}
+              value={activeLayer.label}
+              onChange={(event) => onChange(activeLayer.id, { label: event.target.value })}
+            />
+          </label>
+          {activeLayer.kind === "qr" && (
+            <p className="self-end text-xs text-slate-500">
+              Encodes the verification link for each recipient&apos;s certificate ID.
+            </p>
+          )}
+          {activeText && (
+            <label className="flex flex-col gap-2">
+              <span className="text-xs font-medium text-slate-500">Content</span>
+              <select
+                className={inputClass}
+                value={boundColumn === null ? STATIC_TEXT : String(boundColumn)}
+                onChange={(event) => changeSource(activeText, event.target.value)}
+              >
+                <option value={STATIC_TEXT}>Static text</option>
+                {boundColumn !== null &&
+                  !columnOptions.some((option) => option.value === boundColumn) && (
+                    <option value={boundColumn}>Column {boundColumn + 1}</option>
+                  )}
+                {columnOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label} (Column {option.value + 1})
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {activeText?.source.kind === "text" && (
+            <label className="flex flex-col gap-2 sm:col-span-2">
+              <span className="text-xs font-medium text-slate-500">Text</span>
+              <input
+                className={inputClass}
+                value={activeText.source.text}
+                placeholder="This certifies that {{Name}} completed {{Course}}"
+                onChange={(event) =>
+                  onChange(activeLayer.id, { source: { kind: "text", text: event.target.value } })
+                }
+              />
+              <span className="text-xs text-slate-500">
+                Insert columns with {"{{Column}}"}; add <code>|upper</code>, <code>|title</code>, or{" "}
+                <code>|date:DD MMM YYYY</code> to format them.
+                {` Available: ${[...columnOptions.map((option) => option.label), CERTIFICATE_ID_FIELD]
+                  .map((label) => `{{${label}}}`)
+                  .join(", ")}`}
+              </span>
+            </label>
+          )}
+          {columnSource && (
+            <label className="flex flex-col gap-2 sm:col-span-2">
+              <span className="text-xs font-medium text-slate-500">Format</span>
+              <select
+                className={inputClass}
+                value={columnSource.format ?? ""}
+                onChange={(event) =>
+                  onChange(activeLayer.id, {
+                    source: { ...columnSource, format: event.target.value || undefined },
+                  })
+                }
+              >
+                {FORMAT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="sm:col-span-2">
+            <button
+              type="button"
+              className="text-xs font-medium text-rose-600 dark:text-rose-400 transition hover:underline disabled:cursor-not-allowed disabled:opacity-50 disabled:no-underline"
+              disabled={layers.length <= 1}
+              onClick={() => onRemove(activeLayer.id)}
+            >
+              Remove layer
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import {
+  PRINT_DPI_OPTIONS,
+  PRINT_MM_LIMITS,
+  SHEET_SIZE_OPTIONS,
+  certificatesPerSheet,
+  clampPrintMm,
+  describePrintFit,
+  printLayout,
+  type DuplexFlip,
+  type PrintOptions,
+  type SheetSize,
+} from "@/lib/imposition";
+import { FILE_MANIFEST_NAME, type FileNaming } from "@/lib/naming";
+import {
+  DPI_OPTIONS,
+  OUTPUT_FORMAT_OPTIONS,
+  PAPER_SIZE_OPTIONS,
+  isMergedFormat,
+  type Orientation,
+  type OutputFormat,
+  type PaperSize,
+  type PdfOptions,
+} from "@/lib/pdf";
+
+type OutputSettingsProps = {
+  format: OutputFormat;
+  pdfOptions: PdfOptions;
+  printOptions: PrintOptions;
+  /** Size of the first page, which sets the proportions of printed certificates. */
+  templateSize: { width: number; height: number };
+  pageCount: number;
+  files: FileNaming;
+  /** Where the first recipient's file would go; null while no sheet is loaded. */
+  examplePath: string | null;
+  fileIssues: string[];
+  isDarkMode: boolean;
+  onFormatChange: (format: OutputFormat) => void;
+  onPdfOptionsChange: (options: PdfOptions) => void;
+  onPrintOptionsChange: (options: PrintOptions) => void;
+  onFilesChange: (files: FileNaming) => void;
+};
+
+export function OutputSettings({
+  format,
+  pdfOptions,
+  printOptions,
+  templateSize,
+  pageCount,
+  files,
+  examplePath,
+  fileIssues,
+  isDarkMode,
+  onFormatChange,
+  onPdfOptionsChange,
+  onPrintOptionsChange,
+  onFilesChange,
+}: OutputSettingsProps) {
+  const inputClass = `w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const update = (patch: Partial<PdfOptions>) => onPdfOptionsChange({ ...pdfOptions, ...patch });
+  const updateFiles = (patch: Partial<FileNaming>) => onFilesChange({ ...files, ...patch });
+  const updatePrint = (patch: Partial<PrintOptions>) =>
+    onPrintOptionsChange({ ...printOptions, ...patch });
+  const millimetres = (field: keyof typeof PRINT_MM_LIMITS, value: number) => {
+    if (!Number.isNaN(value)) updatePrint({ [field]: clampPrintMm(field, value) });
+  };
+  const merged = isMergedFormat(format);
+  const layout = format === "pdf-print" ? printLayout(templateSize, printOptions) : null;
+
+  return (
+    <div className="mt-4 space-y-3 text-sm">
+      <label className="flex flex-col gap-2">
+        <span className="font-medium">Output format</span>
+        <select
+          className={inputClass}
+          value={format}
+          onChange={(event) => onFormatChange(event.target.value as OutputFormat)}
+        >
+          {OUTPUT_FORMAT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {(format === "pdf" || format === "pdf-merged") && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Page size</span>
+            <select
+              className={inputClass}
+              value={pdfOptions.paperSize}
+              onChange={(event) => update({ paperSize: event.target.value as PaperSize })}
+            >
+              {PAPER_SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Orientation</span>
+            <select
+              className={inputClass}
+              value={pdfOptions.orientation}
+              disabled={pdfOptions.paperSize === "template"}
+              onChange={(event) => update({ orientation: event.target.value as Orientation })}
+            >
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+            </select>
+          </label>
+          <label className="col-span-2 flex flex-col gap-2">
+            <span className="font-medium">Resolution</span>
+            <select
+              className={inputClass}
+              value={pdfOptions.dpi}
+              onChange={(event) => update({ dpi: Number(event.target.value) })}
+            >
+              {DPI_OPTIONS.map((dpi) => (
+                <option key={dpi} value={dpi}>
+                  {dpi} DPI{dpi === 300 ? " (print)" : ""}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {layout && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Sheet size</span>
+            <select
+              className={inputClass}
+              value={printOptions.sheetSize}
+              onChange={(event) => updatePrint({ sheetSize: event.target.value as SheetSize })}
+            >
+              {SHEET_SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Sheet orientation</span>
+            <select
+              className={inputClass}
+              value={printOptions.orientation}
+              onChange={(event) => updatePrint({ orientation: event.target.value as Orientation })}
+            >
+              <option value="portrait">Portrait</option>
+              <option value="landscape">Landscape</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Certificate width (mm)</span>
+            <input
+              type="number"
+              min={PRINT_MM_LIMITS.trimWidth.min}
+              max={PRINT_MM_LIMITS.trimWidth.max}
+              className={inputClass}
+              value={printOptions.trimWidth}
+              onChange={(event) => millimetres("trimWidth", event.target.valueAsNumber)}
+            />
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Resolution</span>
+            <select
+              className={inputClass}
+              value={printOptions.dpi}
+              onChange={(event) => updatePrint({ dpi: Number(event.target.value) })}
+            >
+              {PRINT_DPI_OPTIONS.map((dpi) => (
+                <option key={dpi} value={dpi}>
+                  {dpi} DPI
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Bleed (mm)</span>
+            <input
+              type="number"
+              min={PRINT_MM_LIMITS.bleed.min}
+              max={PRINT_MM_LIMITS.bleed.max}
+              step={0.5}
+              className={inputClass}
+              value={printOptions.bleed}
+              onChange={(event) => millimetres("bleed", event.target.valueAsNumber)}
+            />
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Gap between (mm)</span>
+            <input
+              type="number"
+              min={PRINT_MM_LIMITS.gutter.min}
+              max={PRINT_MM_LIMITS.gutter.max}
+              step={0.5}
+              className={inputClass}
+              value={printOptions.gutter}
+              onChange={(event) => millimetres("gutter", event.target.valueAsNumber)}
+            />
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className="font-medium">Double-sided</span>
+            <select
+              className={inputClass}
+              value={printOptions.duplex ?? ""}
+              disabled={pageCount < 2}
+              onChange={(event) =>
+                updatePrint({ duplex: (event.target.value || null) as DuplexFlip | null })
+              }
+            >
+              <option value="">No, one page per sheet side</option>
+              <option value="long-edge">Flip on long edge</option>
+              <option value="short-edge">Flip on short edge</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 self-end pb-2">
+            <input
+              type="checkbox"
+              checked={printOptions.cropMarks}
+              onChange={(event) => updatePrint({ cropMarks: event.target.checked })}
+            />
+            Crop marks
+          </label>
+          <p
+            className={`col-span-2 text-xs ${certificatesPerSheet(layout) ? "text-slate-500" : "text-rose-600 dark:text-rose-400"}`}
+          >
+            {describePrintFit(printOptions, layout)} The template is enlarged slightly to fill the
+            bleed, so keep text a few millimetres inside the edges.
+            {pageCount > 1 &&
+              printOptions.duplex &&
+              " Backs are mirrored to line up with their fronts; set the printer to the same flip."}
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {!merged && (
+          <>
+            <label className="flex flex-col gap-2">
+              <span className="font-medium">File name</span>
+              <input
+                className={`${inputClass} font-mono text-xs`}
+                placeholder="Recipient name"
+                value={files.pattern}
+                onChange={(event) => updateFiles({ pattern: event.target.value })}
+              />
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className="font-medium">Folders</span>
+              <input
+                className={`${inputClass} font-mono text-xs`}
+                placeholder="None, e.g. {{Department}}"
+                value={files.folder}
+                onChange={(event) => updateFiles({ folder: event.target.value })}
+              />
+            </label>
+          </>
+        )}
+        <label className="col-span-2 flex flex-col gap-2">
+          <span className="font-medium">{merged ? "PDF name" : "ZIP name"}</span>
+          <input
+            className={inputClass}
+            placeholder="certificates"
+            value={files.bundleName}
+            onChange={(event) => updateFiles({ bundleName: event.target.value })}
+          />
+        </label>
+      </div>
+      {!merged && (
+        <>
+          <p className="text-xs text-slate-500">
+            Use placeholders like <span className="font-mono">{"{{RollNo}}-{{Name}}"}</span>; repeated names get -2, -3, ….
+            {examplePath && (
+              <>
+                {" "}First file: <span className="font-mono">{examplePath}</span>
+              </>
+            )}
+          </p>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={files.manifest}
+              onChange={(event) => updateFiles({ manifest: event.target.checked })}
+            />
+            Include {FILE_MANIFEST_NAME} listing each row&apos;s file
+          </label>
+        </>
+      )}
+      {!merged &&
+        fileIssues.map((issue) => (
+          <p key={issue} className="text-xs text-rose-600 dark:text-rose-400">
+            {issue}
+          </p>
+        ))}
+    </div>
+  );
+}
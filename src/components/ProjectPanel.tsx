@@ -0,0 +1,68 @@
+"use client";
+
+import { PROJECT_FILE_EXTENSION } from "@/lib/project";
+
+type ProjectPanelProps = {
+  projectName: string;
+  autosavedAt: Date | null;
+  error: string | null;
+  isDarkMode: boolean;
+  onNameChange: (name: string) => void;
+  onExport: () => void;
+  onImport: (file: File | null) => void;
+};
+
+export function ProjectPanel({
+  projectName,
+  autosavedAt,
+  error,
+  isDarkMode,
+  onNameChange,
+  onExport,
+  onImport,
+}: ProjectPanelProps) {
+  const buttonClass = `rounded-lg border px-3 py-1.5 text-xs font-medium transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`;
+
+  return (
+    <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
+      <h2 className="text-lg font-semibold">Project</h2>
+      <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+        Save the layout, fonts, template, and column bindings to reuse at the next event.
+      </p>
+
+      <label className="mt-4 flex flex-col gap-2 text-sm">
+        <span className="font-medium">Project name</span>
+        <input
+          className={`rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
+          value={projectName}
+          onChange={(event) => onNameChange(event.target.value)}
+        />
+      </label>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <button type="button" className={buttonClass} onClick={onExport}>
+          💾 Save project
+        </button>
+        <label className={`cursor-pointer ${buttonClass}`}>
+          📂 Open project
+          <input
+            className="hidden"
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+            onChange={(event) => {
+              onImport(event.target.files?.[0] ?? null);
+              event.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      <p className="mt-3 text-xs text-slate-500">
+        {autosavedAt
+          ? `Autosaved in this browser at ${autosavedAt.toLocaleTimeString()}.`
+          : "Changes are autosaved in this browser."}
+      </p>
+      {error && <p className="mt-2 text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { checkSignedFile, type SignatureReport } from "@/lib/signature-check";
+
+type SignatureVerifierProps = {
+  /** Public key from the link the issuer shared, if any. */
+  initialKey: string;
+};
+
+type CheckState =
+  | { status: "idle" }
+  | { status: "checking"; fileName: string }
+  | { status: "done"; fileName: string; report: SignatureReport }
+  | { status: "error"; fileName: string; message: string };
+
+const STATUS_LABELS = { ok: "✅ unchanged", modified: "❌ modified", missing: "❌ missing" };
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString("en-GB", {
+        day: "numeric",
+        month: "long",
+        year: "numeric",
+        timeZone: "UTC",
+      });
+};
+
+export function SignatureVerifier({ initialKey }: SignatureVerifierProps) {
+  const [publicKey, setPublicKey] = useState(initialKey);
+  const [isDragging, setIsDragging] = useState(false);
+  const [check, setCheck] = useState<CheckState>({ status: "idle" });
+
+  const checkFile = async (file: File | null | undefined) => {
+    if (!file) return;
+    if (!publicKey.trim()) {
+      setCheck({ status: "error", fileName: file.name, message: "Paste the issuer's public key first." });
+      return;
+    }
+    setCheck({ status: "checking", fileName: file.name });
+    try {
+      const report = await checkSignedFile(new Uint8Array(await file.arrayBuffer()), publicKey);
+      setCheck({ status: "done", fileName: file.name, report });
+    } catch (error) {
+      setCheck({
+        status: "error",
+        fileName: file.name,
+        message: error instanceof Error ? error.message : "Unable to check this file.",
+      });
+    }
+  };
+
+  const archive = check.status === "done" && check.report.kind === "archive" ? check.report : null;
+  const archiveIntact =
+    archive !== null &&
+    archive.valid &&
+    archive.sameKey &&
+    archive.files.every((file) => file.status === "ok");
+
+  return (
+    <div className="space-y-6">
+      <label className="flex flex-col gap-2 text-sm">
+        <span className="font-medium">Issuer public key</span>
+        <input
+          className="rounded-lg border border-slate-300 bg-white px-3 py-2 font-mono text-xs outline-none focus:ring-2 focus:ring-emerald-500"
+          value={publicKey}
+          placeholder="Paste the key the issuer published"
+          onChange={(event) => setPublicKey(event.target.value.trim())}
+        />
+      </label>
+
+      <label
+        className={`flex cursor-pointer flex-col items-center justify-center rounded-xl border-2 border-dashed px-6 py-10 text-center text-sm transition ${isDragging ? "border-emerald-500 bg-emerald-50" : "border-slate-300 bg-slate-50 hover:border-emerald-400"}`}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setIsDragging(false);
+          checkFile(event.dataTransfer.files[0]);
+        }}
+      >
+        <span className="font-medium">Drop a certificate PNG, PDF, or ZIP here</span>
+        <span className="mt-1 text-xs text-slate-500">
+          or click to choose a file. Nothing is uploaded.
+        </span>
+        <input
+          className="hidden"
+          type="file"
+          accept=".png,.pdf,.zip,image/png,application/pdf,application/zip"
+          onChange={(event) => {
+            checkFile(event.target.files?.[0]);
+            event.target.value = "";
+          }}
+        />
+      </label>
+
+      {check.status === "checking" && (
+        <p className="text-sm text-slate-500">Checking {check.fileName}…</p>
+      )}
+
+      {check.status === "error" && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-6 shadow-lg">
+          <h2 className="text-lg font-bold text-rose-700">❌ Could not verify {check.fileName}</h2>
+          <p className="mt-2 text-sm text-slate-600">{check.message}</p>
+        </div>
+      )}
+
+      {check.status === "done" && check.report.kind === "certificate" &&
+        check.report.checks.map(({ valid, claims }, index) => (
+          <div
+            key={`${claims.id}-${index}`}
+            className={`rounded-xl border p-6 shadow-lg ${valid ? "border-emerald-200 bg-emerald-50" : "border-rose-200 bg-rose-50"}`}
+          >
+            <h2 className={`text-lg font-bold ${valid ? "text-emerald-700" : "text-rose-700"}`}>
+              {valid ? "✅ Signature valid" : "❌ Signature does not match this key"}
+            </h2>
+            {!valid && (
+              <p className="mt-2 text-sm text-slate-600">
+                The details below were altered or signed by someone else. Do not trust them.
+              </p>
+            )}
+            <dl className="mt-4 grid grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm">
+              <dt className="text-slate-500">Issued to</dt>
+              <dd className="font-semibold">{claims.name}</dd>
+              <dt className="text-slate-500">Event</dt>
+              <dd className="font-medium">{claims.event || "—"}</dd>
+              <dt className="text-slate-500">Issued on</dt>
+              <dd className="font-medium">{formatDate(claims.issuedAt)}</dd>
+              <dt className="text-slate-500">Certificate ID</dt>
+              <dd className="font-mono">
+                <a className="underline" href={`/verify/${encodeURIComponent(claims.id)}`}>
+                  {claims.id}
+                </a>
+              </dd>
+              {Object.entries(claims.fields ?? {}).map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-slate-500">{label}</dt>
+                  <dd>{value || "—"}</dd>
+                </div>
+              ))}
+              <dt className="text-slate-500">Design</dt>
+              <dd className="truncate font-mono text-xs">{claims.design}</dd>
+            </dl>
+          </div>
+        ))}
+
+      {archive && (
+        <div className={`rounded-xl border p-6 shadow-lg ${archiveIntact ? "border-emerald-200 bg-emerald-50" : "border-rose-200 bg-rose-50"}`}>
+          <h2 className={`text-lg font-bold ${archiveIntact ? "text-emerald-700" : "text-rose-700"}`}>
+            {archiveIntact ? "✅ Archive intact" : "❌ Archive failed verification"}
+          </h2>
+          <ul className="mt-2 space-y-1 text-sm text-slate-600">
+            <li>
+              {archive.valid
+                ? "Manifest signature is valid."
+                : "Manifest signature does not match this key."}
+            </li>
+            {!archive.sameKey && <li>The manifest was signed with a different public key.</li>}
+            {archive.unlisted.length > 0 && (
+              <li>Not covered by the signature: {archive.unlisted.join(", ")}</li>
+            )}
+          </ul>
+          <ul className="mt-4 max-h-80 space-y-1 overflow-y-auto text-sm">
+            {archive.files.map((file) => (
+              <li key={file.path} className="flex justify-between gap-4">
+                <span className="truncate font-mono text-xs">{file.path}</span>
+                <span className="shrink-0">{STATUS_LABELS[file.status]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
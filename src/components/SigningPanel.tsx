@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { keyFingerprint, type SigningKey } from "@/lib/signing";
+
+type SigningPanelProps = {
+  signingKey: SigningKey | null;
+  enabled: boolean;
+  error: string | null;
+  isDarkMode: boolean;
+  onToggle: (enabled: boolean) => void;
+  onCreate: () => void;
+  onImport: (file: File | null) => void;
+  onExport: () => void;
+  onRemove: () => void;
+};
+
+export function SigningPanel({
+  signingKey,
+  enabled,
+  error,
+  isDarkMode,
+  onToggle,
+  onCreate,
+  onImport,
+  onExport,
+  onRemove,
+}: SigningPanelProps) {
+  // Both are keyed by public key so a swapped key never shows stale values.
+  const [fingerprint, setFingerprint] = useState<{ key: string; value: string } | null>(null);
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  const buttonClass = `rounded-lg border px-3 py-1.5 text-xs font-medium transition ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`;
+  const publicKey = signingKey?.publicKey ?? null;
+
+  useEffect(() => {
+    if (!publicKey) return;
+    let cancelled = false;
+    keyFingerprint(publicKey)
+      .then((value) => {
+        if (!cancelled) setFingerprint({ key: publicKey, value });
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [publicKey]);
+
+  const copyPublicKey = () => {
+    if (!publicKey) return;
+    navigator.clipboard
+      .writeText(publicKey)
+      .then(() => setCopiedKey(publicKey))
+      .catch(() => setCopiedKey(null));
+  };
+
+  return (
+    <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
+      <h2 className="text-lg font-semibold">Signing</h2>
+      <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+        Sign each certificate with your Ed25519 key so anyone holding the public key can tell whether
+        a file was altered. The private key stays in this browser.
+      </p>
+
+      {signingKey ? (
+        <div className="mt-4 space-y-3 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(event) => onToggle(event.target.checked)}
+            />
+            <span>Sign generated certificates</span>
+          </label>
+          <div>
+            <p className="font-medium">Public key</p>
+            <p className={`mt-1 break-all rounded-lg border px-3 py-2 font-mono text-xs ${isDarkMode ? "border-slate-700 bg-slate-800" : "border-slate-300 bg-white"}`}>
+              {signingKey.publicKey}
+            </p>
+            {fingerprint?.key === publicKey && (
+              <p className="mt-1 text-xs text-slate-500">
+                Fingerprint <span className="font-mono">{fingerprint.value}</span>
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button type="button" className={buttonClass} onClick={copyPublicKey}>
+              {copiedKey === publicKey ? "✓ Copied" : "📋 Copy public key"}
+            </button>
+            <a
+              className={buttonClass}
+              href={`/verify?key=${encodeURIComponent(signingKey.publicKey)}`}
+              target="_blank"
+              rel="noreferrer"
+            >
+              🔍 Verification tool
+            </a>
+            <button type="button" className={buttonClass} onClick={onExport}>
+              💾 Back up key
+            </button>
+            <button type="button" className={buttonClass} onClick={onRemove}>
+              🗑 Remove
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <button type="button" className={buttonClass} onClick={onCreate}>
+            🔑 Generate key pair
+          </button>
+          <label className={`cursor-pointer ${buttonClass}`}>
+            📂 Import key
+            <input
+              className="hidden"
+              type="file"
+              accept=".json,application/json"
+              onChange={(event) => {
+                onImport(event.target.files?.[0] ?? null);
+                event.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useState } from "react";
+import { IMAGE_FILE_ACCEPT } from "@/lib/images";
+import {
+  FONT_WEIGHT_OPTIONS,
+  TEXT_TRANSFORM_OPTIONS,
+  type TextLayer,
+  type TextTransform,
+} from "@/lib/layers";
+
+type TextStyleControlsProps = {
+  layer: TextLayer;
+  imageError: string | null;
+  isDarkMode: boolean;
+  onChange: (patch: Partial<TextLayer>) => void;
+  onPatternFile: (file: File) => void;
+};
+
+type FillKind = "color" | "gradient" | "pattern";
+
+const DEFAULT_OUTLINE = { color: "#ffffff", width: 3 };
+const DEFAULT_SHADOW = { color: "#000000", blur: 8, offsetX: 0, offsetY: 4 };
+
+export function TextStyleControls({
+  layer,
+  imageError,
+  isDarkMode,
+  onChange,
+  onPatternFile,
+}: TextStyleControlsProps) {
+  // Picking "Pattern" shows the upload before there is an image to fill with.
+  const [choosingPattern, setChoosingPattern] = useState(false);
+  const inputClass = `w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const colorClass =
+    "h-9 w-12 shrink-0 cursor-pointer rounded-lg border border-slate-300 dark:border-slate-700";
+  const fillKind: FillKind = layer.fill?.kind ?? (choosingPattern ? "pattern" : "color");
+
+  const changeFill = (kind: FillKind) => {
+    setChoosingPattern(kind === "pattern");
+    if (kind === "color") onChange({ fill: null });
+    if (kind === "gradient") {
+      onChange({ fill: { kind: "gradient", from: layer.color, to: "#c9a227", angle: 0 } });
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-4 text-sm">
+      <div className="grid gap-4 sm:grid-cols-4">
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Weight</span>
+          <select
+            className={inputClass}
+            value={layer.fontWeight}
+            onChange={(event) => onChange({ fontWeight: Number(event.target.value) })}
+          >
+            {FONT_WEIGHT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className="font-medium">Case</span>
+          <select
+            className={inputClass}
+            value={layer.textTransform}
+            onChange={(event) => onChange({ textTransform: event.target.value as TextTransform })}
+          >
+            {TEXT_TRANSFORM_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Letter spacing</span>
+            <span className="text-xs text-slate-500">{layer.letterSpacing}px</span>
+          </div>
+          <input
+            type="range"
+            min={-10}
+            max={40}
+            value={layer.letterSpacing}
+            onChange={(event) => onChange({ letterSpacing: Number(event.target.value) })}
+          />
+        </label>
+        <label className="flex items-center gap-2 sm:mt-7">
+          <input
+            type="checkbox"
+            checked={layer.fontStyle === "italic"}
+            onChange={(event) =>
+              onChange({ fontStyle: event.target.checked ? "italic" : "normal" })
+            }
+          />
+          <span className="font-medium italic">Italic</span>
+        </label>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Rotation</span>
+            <span className="text-xs text-slate-500">{layer.rotation}°</span>
+          </div>
+          <input
+            type="range"
+            min={-180}
+            max={180}
+            value={layer.rotation}
+            onChange={(event) => onChange({ rotation: Number(event.target.value) })}
+          />
+        </label>
+        <label className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Opacity</span>
+            <span className="text-xs text-slate-500">{Math.round(layer.opacity * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(layer.opacity * 100)}
+            onChange={(event) => onChange({ opacity: Number(event.target.value) / 100 })}
+          />
+        </label>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="flex flex-col gap-2">
+          <span className="font-medium">Fill</span>
+          <select
+            className={inputClass}
+            value={fillKind}
+            onChange={(event) => changeFill(event.target.value as FillKind)}
+          >
+            <option value="color">Font color</option>
+            <option value="gradient">Gradient</option>
+            <option value="pattern">Pattern image</option>
+          </select>
+          {layer.fill?.kind === "gradient" && (
+            <div className="flex items-center gap-2 text-xs">
+              <input
+                type="color"
+                className={colorClass}
+                value={layer.fill.from}
+                onChange={(event) =>
+                  layer.fill?.kind === "gradient" &&
+                  onChange({ fill: { ...layer.fill, from: event.target.value } })
+                }
+              />
+              <span className="text-slate-500">→</span>
+              <input
+                type="color"
+                className={colorClass}
+                value={layer.fill.to}
+                onChange={(event) =>
+                  layer.fill?.kind === "gradient" &&
+                  onChange({ fill: { ...layer.fill, to: event.target.value } })
+                }
+              />
+              <input
+                type="range"
+                min={0}
+                max={360}
+                className="min-w-0 flex-1"
+                title="Gradient angle"
+                value={layer.fill.angle}
+                onChange={(event) =>
+                  layer.fill?.kind === "gradient" &&
+                  onChange({ fill: { ...layer.fill, angle: Number(event.target.value) } })
+                }
+              />
+              <span className="w-9 text-right text-slate-500">{layer.fill.angle}°</span>
+            </div>
+          )}
+          {fillKind === "pattern" && (
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              <label className="cursor-pointer font-medium text-emerald-600 dark:text-emerald-400 transition hover:underline">
+                {layer.fill?.kind === "pattern" ? "🖼️ Replace pattern" : "🖼️ Upload pattern"}
+                <input
+                  className="hidden"
+                  type="file"
+                  accept={IMAGE_FILE_ACCEPT}
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (file) onPatternFile(file);
+                  }}
+                />
+              </label>
+              {layer.fill?.kind === "pattern" && (
+                <span className="text-slate-500">{layer.fill.fileName}</span>
+              )}
+            </div>
+          )}
+          {fillKind === "pattern" && imageError && (
+            <p className="text-xs text-rose-600 dark:text-rose-400">{imageError}</p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={layer.outline !== null}
+              onChange={(event) =>
+                onChange({ outline: event.target.checked ? DEFAULT_OUTLINE : null })
+              }
+            />
+            <span className="font-medium">Outline</span>
+          </label>
+          {layer.outline && (
+            <div className="flex items-center gap-2 text-xs">
+              <input
+                type="color"
+                className={colorClass}
+                value={layer.outline.color}
+                onChange={(event) =>
+                  layer.outline &&
+                  onChange({ outline: { ...layer.outline, color: event.target.value } })
+                }
+              />
+              <input
+                type="range"
+                min={1}
+                max={20}
+                className="min-w-0 flex-1"
+                title="Outline width"
+                value={layer.outline.width}
+                onChange={(event) =>
+                  layer.outline &&
+                  onChange({ outline: { ...layer.outline, width: Number(event.target.value) } })
+                }
+              />
+              <span className="w-9 text-right text-slate-500">{layer.outline.width}px</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={layer.shadow !== null}
+              onChange={(event) =>
+                onChange({ shadow: event.target.checked ? DEFAULT_SHADOW : null })
+              }
+            />
+            <span className="font-medium">Shadow</span>
+          </label>
+          {layer.shadow && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <input
+                type="color"
+                className={colorClass}
+                value={layer.shadow.color}
+                onChange={(event) =>
+                  layer.shadow &&
+                  onChange({ shadow: { ...layer.shadow, color: event.target.value } })
+                }
+              />
+              {(["blur", "offsetX", "offsetY"] as const).map((field) => (
+                <label key={field} className="flex items-center gap-1">
+                  <span className="text-slate-500">
+                    {field === "blur" ? "Blur" : field === "offsetX" ? "X" : "Y"}
+                  </span>
+                  <input
+                    type="number"
+                    min={field === "blur" ? 0 : undefined}
+                    className={`w-14 rounded-lg border px-2 py-1 outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`}
+                    value={layer.shadow?.[field] ?? 0}
+                    onChange={(event) => {
+                      const value = event.target.valueAsNumber;
+                      if (!layer.shadow || Number.isNaN(value)) return;
+                      onChange({
+                        shadow: {
+                          ...layer.shadow,
+                          [field]: field === "blur" ? Math.max(0, value) : value,
+                        },
+                      });
+                    }}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
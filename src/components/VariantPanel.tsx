@@ -0,0 +1,163 @@
+"use client";
+
+import {
+  DEFAULT_VARIANT_NAME,
+  createVariant,
+  type Variant,
+  type VariantSettings,
+} from "@/lib/variants";
+
+type VariantPanelProps = {
+  settings: VariantSettings;
+  /** Selected rows per rule, with the default last; null while no sheet is loaded. */
+  counts: number[] | null;
+  error: string | null;
+  /** Merged PDFs are a single file, so there is nothing to put in folders. */
+  mergedOutput: boolean;
+  isDarkMode: boolean;
+  onChange: (settings: VariantSettings) => void;
+  onTemplateFile: (id: string, file: File) => void;
+};
+
+const DEFAULT_COLOR = "#b8860b";
+
+export function VariantPanel({
+  settings,
+  counts,
+  error,
+  mergedOutput,
+  isDarkMode,
+  onChange,
+  onTemplateFile,
+}: VariantPanelProps) {
+  const inputClass = `w-full rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${isDarkMode ? "border-slate-700 bg-slate-800 text-white" : "border-slate-300 bg-white text-slate-900"}`;
+  const buttonClass = `rounded-lg border px-2.5 py-1 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-50 ${isDarkMode ? "border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700" : "border-slate-300 bg-white text-slate-700 hover:bg-slate-50"}`;
+  const { rules } = settings;
+
+  const setRules = (next: Variant[]) => onChange({ ...settings, rules: next });
+  const updateRule = (id: string, patch: Partial<Variant>) =>
+    setRules(rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    setRules(next);
+  };
+  const countLabel = (index: number) => {
+    const count = counts?.[index];
+    return count === undefined ? "" : `${count} row${count === 1 ? "" : "s"}`;
+  };
+
+  return (
+    <div className={`rounded-xl border p-6 shadow-lg ${isDarkMode ? "border-slate-800 bg-slate-900/50" : "border-slate-200 bg-slate-50"}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Variants</h2>
+          <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+            Give matching rows their own first-page template or text color, e.g. <span className="font-mono text-xs">Award = Gold</span>. The first matching rule wins.
+          </p>
+        </div>
+        <button type="button" className={buttonClass} onClick={() => setRules([...rules, createVariant(rules.length)])}>
+          + Add rule
+        </button>
+      </div>
+
+      {rules.length > 0 && (
+        <ol className="mt-4 space-y-3 text-sm">
+          {rules.map((rule, index) => (
+            <li key={rule.id} className={`space-y-2 rounded-lg border p-3 ${isDarkMode ? "border-slate-800" : "border-slate-200"}`}>
+              <div className="flex items-center gap-2">
+                <input
+                  className={`${inputClass} font-medium`}
+                  aria-label="Variant name"
+                  value={rule.name}
+                  onChange={(event) => updateRule(rule.id, { name: event.target.value })}
+                />
+                <span className="shrink-0 text-xs text-slate-500">{countLabel(index)}</span>
+                <button type="button" className={buttonClass} disabled={index === 0} onClick={() => moveRule(index, -1)} aria-label="Move up">
+                  ↑
+                </button>
+                <button type="button" className={buttonClass} disabled={index === rules.length - 1} onClick={() => moveRule(index, 1)} aria-label="Move down">
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  className="text-xs font-medium text-rose-600 dark:text-rose-400 transition hover:underline"
+                  onClick={() => setRules(rules.filter((entry) => entry.id !== rule.id))}
+                >
+                  Remove
+                </button>
+              </div>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-slate-500">When</span>
+                <input
+                  className={`${inputClass} font-mono text-xs`}
+                  placeholder="Award = Gold"
+                  value={rule.when}
+                  onChange={(event) => updateRule(rule.id, { when: event.target.value })}
+                />
+              </label>
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.color !== null}
+                    onChange={(event) => updateRule(rule.id, { color: event.target.checked ? DEFAULT_COLOR : null })}
+                  />
+                  Text color
+                </label>
+                {rule.color !== null && (
+                  <input
+                    type="color"
+                    className="h-7 w-12 cursor-pointer rounded border border-slate-300 dark:border-slate-700"
+                    value={rule.color}
+                    onChange={(event) => updateRule(rule.id, { color: event.target.value })}
+                  />
+                )}
+                {rule.color !== null && (
+                  <span className="text-slate-500">Replaces gradient and pattern fills too.</span>
+                )}
+                <label className={`cursor-pointer ${buttonClass}`}>
+                  {rule.template ? "🖼️ Replace template" : "🖼️ Own template"}
+                  <input
+                    className="hidden"
+                    type="file"
+                    accept="image/*"
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      event.target.value = "";
+                      if (file) onTemplateFile(rule.id, file);
+                    }}
+                  />
+                </label>
+                {rule.template && (
+                  <button type="button" className="font-medium text-slate-500 transition hover:underline" onClick={() => updateRule(rule.id, { template: null })}>
+                    Use project template
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+          <li className="flex justify-between px-3 text-xs text-slate-500">
+            <span>{DEFAULT_VARIANT_NAME}: project template and layer colors</span>
+            <span>{countLabel(rules.length)}</span>
+          </li>
+        </ol>
+      )}
+
+      {error && <p className="mt-3 text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+
+      {rules.length > 0 && (
+        <label className="mt-4 flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={settings.folders}
+            disabled={mergedOutput}
+            onChange={(event) => onChange({ ...settings, folders: event.target.checked })}
+          />
+          Put each variant in its own ZIP folder
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+/** Request limits for the API routes. */
+export const API_LIMITS = {
+  /** JSON bodies for generation requests. */
+  maxBodyBytes: 1024 * 1024,
+  /** Design uploads, which may embed the template image. */
+  maxDesignBytes: 15 * 1024 * 1024,
+  /** Email requests, which carry the rendered certificate as base64. */
+  maxMessageBytes: 15 * 1024 * 1024,
+  maxRecipients: 500,
+  maxFieldLength: 1000,
+  maxEmailTextLength: 20_000,
+} as const;
+
+export type HttpError = Error & { status: number };
+
+export const httpError = (status: number, message: string): HttpError =>
+  Object.assign(new Error(message), { status });
+
+const isHttpError = (error: unknown): error is HttpError =>
+  error instanceof Error && typeof (error as Partial<HttpError>).status === "number";
+
+/** JSON error body with the status carried by `httpError`, or a 500 for anything unexpected. */
+export const errorResponse = (error: unknown) => {
+  if (isHttpError(error)) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  console.error(error);
+  return Response.json({ error: "Certificate generation failed." }, { status: 500 });
+};
+
+/**
+ * When NUCLEUS_API_KEY is set, every API request must send it as a bearer
+ * token. Without it the read and render routes are open, so keep them
+ * behind your own auth.
+ */
+export const requireApiKey = (request: Request) => {
+  const key = process.env.NUCLEUS_API_KEY;
+  if (key && request.headers.get("authorization") !== `Bearer ${key}`) {
+    throw httpError(401, "Missing or invalid API key.");
+  }
+};
+
+/**
+ * For routes that change what the server stores, vouches for, or sends:
+ * published designs, registry writes, and mail. They stay off until
+ * NUCLEUS_API_KEY is set, then need the key.
+ */
+export const requireConfiguredApiKey = (request: Request, action = "This endpoint") => {
+  if (!process.env.NUCLEUS_API_KEY) {
+    throw httpError(403, `${action} needs NUCLEUS_API_KEY to be set on the server.`);
+  }
+  requireApiKey(request);
+};
+
+export const readJsonBody = async (request: Request, maxBytes: number) => {
+  const declared = Number(request.headers.get("content-length") ?? 0);
+  if (declared > maxBytes) {
+    throw httpError(413, `Request body is larger than ${Math.round(maxBytes / 1024)} KB.`);
+  }
+
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > maxBytes) {
+    throw httpError(413, `Request body is larger than ${Math.round(maxBytes / 1024)} KB.`);
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw httpError(400, "Request body is not valid JSON.");
+  }
+};
+
+/** `attachment; filename=...` with an ASCII fallback and the UTF-8 name. */
+export const contentDisposition = (filename: string, inline = false) =>
+  `${inline ? "inline" : "attachment"}; filename="${filename.replace(/[^\x20-\x7e]|"/g, "_")}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
@@ -0,0 +1,159 @@
+import { createId } from "./layers";
+import { parseProject, type Project } from "./project";
+import { withRevocations, type RegistryEntry } from "./registry";
+import { STORES, deleteItem, getAllItems, getItem, setItem } from "./storage";
+
+/**
+ * A record of every generation run in this browser: when it happened, the
+ * design (by hash) and sheet it used, and the exact values each certificate
+ * was drawn with, so one certificate can be downloaded again or re-issued
+ * later. Designs are stored once per hash, since most runs reuse the last.
+ */
+
+export type RunRecipient = {
+  /** Zero-based sheet row. */
+  row: number;
+  id: string;
+  name: string;
+  /** Cell values the certificate was drawn with, lined up with the run's columns. */
+  values: string[];
+  /** Signature embedded in the file; null when the run was not signed. */
+  signature: string | null;
+};
+
+export type GenerationRun = {
+  id: string;
+  /** ISO timestamp the run's certificates were issued at. */
+  issuedAt: string;
+  /** Files downloaded from the page, or certificates emailed to recipients. */
+  kind: "download" | "email";
+  /** Where the rows came from, e.g. the spreadsheet's file name. */
+  source: string;
+  event: string;
+  /** `hashDesign` of the pages, images, variants, and fonts; keys the stored design. */
+  designHash: string;
+  /** Output settings, which the design hash leaves out. */
+  output: Project["output"];
+  verifyBaseUrl: string;
+  /** Header labels of the rendered rows, the Certificate ID column included. */
+  columns: string[];
+  recipients: RunRecipient[];
+};
+
+export type FieldChange = { column: string; before: string; after: string };
+
+export type RunDiff = {
+  designChanged: boolean;
+  /** Certificates only in the later run. */
+  added: RunRecipient[];
+  /** Certificates only in the earlier run. */
+  removed: RunRecipient[];
+  changed: { before: RunRecipient; after: RunRecipient; fields: FieldChange[] }[];
+  unchanged: number;
+};
+
+type Revocation = { id: string; revokedAt: string };
+
+/** Stores a finished run, and its design unless a run with the same hash already did. */
+export const recordRun = async (run: Omit<GenerationRun, "id">, design: Project) => {
+  if (!(await getItem(STORES.snapshots, run.designHash))) {
+    await setItem(STORES.snapshots, run.designHash, design);
+  }
+  const saved: GenerationRun = { ...run, id: createId("run") };
+  await setItem(STORES.runs, saved.id, saved);
+  return saved;
+};
+
+/** Every run, newest first. */
+export const listRuns = async () =>
+  (await getAllItems<GenerationRun>(STORES.runs)).sort((a, b) =>
+    b.issuedAt.localeCompare(a.issuedAt)
+  );
+
+/** The design a run was drawn with, carrying that run's output settings. */
+export const loadRunDesign = async (run: GenerationRun): Promise<Project> => {
+  const saved = await getItem<unknown>(STORES.snapshots, run.designHash);
+  if (!saved) {
+    throw new Error("The design used for this run is no longer stored in this browser.");
+  }
+  const project = parseProject(saved);
+  return {
+    ...project,
+    output: run.output,
+    certificateIds: { ...project.certificateIds, verifyBaseUrl: run.verifyBaseUrl },
+  };
+};
+
+/** Revoked certificate IDs, mapped to when they were revoked. */
+export const loadRevocations = async () =>
+  new Map(
+    (await getAllItems<Revocation>(STORES.revocations)).map(
+      (revocation) => [revocation.id, revocation.revokedAt] as const
+    )
+  );
+
+export const revokeCertificate = (id: string) =>
+  setItem<Revocation>(STORES.revocations, id, { id, revokedAt: new Date().toISOString() });
+
+export const restoreCertificate = (id: string) => deleteItem(STORES.revocations, id);
+
+/**
+ * Every certificate the runs issued, once per ID with the date it was
+ * first issued and the name it was last issued to; revoked ones are marked.
+ */
+export const runsRegistry = (runs: GenerationRun[], revoked: Map<string, string>) => {
+  const entries = new Map<string, RegistryEntry>();
+  const oldestFirst = [...runs].sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+  for (const run of oldestFirst) {
+    for (const recipient of run.recipients) {
+      entries.set(recipient.id, {
+        id: recipient.id,
+        name: recipient.name,
+        event: run.event,
+        issuedAt: entries.get(recipient.id)?.issuedAt ?? run.issuedAt,
+      });
+    }
+  }
+  return withRevocations([...entries.values()], revoked);
+};
+
+const fieldsOf = (run: GenerationRun, recipient: RunRecipient) =>
+  new Map(run.columns.map((label, index) => [label, recipient.values[index] ?? ""]));
+
+/**
+ * Compares two runs certificate by certificate. Certificates are matched
+ * by ID and their values by header label, so reordered columns do not
+ * count as changes; a column only one run has compares as empty.
+ */
+export const diffRuns = (before: GenerationRun, after: GenerationRun): RunDiff => {
+  const earlier = new Map(before.recipients.map((recipient) => [recipient.id, recipient]));
+  const later = new Set(after.recipients.map((recipient) => recipient.id));
+  const columns = [...new Set([...before.columns, ...after.columns])];
+  const diff: RunDiff = {
+    designChanged: before.designHash !== after.designHash,
+    added: [],
+    removed: before.recipients.filter((recipient) => !later.has(recipient.id)),
+    changed: [],
+    unchanged: 0,
+  };
+
+  for (const recipient of after.recipients) {
+    const previous = earlier.get(recipient.id);
+    if (!previous) {
+      diff.added.push(recipient);
+      continue;
+    }
+    const was = fieldsOf(before, previous);
+    const now = fieldsOf(after, recipient);
+    const fields = columns.flatMap((column) => {
+      const change = { column, before: was.get(column) ?? "", after: now.get(column) ?? "" };
+      return change.before === change.after ? [] : [change];
+    });
+    if (fields.length) {
+      diff.changed.push({ before: previous, after: recipient, fields });
+    } else {
+      diff.unchanged += 1;
+    }
+  }
+  return diff;
+};
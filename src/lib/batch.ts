@@ -0,0 +1,189 @@
+import type { RenderJob, RenderSetup, WorkerResponse } from "@/workers/protocol";
+import { createDomBackend } from "./dom-backend";
+import { createCertificateRenderer } from "./engine";
+
+export type BatchProgress = {
+  done: number;
+  total: number;
+  elapsedMs: number;
+  /** Estimated time left, once at least one certificate has finished. */
+  etaMs: number | null;
+};
+
+/** `files` holds one PNG per page, or a single PDF. */
+export type BatchResult = { index: number; files: Uint8Array[] };
+
+type Renderer = {
+  render: (job: RenderJob) => Promise<Uint8Array[]>;
+  dispose: () => void;
+};
+
+type BatchOptions = {
+  setup: RenderSetup;
+  jobs: RenderJob[];
+  signal: AbortSignal;
+  /** Set to false when the worker could not reproduce the page's fonts. */
+  useWorkers: boolean;
+  /** Awaited before the next job starts on that renderer, so slow writers apply backpressure. */
+  onResult: (result: BatchResult) => Promise<void>;
+  onProgress: (progress: BatchProgress) => void;
+};
+
+const MAX_WORKERS = 4;
+
+const cancelledError = () => new DOMException("Generation cancelled.", "AbortError");
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+const canUseWorkers = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap === "function";
+
+const createWorker = () => new Worker(new URL("../workers/render.worker.ts", import.meta.url));
+
+const createWorkerRenderer = (worker: Worker, setup: RenderSetup) =>
+  new Promise<Renderer>((resolve, reject) => {
+    let pending: { resolve: (files: Uint8Array[]) => void; reject: (error: Error) => void } | null =
+      null;
+
+    const fail = (error: Error) => {
+      if (pending) {
+        pending.reject(error);
+        pending = null;
+      } else {
+        reject(error);
+      }
+    };
+
+    const renderer: Renderer = {
+      render: (job) =>
+        new Promise<Uint8Array[]>((resolveJob, rejectJob) => {
+          pending = { resolve: resolveJob, reject: rejectJob };
+          worker.postMessage({ type: "render", job });
+        }),
+      dispose: () => {
+        worker.terminate();
+        fail(cancelledError());
+      },
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "ready") {
+        resolve(renderer);
+      } else if (message.type === "rendered") {
+        pending?.resolve(message.files.map((buffer) => new Uint8Array(buffer)));
+        pending = null;
+      } else {
+        fail(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      fail(new Error(event.message || "Render worker crashed."));
+    };
+    worker.postMessage({ type: "setup", setup });
+  });
+
+/**
+ * Starts a pool of OffscreenCanvas workers. Returns null when the browser
+ * cannot render off the main thread or a worker fails to start (for example
+ * because the fonts could not be loaded there), so callers can fall back.
+ */
+const createWorkerPool = async (setup: RenderSetup, size: number) => {
+  if (!canUseWorkers()) return null;
+
+  const workers = Array.from({ length: size }, createWorker);
+  const started = await Promise.allSettled(
+    workers.map((worker) => createWorkerRenderer(worker, setup))
+  );
+  const renderers = started.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+  if (renderers.length === size) return renderers;
+
+  // Workers whose setup failed have no renderer to dispose, so end every one.
+  workers.forEach((worker) => worker.terminate());
+  return null;
+};
+
+const createMainThreadRenderer = async ({
+  config,
+  templates,
+  variantTemplates,
+}: RenderSetup): Promise<Renderer> => {
+  const renderer = await createCertificateRenderer(
+    createDomBackend(document.fonts),
+    config,
+    templates,
+    variantTemplates
+  );
+  return {
+    render: (job) => renderer.render(job.row, job.title, job.signature, job.images),
+    dispose: () => undefined,
+  };
+};
+
+const poolSize = (jobCount: number) =>
+  Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1, jobCount));
+
+/**
+ * Renders every job, preferring a worker pool and falling back to the main
+ * thread. Results arrive in completion order, not job order.
+ */
+export const renderBatch = async ({
+  setup,
+  jobs,
+  signal,
+  useWorkers,
+  onResult,
+  onProgress,
+}: BatchOptions) => {
+  if (signal.aborted) throw cancelledError();
+
+  const pool = useWorkers ? await createWorkerPool(setup, poolSize(jobs.length)) : null;
+  const renderers = pool ?? [await createMainThreadRenderer(setup)];
+  const disposeAll = () => renderers.forEach((renderer) => renderer.dispose());
+  signal.addEventListener("abort", disposeAll, { once: true });
+
+  const startedAt = performance.now();
+  let next = 0;
+  let done = 0;
+  onProgress({ done, total: jobs.length, elapsedMs: 0, etaMs: null });
+
+  const drain = async (renderer: Renderer) => {
+    while (next < jobs.length) {
+      if (signal.aborted) throw cancelledError();
+      const job = jobs[next++];
+      const files = await renderer.render(job);
+      await onResult({ index: job.index, files });
+
+      done += 1;
+      const elapsedMs = performance.now() - startedAt;
+      onProgress({
+        done,
+        total: jobs.length,
+        elapsedMs,
+        etaMs: (elapsedMs / done) * (jobs.length - done),
+      });
+    }
+  };
+
+  try {
+    await Promise.all(renderers.map(drain));
+  } catch (error) {
+    throw signal.aborted ? cancelledError() : error;
+  } finally {
+    signal.removeEventListener("abort", disposeAll);
+    disposeAll();
+  }
+};
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60
+    ? `${minutes}m ${seconds % 60}s`
+    : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
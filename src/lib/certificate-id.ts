@@ -0,0 +1,140 @@
+import { findColumn } from "./template";
+
+/** Virtual column appended to every row so layers can use `{{Certificate ID}}`. */
+export const CERTIFICATE_ID_FIELD = "Certificate ID";
+
+export type CertificateIdSettings = {
+  /** `auto` derives IDs from the event and recipient name; `column` reads them from the sheet. */
+  source: "auto" | "column";
+  column: number;
+  /** Event name shown on the verification page and mixed into auto IDs. */
+  event: string;
+  /** Origin the QR code points at, e.g. `https://certs.example.org`; empty uses the current site. */
+  verifyBaseUrl: string;
+  /** Send issued IDs to this server's verification registry after generating. */
+  publish: boolean;
+};
+
+export const DEFAULT_CERTIFICATE_ID_SETTINGS: CertificateIdSettings = {
+  source: "auto",
+  column: 0,
+  event: "",
+  verifyBaseUrl: "",
+  publish: true,
+};
+
+/** Event shown on certificates' verification pages; defaults to the project name. */
+export const resolveEventName = (settings: CertificateIdSettings, projectName: string) =>
+  settings.event.trim() || projectName.trim() || "Untitled event";
+
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/** 32-bit string hash (murmur3 finalizer over a multiply-xor loop). */
+const hash32 = (value: string, seed: number) => {
+  let h = seed ^ value.length;
+  for (let index = 0; index < value.length; index++) {
+    h = Math.imul(h ^ value.charCodeAt(index), 0x5bd1e995);
+    h ^= h >>> 15;
+  }
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+/**
+ * Deterministic ID for a recipient at an event, e.g. `7K2D-QX9M-4HTB`.
+ * `occurrence` separates recipients who share a name.
+ */
+export const createCertificateId = (event: string, name: string, occurrence = 1) => {
+  const key = [event, name, occurrence]
+    .map((part) => String(part).trim().toLowerCase())
+    .join("\u0000");
+  const bits = [hash32(key, 0x9e3779b9), hash32(key, 0x85ebca77)];
+  let id = "";
+  for (let index = 0; index < 12; index++) {
+    const word = bits[index < 6 ? 0 : 1];
+    id += CROCKFORD[(word >>> ((index % 6) * 5)) & 31];
+  }
+  return id.match(/.{4}/g)!.join("-");
+};
+
+/**
+ * One ID per row, either read from the configured column or derived from
+ * the event and name. Throws for missing or duplicate IDs so a batch never
+ * issues two certificates that verify as the same one.
+ *
+ * With `include`, only those rows get (and are checked for) an ID, but
+ * every row still counts towards shared-name occurrences, so leaving a
+ * recipient out does not change anyone else's derived ID.
+ */
+export const assignCertificateIds = (
+  rows: string[][],
+  names: string[],
+  settings: CertificateIdSettings,
+  columns: string[],
+  event: string,
+  include?: boolean[]
+) => {
+  const seen = new Map<string, number>();
+  const ids: string[] = [];
+  rows.forEach((row, index) => {
+    const included = include?.[index] ?? true;
+    if (settings.source === "column") {
+      if (!included) return;
+      const id = (row[settings.column] ?? "").trim();
+      const label = columns[settings.column] || `Column ${settings.column + 1}`;
+      if (!id) {
+        throw new Error(
+          `${names[index] || `Row ${index + 1}`} has no certificate ID in "${label}".`
+        );
+      }
+      if (seen.has(id)) {
+        throw new Error(`Certificate ID ${id} appears more than once in "${label}".`);
+      }
+      seen.set(id, 1);
+      ids.push(id);
+      return;
+    }
+
+    const key = names[index].trim().toLowerCase();
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+    if (included) ids.push(createCertificateId(event, names[index], occurrence));
+  });
+  return ids;
+};
+
+/** Appends the certificate ID column unless the sheet already has one. */
+export const withCertificateIds = (columns: string[], rows: string[][], ids: string[]) => {
+  const existing = findColumn(CERTIFICATE_ID_FIELD, columns);
+  if (existing >= 0) {
+    return {
+      columns,
+      rows: rows.map((row, index) =>
+        row.map((cell, column) => (column === existing ? ids[index] : cell))
+      ),
+    };
+  }
+  return {
+    columns: [...columns, CERTIFICATE_ID_FIELD],
+    rows: rows.map((row, index) => [
+      ...Array.from(columns, (_, column) => row[column] ?? ""),
+      ids[index],
+    ]),
+  };
+};
+
+export const verificationUrl = (baseUrl: string, id: string) =>
+  baseUrl ? `${baseUrl.replace(/\/+$/, "")}/verify/${encodeURIComponent(id)}` : id;
+
+/**
+ * Certificate ID from the last segment of a verification URL. A segment
+ * that is not valid percent-encoding, e.g. `100%`, is taken as typed.
+ */
+export const certificateIdFromPath = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
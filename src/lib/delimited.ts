@@ -0,0 +1,134 @@
+/**
+ * Delimited text (CSV, TSV, semicolon exports, pasted spreadsheet cells).
+ * Cells stay raw strings so IDs like `007` keep their leading zeros.
+ */
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export type DelimitedText = {
+  rows: string[][];
+  delimiter: string;
+  /** Null when the input was already text, e.g. from the clipboard. */
+  encoding: TextEncoding | null;
+};
+
+export const DELIMITERS = [",", ";", "\t", "|"];
+
+export const DELIMITER_NAMES: Record<string, string> = {
+  ",": "comma",
+  ";": "semicolon",
+  "\t": "tab",
+  "|": "pipe",
+};
+
+/** How much of the text delimiter detection looks at. */
+const SAMPLE_LENGTH = 64 * 1024;
+
+const BOMS: { encoding: TextEncoding; bytes: number[] }[] = [
+  { encoding: "utf-8", bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: "utf-16le", bytes: [0xff, 0xfe] },
+  { encoding: "utf-16be", bytes: [0xfe, 0xff] },
+];
+
+/**
+ * Decodes a text file: a byte order mark wins, then strict UTF-8, then
+ * windows-1252, which is what Excel writes for "CSV" on Western Windows
+ * installs.
+ */
+export const decodeText = (bytes: Uint8Array) => {
+  for (const { encoding, bytes: bom } of BOMS) {
+    if (bom.every((byte, index) => bytes[index] === byte)) {
+      return { text: new TextDecoder(encoding).decode(bytes.subarray(bom.length)), encoding };
+    }
+  }
+  try {
+    return {
+      text: new TextDecoder("utf-8", { fatal: true }).decode(bytes),
+      encoding: "utf-8" as TextEncoding,
+    };
+  } catch {
+    return {
+      text: new TextDecoder("windows-1252").decode(bytes),
+      encoding: "windows-1252" as TextEncoding,
+    };
+  }
+};
+
+/** RFC 4180 parsing: quoted cells may hold delimiters, `""`, and line breaks. */
+export const parseDelimited = (text: string, delimiter: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Picks the delimiter that splits the sample into the most consistent
+ * number of columns. Text without any of them is a single column; `,` is
+ * returned then.
+ */
+export const detectDelimiter = (text: string) => {
+  let sample = text.slice(0, SAMPLE_LENGTH);
+  // Drop the row the cut went through.
+  const lastBreak = sample.search(/[\r\n][^\r\n]*$/);
+  if (sample.length < text.length && lastBreak > 0) sample = sample.slice(0, lastBreak);
+
+  let best = { delimiter: ",", consistency: 0, width: 1 };
+  for (const delimiter of DELIMITERS) {
+    const rows = parseDelimited(sample, delimiter).filter((row) => row.some((cell) => cell.trim()));
+    const width = rows[0]?.length ?? 0;
+    if (width < 2) continue;
+    const consistency = rows.filter((row) => row.length === width).length / rows.length;
+    if (
+      consistency > best.consistency ||
+      (consistency === best.consistency && width > best.width)
+    ) {
+      best = { delimiter, consistency, width };
+    }
+  }
+  return best.delimiter;
+};
+
+/** Reads delimited text from a file's bytes or from text already decoded. */
+export const readDelimited = (input: Uint8Array | string): DelimitedText => {
+  const { text, encoding } =
+    typeof input === "string" ? { text: input, encoding: null } : decodeText(input);
+  const delimiter = detectDelimiter(text);
+  return { rows: parseDelimited(text, delimiter), delimiter, encoding };
+};
+
+/** E.g. "semicolon-separated, windows-1252". */
+export const describeDelimited = ({ delimiter, encoding }: Omit<DelimitedText, "rows">) =>
+  [`${DELIMITER_NAMES[delimiter] ?? delimiter}-separated`, encoding].filter(Boolean).join(", ");
@@ -0,0 +1,108 @@
+import { createCertificateId, withCertificateIds } from "./certificate-id";
+import { createDomBackend } from "./dom-backend";
+import { createCertificateRenderer } from "./engine";
+import { toBase64 } from "./files";
+import { createId, type Layer } from "./layers";
+import { DEFAULT_PDF_OPTIONS, pagePlacement } from "./pdf";
+import { parseProject, type Project } from "./project";
+import { STORES, deleteItem, getAllItems, setItem } from "./storage";
+
+/**
+ * Designs a team saved in this browser for reuse. Each entry keeps a whole
+ * project, so opening one restores fonts, variants, and output settings
+ * along with the pages.
+ */
+
+export type LibraryDesign = {
+  id: string;
+  /** When the design was saved or duplicated, as an ISO string. */
+  savedAt: string;
+  /** PNG data URL of the first page with a sample name. */
+  thumbnail: string;
+  /** Named by `project.name`. */
+  project: Project;
+};
+
+const THUMBNAIL_WIDTH = 320;
+const SAMPLE_NAME = "Alexandra Montgomery";
+
+/** Saved designs, newest first; entries that no longer parse are left out. */
+export const listLibraryDesigns = async () => {
+  const saved = await getAllItems<LibraryDesign>(STORES.designs);
+  return saved
+    .flatMap((design) => {
+      try {
+        return [{ ...design, project: parseProject(design.project) }];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+const storeDesign = async (design: LibraryDesign) => {
+  await setItem(STORES.designs, design.id, design);
+  return design;
+};
+
+export const saveLibraryDesign = (project: Project, thumbnail: string) =>
+  storeDesign({ id: createId("design"), savedAt: new Date().toISOString(), thumbnail, project });
+
+export const renameLibraryDesign = (design: LibraryDesign, name: string) =>
+  storeDesign({ ...design, project: { ...design.project, name } });
+
+export const duplicateLibraryDesign = (design: LibraryDesign) =>
+  storeDesign({
+    ...design,
+    id: createId("design"),
+    savedAt: new Date().toISOString(),
+    project: { ...design.project, name: `${design.project.name} (copy)` },
+  });
+
+export const deleteLibraryDesign = (id: string) => deleteItem(STORES.designs, id);
+
+/**
+ * A small PNG of one page as the export renderer draws it: the name column
+ * shows a sample name, other columns their header label, and
+ * `{{Certificate ID}}` a made-up ID. Returns a data URL.
+ */
+export const renderThumbnail = async (
+  page: { templateSize: { width: number; height: number }; layers: Layer[] },
+  template: Uint8Array,
+  columns: string[],
+  nameColumn: number
+) => {
+  // Layers may read columns past the current sheet's, e.g. before one is loaded.
+  const highest = Math.max(
+    nameColumn,
+    ...page.layers.flatMap((layer) =>
+      layer.kind === "text" && layer.source.kind === "column" ? [layer.source.column] : []
+    )
+  );
+  const labels = Array.from(
+    { length: Math.max(columns.length, highest + 1) },
+    (_, index) => columns[index] ?? `Column ${index + 1}`
+  );
+  const row = labels.map((label, index) => (index === nameColumn ? SAMPLE_NAME : label));
+  const bound = withCertificateIds(labels, [row], [createCertificateId("sample", SAMPLE_NAME)]);
+  const renderer = await createCertificateRenderer(
+    createDomBackend(document.fonts),
+    {
+      pages: [
+        {
+          ...page,
+          placement: pagePlacement(page.templateSize, DEFAULT_PDF_OPTIONS),
+          scale: THUMBNAIL_WIDTH / page.templateSize.width,
+        },
+      ],
+      columns: bound.columns,
+      format: "png",
+      imposition: null,
+      verifyBaseUrl: "",
+      variants: [],
+    },
+    [template]
+  );
+  const [png] = await renderer.renderPages(bound.rows[0]);
+  return `data:image/png;base64,${toBase64(png)}`;
+};
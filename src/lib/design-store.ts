@@ -0,0 +1,86 @@
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { httpError } from "./api";
+import { slugify } from "./files";
+import {
+  createProject,
+  designPages,
+  parseProject,
+  serializeProject,
+  type Project,
+} from "./project";
+
+/**
+ * Designs published for the API, stored as project files under
+ * `$NUCLEUS_DATA_DIR/designs` (default `.nucleus-data` in the working directory).
+ */
+export const dataDir = () => path.resolve(process.env.NUCLEUS_DATA_DIR || ".nucleus-data");
+
+const designsDir = () => path.join(dataDir(), "designs");
+
+const DESIGN_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+export const isDesignId = (value: unknown): value is string =>
+  typeof value === "string" && DESIGN_ID_PATTERN.test(value);
+
+const designPath = (id: string) => {
+  if (!isDesignId(id)) {
+    throw httpError(400, "Design IDs use lowercase letters, digits, and dashes.");
+  }
+  return path.join(designsDir(), `${id}.json`);
+};
+
+export const createDesignId = (name: string) => {
+  // IDs end up in URLs, so fold the Unicode slug down to ASCII.
+  const slug = slugify(name || "design", 0)
+    .normalize("NFKD")
+    .replace(/[^a-z0-9-]/g, "")
+    .replace(/^-+/, "")
+    .slice(0, 48);
+  return `${slug || "design"}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/** Validates an uploaded project and writes it atomically under `id`. */
+export const saveDesign = async (id: string, value: unknown) => {
+  let project: Project;
+  try {
+    project = createProject(parseProject(value));
+  } catch (error) {
+    throw httpError(422, error instanceof Error ? error.message : "Invalid project file.");
+  }
+  const templates = [
+    ...designPages(project).map((page) => page.template),
+    ...project.variants.rules.flatMap((rule) => rule.template ?? []),
+  ];
+  if (
+    templates.some((template) => template.kind === "reference" && /^[a-z]+:/i.test(template.src))
+  ) {
+    throw httpError(422, "Designs must embed their template image or use one from /public.");
+  }
+
+  const file = designPath(id);
+  await mkdir(designsDir(), { recursive: true });
+  await writeFile(`${file}.tmp`, serializeProject(project));
+  await rename(`${file}.tmp`, file);
+  return project;
+};
+
+export const loadDesign = async (id: string) => {
+  const text = await readFile(designPath(id), "utf8").catch(() => null);
+  if (text === null) {
+    throw httpError(404, `Design "${id}" not found.`);
+  }
+  return parseProject(JSON.parse(text));
+};
+
+export const listDesigns = async () => {
+  const files = await readdir(designsDir()).catch(() => []);
+  const ids = files.filter((file) => file.endsWith(".json")).map((file) => file.slice(0, -5));
+  const designs = await Promise.all(
+    ids.filter(isDesignId).map(async (id) => {
+      const design = await loadDesign(id);
+      return { id, name: design.name, savedAt: design.savedAt, columns: design.columns };
+    })
+  );
+  return designs.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
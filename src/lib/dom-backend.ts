@@ -0,0 +1,54 @@
+import type { RenderBackend } from "./engine";
+import type { FontSource } from "./font-sources";
+
+const canvasToPng = async (canvas: HTMLCanvasElement | OffscreenCanvas) => {
+  const blob =
+    "convertToBlob" in canvas
+      ? await canvas.convertToBlob({ type: "image/png" })
+      : await new Promise<Blob>((resolve, reject) =>
+          canvas.toBlob(
+            (result) =>
+              result ? resolve(result) : reject(new Error("Unable to encode certificate image.")),
+            "image/png"
+          )
+        );
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+const createCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/** Registers web font faces on a font set (the document's or a worker's) and returns them. */
+export const registerFontSources = (fonts: FontFaceSet, sources: FontSource[]) =>
+  sources.map((source) => {
+    const face = new FontFace(source.family, source.src, {
+      weight: source.weight,
+      style: source.style,
+      unicodeRange: source.unicodeRange,
+    });
+    fonts.add(face);
+    return face;
+  });
+
+/** Backend for the page and for render workers, using the given font set. */
+export const createDomBackend = (fonts: FontFaceSet): RenderBackend => ({
+  createSurface: (width, height) => {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) {
+      throw new Error("Canvas context unavailable.");
+    }
+    return { ctx, toPng: () => canvasToPng(canvas) };
+  },
+  decodeImage: (bytes) => createImageBitmap(new Blob([bytes as BlobPart])),
+  prepareFont: async (fontSpec, text) => {
+    await fonts.load(fontSpec, text);
+  },
+});
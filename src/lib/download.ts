@@ -0,0 +1,34 @@
+import { createMemorySink, type ByteSink } from "./zip";
+
+type SaveFilePicker = (options: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Opens a destination for a large download. Browsers with the File System
+ * Access API stream straight to disk; others buffer and download at the end.
+ * Must be called from a user gesture, before any long-running await.
+ */
+export const createDownloadSink = async (filename: string, mimeType: string): Promise<ByteSink> => {
+  const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (!picker) {
+    return createMemorySink((parts) =>
+      downloadBlob(new Blob(parts as BlobPart[], { type: mimeType }), filename)
+    );
+  }
+
+  const handle = await picker({ suggestedName: filename });
+  const writable = await handle.createWritable();
+  return {
+    write: (chunk) => writable.write(chunk as BufferSource),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  };
+};
@@ -0,0 +1,182 @@
+import { csvCell, toBase64 } from "./files";
+import { renderTemplate } from "./template";
+
+/**
+ * Per-recipient email delivery: message composition from mail-merge
+ * templates, `.eml` files for dry runs, and the sent/failed report. Shared
+ * by the page and the `/api/mail` route.
+ */
+
+export type DeliveryMode = "send" | "dry-run";
+
+export type DeliverySettings = {
+  /** Column holding recipient addresses; null until one is picked. */
+  emailColumn: number | null;
+  /** Mail-merge templates, same placeholders as text layers. */
+  subject: string;
+  body: string;
+  /** `dry-run` writes `.eml` files into the ZIP instead of sending. */
+  mode: DeliveryMode;
+  /** Pacing of the browser's send loop; the server applies its own cap too. */
+  ratePerMinute: number;
+};
+
+export const DEFAULT_DELIVERY_SETTINGS: DeliverySettings = {
+  emailColumn: null,
+  subject: "Your certificate",
+  body: "Hello {{Name}},\n\nYour certificate is attached.\n\nCertificate ID: {{Certificate ID}}\n",
+  mode: "send",
+  ratePerMinute: 30,
+};
+
+export const RATE_PER_MINUTE_MIN = 1;
+export const RATE_PER_MINUTE_MAX = 600;
+
+export type EmailAttachment = {
+  filename: string;
+  contentType: string;
+  /** Base64 file content. */
+  content: string;
+};
+
+export type DeliveryMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  /** The certificate: one PNG per page, or a single PDF. */
+  attachments: EmailAttachment[];
+};
+
+export type DeliveryStatus = "sent" | "failed";
+
+export type DeliveryResult = {
+  /** Row of the recipient in the sheet, counting the header row. */
+  index: number;
+  name: string;
+  email: string;
+  status: DeliveryStatus;
+  /** Runs that tried this recipient, including retries of failures. */
+  attempts: number;
+  error: string | null;
+};
+
+export const isEmailAddress = (value: string) =>
+  /^[^\s@<>()[\],;:"]+@[^\s@<>()[\],;:"]+\.[^\s@<>()[\],;:"]+$/.test(value);
+
+/** The first column whose header mentions mail, or -1. */
+export const findEmailColumn = (columns: string[]) =>
+  columns.findIndex((label) => /e-?mail/i.test(label));
+
+export const recipientEmail = (row: string[], column: number | null) =>
+  column === null ? "" : (row[column] ?? "").trim();
+
+export const composeMessage = (
+  settings: Pick<DeliverySettings, "subject" | "body">,
+  to: string,
+  row: string[],
+  columns: string[],
+  attachments: EmailAttachment[]
+): DeliveryMessage => ({
+  to,
+  // Header values cannot span lines.
+  subject: renderTemplate(settings.subject, row, columns)
+    .replace(/[\r\n]+/g, " ")
+    .trim(),
+  text: renderTemplate(settings.body, row, columns),
+  attachments,
+});
+
+export const attachmentFor = (
+  filename: string,
+  bytes: Uint8Array,
+  format: "png" | "pdf"
+): EmailAttachment => ({
+  filename,
+  contentType: format === "pdf" ? "application/pdf" : "image/png",
+  content: toBase64(bytes),
+});
+
+const encoder = new TextEncoder();
+
+const wrapBase64 = (value: string) => value.match(/.{1,76}/g)?.join("\r\n") ?? "";
+
+/** RFC 2047 encoded-word for non-ASCII header text, split so each word stays short. */
+const encodeHeader = (value: string) => {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (encoder.encode(chunk + char).length > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map((word) => `=?UTF-8?B?${toBase64(encoder.encode(word))}?=`).join("\r\n ");
+};
+
+const randomBoundary = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  return `nucleus-${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+};
+
+/** A complete RFC 5322 message, as an SMTP server would receive it. */
+export const buildEml = (message: DeliveryMessage, from: string, date = new Date()) => {
+  const boundary = randomBoundary();
+  const attachmentParts = message.attachments.flatMap((attachment) => {
+    const filename = attachment.filename.replace(/[^\x20-\x7e]|"/g, "_");
+    return [
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      wrapBase64(attachment.content),
+    ];
+  });
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(toBase64(encoder.encode(message.text))),
+    ...attachmentParts,
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+};
+
+/**
+ * Spaces out callers so at most `perMinute` go through per minute.
+ * Concurrent callers queue up in call order.
+ */
+export const createRateLimiter = (perMinute: number) => {
+  const interval = 60_000 / Math.max(RATE_PER_MINUTE_MIN, perMinute);
+  let next = 0;
+  return {
+    wait: async () => {
+      const now = Date.now();
+      const slot = Math.max(now, next);
+      next = slot + interval;
+      if (slot > now) await new Promise((resolve) => setTimeout(resolve, slot - now));
+    },
+  };
+};
+
+const REPORT_COLUMNS: (keyof DeliveryResult)[] = ["name", "email", "status", "attempts", "error"];
+
+export const deliveryReportToCsv = (results: DeliveryResult[]) =>
+  [
+    REPORT_COLUMNS,
+    ...results.map((result) => REPORT_COLUMNS.map((column) => String(result[column] ?? ""))),
+  ]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n") + "\r\n";
@@ -0,0 +1,206 @@
+import { dataUrlBytes } from "./files";
+import {
+  certificatesPerSheet,
+  describePrintFit,
+  printLayout,
+  printScale,
+  type PrintLayout,
+  type PrintOptions,
+} from "./imposition";
+import { isTextLayer, layerImageUrl, resolveLayerText, type Layer } from "./layers";
+import { pagePlacement, type OutputFormat, type PagePlacement, type PdfOptions } from "./pdf";
+import { drawCertificate, encodeCertificate, fontSpecFor, type Canvas2D } from "./render";
+import {
+  applyVariantColor,
+  createVariantMatcher,
+  type Variant,
+  type VariantSettings,
+} from "./variants";
+
+/**
+ * Everything environment-specific about rendering: where canvases come
+ * from, how images are decoded, and how fonts get loaded. The browser page,
+ * the render worker, and the Node CLI each provide one.
+ */
+export type RenderBackend = {
+  createSurface: (width: number, height: number) => RenderSurface;
+  decodeImage: (bytes: Uint8Array) => Promise<CanvasImageSource>;
+  /** Resolves once glyphs for `text` in `fontSpec` can be drawn. */
+  prepareFont?: (fontSpec: string, text: string) => Promise<void>;
+};
+
+export type RenderSurface = {
+  ctx: Canvas2D;
+  toPng: () => Promise<Uint8Array>;
+};
+
+export type RenderPage = {
+  templateSize: { width: number; height: number };
+  layers: Layer[];
+  placement: PagePlacement;
+  /** Factor applied to template pixels, from the PDF page placement or print layout. */
+  scale: number;
+};
+
+export type RenderConfig = {
+  /** Every page of the design; each recipient gets all of them, in order. */
+  pages: RenderPage[];
+  /** Header labels of the sheet the rows come from. */
+  columns: string[];
+  format: "png" | "pdf";
+  /** Sheet layout for print output, whose PNG pages the caller imposes; null otherwise. */
+  imposition: PrintLayout | null;
+  /** Origin QR layers link to; empty encodes the bare certificate ID. */
+  verifyBaseUrl: string;
+  /** Variant rules; their templates, which replace the first page's, are passed separately. */
+  variants: Pick<Variant, "name" | "when" | "color">[];
+};
+
+type DesignPageSource = { templateSize: { width: number; height: number }; layers: Layer[] };
+
+type DesignSource = DesignPageSource & {
+  pages: DesignPageSource[];
+  output: { format: OutputFormat; pdf: PdfOptions; print: PrintOptions };
+  certificateIds: { verifyBaseUrl: string };
+  variants: VariantSettings;
+};
+
+/**
+ * Render settings for a project; merged and print PDFs render PNG pages and
+ * are assembled by the caller. Throws when print sheets hold no certificate.
+ */
+export const renderConfigFromDesign = (design: DesignSource, columns: string[]): RenderConfig => {
+  const { format, pdf, print } = design.output;
+  const imposition = format === "pdf-print" ? printLayout(design.templateSize, print) : null;
+  if (imposition && !certificatesPerSheet(imposition)) {
+    throw new Error(describePrintFit(print, imposition));
+  }
+  const pages = [design, ...design.pages].map(({ templateSize, layers }): RenderPage => {
+    const placement = pagePlacement(templateSize, pdf);
+    return {
+      templateSize,
+      layers,
+      placement,
+      scale:
+        format === "png" ? 1 : imposition ? printScale(imposition, templateSize) : placement.scale,
+    };
+  });
+  return {
+    pages,
+    columns,
+    format: format === "pdf" ? "pdf" : "png",
+    imposition,
+    verifyBaseUrl: design.certificateIds.verifyBaseUrl,
+    variants: design.variants.rules.map(({ name, when, color }) => ({ name, when, color })),
+  };
+};
+
+/** Files each recipient gets: one PNG per page, or a single PDF. */
+export const filesPerRecipient = (config: RenderConfig) =>
+  config.format === "png" ? config.pages.length : 1;
+
+/**
+ * `templates` holds one image per page and `variantTemplates` lines up
+ * with `config.variants`; a missing variant entry keeps the first page's
+ * template. Variant colors apply to every page.
+ */
+export const createCertificateRenderer = async (
+  backend: RenderBackend,
+  config: RenderConfig,
+  templates: Uint8Array[],
+  variantTemplates: (Uint8Array | null)[] = []
+) => {
+  const layers = config.pages.flatMap((page) => page.layers);
+  const pageTemplates = await Promise.all(templates.map((bytes) => backend.decodeImage(bytes)));
+  const decodeLayerImage = (layerId: string, bytes: Uint8Array) =>
+    backend.decodeImage(bytes).then(
+      (image) => [layerId, image] as const,
+      () => {
+        const label = layers.find((layer) => layer.id === layerId)?.label || "Untitled";
+        throw new Error(`The image for layer "${label}" could not be read.`);
+      }
+    );
+  const staticImages = new Map(
+    await Promise.all(
+      layers.flatMap((layer) => {
+        const url = layerImageUrl(layer);
+        return url ? [decodeLayerImage(layer.id, dataUrlBytes(url))] : [];
+      })
+    )
+  );
+  const matchVariant = createVariantMatcher(config.variants, config.columns);
+  const variants = await Promise.all(
+    config.variants.map(async (variant, index) => {
+      const bytes = variantTemplates[index];
+      return {
+        template: bytes ? await backend.decodeImage(bytes) : pageTemplates[0],
+        pages: config.pages.map((page) => applyVariantColor(page.layers, variant.color)),
+      };
+    })
+  );
+  const surfaces = config.pages.map((page) => {
+    const surface = backend.createSurface(
+      Math.round(page.templateSize.width * page.scale),
+      Math.round(page.templateSize.height * page.scale)
+    );
+    surface.ctx.setTransform(page.scale, 0, 0, page.scale, 0, 0);
+    return surface;
+  });
+
+  /** One PNG per page. `images` holds the row's per-recipient photos, keyed by layer ID. */
+  const renderPages = async (row: string[], images: Record<string, Uint8Array> = {}) => {
+    const variant = variants[matchVariant(row)] ?? {
+      template: pageTemplates[0],
+      pages: config.pages.map((page) => page.layers),
+    };
+    if (backend.prepareFont) {
+      await Promise.all(
+        layers.filter(isTextLayer).map((layer) => {
+          const text = resolveLayerText(layer, row, config.columns) || " ";
+          return backend.prepareFont?.(fontSpecFor(layer, layer.fontSize, text), text);
+        })
+      );
+    }
+    const photos = await Promise.all(
+      Object.entries(images).map(([layerId, bytes]) => decodeLayerImage(layerId, bytes))
+    );
+    const pageImages = new Map([...staticImages, ...photos]);
+    const pngs: Uint8Array[] = [];
+    for (const [index, page] of config.pages.entries()) {
+      drawCertificate(
+        surfaces[index].ctx,
+        index === 0 ? variant.template : pageTemplates[index],
+        variant.pages[index],
+        row,
+        config.columns,
+        page.templateSize,
+        config.verifyBaseUrl,
+        pageImages
+      );
+      pngs.push(await surfaces[index].toPng());
+    }
+    // Bitmaps hold decoded pixels until closed; photos are only needed for this row.
+    photos.forEach(([, image]) => (image as Partial<ImageBitmap>).close?.());
+    return pngs;
+  };
+
+  return {
+    renderPages,
+    /** Renders one row into the configured format: a PNG per page, or one PDF with every page. */
+    render: async (
+      row: string[],
+      title: string,
+      signature?: string,
+      images?: Record<string, Uint8Array>
+    ) =>
+      encodeCertificate(
+        await renderPages(row, images),
+        config.format,
+        config.pages.map((page) => page.placement),
+        title,
+        signature
+      ),
+  };
+};
+
+export type CertificateRenderer = Awaited<ReturnType<typeof createCertificateRenderer>>;
@@ -0,0 +1,37 @@
+/** File-name-safe slug that keeps letters of every script, e.g. `राहुल-शर्मा` or `łukasz-żółć`. */
+export const toSlug = (value: string) =>
+  value
+    .normalize("NFC")
+    .replace(/[^\p{L}\p{M}\p{N}_\s-]/gu, "")
+    .trim()
+    .replace(/[\s-]+/g, "-")
+    .replace(/^[-_]+|[-_]+$/g, "")
+    .toLowerCase();
+
+/** Like toSlug, numbering values with nothing usable, e.g. `certificate-3`. */
+export const slugify = (value: string, fallbackIndex: number) =>
+  toSlug(value) || `certificate-${fallbackIndex + 1}`;
+
+/** Standard base64 that works the same in browsers, workers, and Node. */
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+/** Bytes of a base64 `data:` URL, e.g. an embedded template or image. */
+export const dataUrlBytes = (dataUrl: string) =>
+  fromBase64(dataUrl.slice(dataUrl.indexOf(",") + 1));
+
+/**
+ * Quotes a CSV cell when it contains separators, quotes, or line breaks.
+ * Cells from uploaded sheets that a spreadsheet app would run as a formula
+ * (starting with `=`, `+`, `-`, `@`, tab, or CR) get a leading `'`.
+ */
+export const csvCell = (value: string) => {
+  const cell = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
@@ -0,0 +1,91 @@
+import { FALLBACK_FONTS, getFontOption, primaryFamily, type CustomFont } from "./fonts";
+import { coverageFromRanges, parseUnicodeRange, readCmap, type Coverage } from "./glyphs";
+
+/** A web font face that can be registered outside the document, e.g. in a worker. */
+export type FontSource = {
+  family: string;
+  src: string;
+  weight?: string;
+  style?: string;
+  unicodeRange?: string;
+};
+
+const FONT_FACE_PATTERN = /@font-face\s*\{([^}]*)\}/g;
+
+const readDescriptor = (block: string, name: string) =>
+  new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`, "i").exec(block)?.[1].trim();
+
+const absolutizeUrls = (src: string, base: string) =>
+  src.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (_, quote: string, url: string) =>
+    `url(${quote}${new URL(url, base).href}${quote})`
+  );
+
+export const parseFontFaces = (css: string, base: string): FontSource[] =>
+  [...css.matchAll(FONT_FACE_PATTERN)].flatMap(([, block]) => {
+    const family = readDescriptor(block, "font-family")?.replace(/^['"]|['"]$/g, "");
+    const src = readDescriptor(block, "src");
+    if (!family || !src) return [];
+    return [
+      {
+        family,
+        src: absolutizeUrls(src, base),
+        weight: readDescriptor(block, "font-weight"),
+        style: readDescriptor(block, "font-style"),
+        unicodeRange: readDescriptor(block, "unicode-range"),
+      },
+    ];
+  });
+
+/** The @font-face rules of the page's own stylesheets, where the built-in fonts are self-hosted. */
+const documentFontFaces = () =>
+  [...document.styleSheets].flatMap((sheet) => {
+    try {
+      return [...sheet.cssRules]
+        .filter((rule) => rule instanceof CSSFontFaceRule)
+        .flatMap((rule) => parseFontFaces(rule.cssText, sheet.href ?? document.baseURI));
+    } catch {
+      // Rules of cross-origin stylesheets are not readable.
+      return [];
+    }
+  });
+
+export const customFontSources = (fonts: CustomFont[]): FontSource[] =>
+  fonts.map((font) => ({ family: font.family, src: `url(${font.dataUrl})` }));
+
+/**
+ * Looks up the font faces for the given fonts, plus the script fallbacks,
+ * so they can be loaded where `document.fonts` is unavailable. Families
+ * that cannot be resolved are simply missing from the result.
+ */
+export const resolveFontSources = (fontKeys: string[], customFonts: CustomFont[]) => {
+  const families = new Set([
+    ...fontKeys.map((key) => primaryFamily(getFontOption(key))),
+    ...FALLBACK_FONTS.map((font) => font.family),
+  ]);
+  return [...documentFontFaces(), ...customFontSources(customFonts)].filter((source) =>
+    families.has(source.family)
+  );
+};
+
+/**
+ * What a family can draw: the union of its faces' unicode-range, or the
+ * cmap of its font file. Null when that cannot be told, e.g. for WOFF2
+ * uploads or families the page does not load.
+ */
+export const loadFontCoverage = async (
+  family: string,
+  customFonts: CustomFont[]
+): Promise<Coverage | null> => {
+  const faces = [...documentFontFaces(), ...customFontSources(customFonts)].filter(
+    (source) => source.family === family
+  );
+  if (!faces.length) return null;
+  if (faces.every((face) => face.unicodeRange)) {
+    return coverageFromRanges(faces.flatMap((face) => parseUnicodeRange(face.unicodeRange ?? "")));
+  }
+  const url = /url\(\s*['"]?([^'")]+)/.exec(faces[0].src)?.[1];
+  const response = url ? await fetch(url).catch(() => null) : null;
+  if (!response?.ok) return null;
+  const ranges = readCmap(new Uint8Array(await response.arrayBuffer()));
+  return ranges ? coverageFromRanges(ranges) : null;
+};
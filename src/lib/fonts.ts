@@ -0,0 +1,188 @@
+import { toBase64 } from "./files";
+
+export const FONT_OPTIONS = [
+  {
+    label: "Algerian",
+    value: "algerian",
+    fontFamily: '"Algerian", "Times New Roman", serif',
+  },
+  {
+    label: "Playfair Display",
+    value: "playfair-display",
+    fontFamily: '"Playfair Display", serif',
+  },
+  {
+    label: "Great Vibes",
+    value: "great-vibes",
+    fontFamily: '"Great Vibes", cursive',
+  },
+  {
+    label: "Cinzel",
+    value: "cinzel",
+    fontFamily: '"Cinzel", serif',
+  },
+  {
+    label: "Cormorant Garamond",
+    value: "cormorant-garamond",
+    fontFamily: '"Cormorant Garamond", serif',
+  },
+  {
+    label: "Pinyon Script",
+    value: "pinyon-script",
+    fontFamily: '"Pinyon Script", cursive',
+  },
+  {
+    label: "Sacramento",
+    value: "sacramento",
+    fontFamily: '"Sacramento", cursive',
+  },
+  {
+    label: "Montserrat",
+    value: "montserrat",
+    fontFamily: '"Montserrat", sans-serif',
+  },
+  {
+    label: "Raleway",
+    value: "raleway",
+    fontFamily: '"Raleway", sans-serif',
+  },
+  {
+    label: "Roboto Slab",
+    value: "roboto-slab",
+    fontFamily: '"Roboto Slab", serif',
+  },
+  {
+    label: "Tahoma",
+    value: "tahoma",
+    fontFamily: '"Tahoma", "Segoe UI", sans-serif',
+  },
+] as const;
+
+/** Layers using an uploaded font refer to it as `custom:<family>`. */
+export const CUSTOM_FONT_PREFIX = "custom:";
+
+export type FontValue =
+  | (typeof FONT_OPTIONS)[number]["value"]
+  | `${typeof CUSTOM_FONT_PREFIX}${string}`;
+export type FontOption = { label: string; value: FontValue; fontFamily: string };
+
+/** A font file uploaded by the user, stored in the project as a data URL. */
+export type CustomFont = {
+  family: string;
+  fileName: string;
+  dataUrl: string;
+};
+
+/** Font files shipped in `public/fonts`, with the family name the app knows them by. */
+export const BUNDLED_FONTS = [
+  { family: "Algerian", file: "algeria.ttf" },
+  { family: "Tahoma", file: "tahoma.ttf" },
+] as const;
+
+/**
+ * Built-in families self-hosted from their @fontsource packages, with the
+ * weights layout.tsx imports; keep the two lists in sync.
+ */
+export const FONTSOURCE_FONTS = [
+  { family: "Cinzel", id: "cinzel", weights: [400, 500, 600, 700] },
+  { family: "Cormorant Garamond", id: "cormorant-garamond", weights: [400, 500, 600, 700] },
+  { family: "Great Vibes", id: "great-vibes", weights: [400] },
+  { family: "Montserrat", id: "montserrat", weights: [500, 600, 700] },
+  { family: "Playfair Display", id: "playfair-display", weights: [600, 700] },
+  { family: "Pinyon Script", id: "pinyon-script", weights: [400] },
+  { family: "Raleway", id: "raleway", weights: [500, 600, 700] },
+  { family: "Roboto Slab", id: "roboto-slab", weights: [500, 600, 700] },
+  { family: "Sacramento", id: "sacramento", weights: [400] },
+] as const;
+
+/**
+ * Fallback families for names in other scripts (see scripts.ts), also
+ * self-hosted from @fontsource. Node can register one file per family, so
+ * `subset` names the one it uses; Noto Sans SC only ships in chunks the
+ * browser picks by unicode-range, so Node needs a CJK font passed in.
+ */
+export const FALLBACK_FONTS = [
+  { family: "Noto Sans", id: "noto-sans", subset: "latin-ext" },
+  { family: "Noto Sans Arabic", id: "noto-sans-arabic", subset: "arabic" },
+  { family: "Noto Sans Hebrew", id: "noto-sans-hebrew", subset: "hebrew" },
+  { family: "Noto Sans Devanagari", id: "noto-sans-devanagari", subset: "devanagari" },
+  { family: "Noto Sans SC", id: "noto-sans-sc", subset: null },
+] as const;
+
+/** Leading bytes of the font formats users may upload, with the MIME type to store them under. */
+const FONT_SIGNATURES = [
+  { magic: [0x00, 0x01, 0x00, 0x00], type: "font/ttf" },
+  { magic: [0x74, 0x72, 0x75, 0x65], type: "font/ttf" },
+  { magic: [0x4f, 0x54, 0x54, 0x4f], type: "font/otf" },
+  { magic: [0x77, 0x4f, 0x46, 0x32], type: "font/woff2" },
+  { magic: [0x77, 0x4f, 0x46, 0x46], type: "font/woff" },
+];
+
+export const FONT_FILE_ACCEPT = ".ttf,.otf,.woff2,.woff";
+
+export const FONT_SIZE_MIN = 10;
+export const FONT_SIZE_MAX = 240;
+
+export const customFontKey = (family: string): FontValue => `${CUSTOM_FONT_PREFIX}${family}`;
+
+export const isFontValue = (value: unknown): value is FontValue =>
+  typeof value === "string" &&
+  (FONT_OPTIONS.some((option) => option.value === value) ||
+    (value.startsWith(CUSTOM_FONT_PREFIX) && value.length > CUSTOM_FONT_PREFIX.length));
+
+export const getFontOption = (value: string): FontOption => {
+  if (value.startsWith(CUSTOM_FONT_PREFIX) && value.length > CUSTOM_FONT_PREFIX.length) {
+    const family = value.slice(CUSTOM_FONT_PREFIX.length);
+    return { label: family, value: value as FontValue, fontFamily: `"${family}", serif` };
+  }
+  return FONT_OPTIONS.find((option) => option.value === value) ?? FONT_OPTIONS[0];
+};
+
+/** First family in an option's CSS stack, e.g. `Playfair Display`. */
+export const primaryFamily = (option: FontOption) =>
+  /^"([^"]+)"/.exec(option.fontFamily)?.[1] ?? option.label;
+
+/** MIME type of a TTF, OTF, WOFF2, or WOFF file, or null for anything else. */
+export const fontFileType = (bytes: Uint8Array) =>
+  FONT_SIGNATURES.find(({ magic }) => magic.every((byte, index) => bytes[index] === byte))?.type ??
+  null;
+
+/** Family name for an uploaded file, e.g. `Brand Sans` for `Brand_Sans.woff2`. */
+export const fontFamilyFromFileName = (fileName: string) =>
+  fileName
+    .replace(/\.\w+$/, "")
+    .replace(/[_"\\]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim() || "Custom font";
+
+/** Start of the family names Node registers uploads under; see `withProjectFonts`. */
+export const UPLOAD_FAMILY_PREFIX = "Nucleus upload ";
+
+const GENERIC_FAMILIES = ["serif", "sans-serif", "monospace", "cursive", "fantasy", "system-ui"];
+
+/**
+ * Families uploads may not reuse: the built-in and fallback fonts, CSS
+ * generic families, and the aliases uploads are registered under.
+ */
+export const isBuiltInFamily = (family: string) => {
+  const name = family.trim().toLowerCase();
+  return (
+    FONT_OPTIONS.some((option) => primaryFamily(option).toLowerCase() === name) ||
+    FALLBACK_FONTS.some((font) => font.family.toLowerCase() === name) ||
+    GENERIC_FAMILIES.includes(name) ||
+    name.startsWith(UPLOAD_FAMILY_PREFIX.toLowerCase())
+  );
+};
+
+/** Checks an uploaded font file and names it after the file. Throws readable errors. */
+export const createCustomFont = (fileName: string, bytes: Uint8Array): CustomFont => {
+  const type = fontFileType(bytes);
+  if (!type) {
+    throw new Error(`${fileName} is not a TTF, OTF, or WOFF2 font file.`);
+  }
+  const family = fontFamilyFromFileName(fileName);
+  if (isBuiltInFamily(family)) {
+    throw new Error(`"${family}" is already a built-in font. Rename the file to upload your own.`);
+  }
+  return { family, fileName, dataUrl: `data:${type};base64,${toBase64(bytes)}` };
+};
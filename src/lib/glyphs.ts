@@ -0,0 +1,155 @@
+/**
+ * Which characters a font can draw, so the preview can flag names that
+ * would come out in a fallback font or as empty boxes. Coverage comes from
+ * a web font's `unicode-range` or from the cmap table of a TTF/OTF file.
+ */
+
+/** Inclusive code point ranges. */
+export type CodeRanges = [number, number][];
+
+/** Tells whether a font has a glyph for a code point. */
+export type Coverage = (codePoint: number) => boolean;
+
+export type GlyphGap = {
+  /** Positions of the texts that use characters the font lacks. */
+  texts: number[];
+  /** Fallback families that draw the missing characters instead. */
+  fallbacks: string[];
+  /** Missing characters no available font has; these print as empty boxes. */
+  uncovered: string[];
+  /** Every missing character, in order of first use. */
+  characters: string[];
+};
+
+const SFNT_VERSIONS = new Set([0x00010000, 0x74727565, 0x4f54544f]);
+
+/** Characters nobody expects a glyph for. */
+const INVISIBLE = /[\s\p{Cc}\p{Cf}]/u;
+
+const hex = (value: string) => parseInt(value, 16);
+
+/** Parses a CSS `unicode-range` such as `U+0000-00FF, U+0131, U+4??`. */
+export const parseUnicodeRange = (value: string): CodeRanges =>
+  value.split(",").flatMap((part): CodeRanges => {
+    const range = part.trim().replace(/^u\+/i, "");
+    if (!/^[0-9a-f?]+(-[0-9a-f]+)?$/i.test(range)) return [];
+    if (range.includes("?")) {
+      return [[hex(range.replace(/\?/g, "0")), hex(range.replace(/\?/g, "f"))]];
+    }
+    const [start, end = start] = range.split("-");
+    return [[hex(start), hex(end)]];
+  });
+
+const readFormat4 = (view: DataView, offset: number): CodeRanges => {
+  const segCount = view.getUint16(offset + 6) / 2;
+  const ranges: CodeRanges = [];
+  for (let index = 0; index < segCount; index++) {
+    const end = view.getUint16(offset + 14 + index * 2);
+    const start = view.getUint16(offset + 16 + segCount * 2 + index * 2);
+    if (start !== 0xffff) ranges.push([start, end]);
+  }
+  return ranges;
+};
+
+const readFormat12 = (view: DataView, offset: number): CodeRanges => {
+  const groups = view.getUint32(offset + 12);
+  const ranges: CodeRanges = [];
+  for (let index = 0; index < groups; index++) {
+    const group = offset + 16 + index * 12;
+    ranges.push([view.getUint32(group), view.getUint32(group + 4)]);
+  }
+  return ranges;
+};
+
+/**
+ * Mapped code points from the cmap table of a TTF or OTF file. Returns null
+ * for compressed (WOFF, WOFF2), collection, or malformed files.
+ */
+export const readCmap = (bytes: Uint8Array): CodeRanges | null => {
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (!SFNT_VERSIONS.has(view.getUint32(0))) return null;
+
+    let cmap = -1;
+    for (let index = 0; index < view.getUint16(4); index++) {
+      const record = 12 + index * 16;
+      if (view.getUint32(record) === 0x636d6170) cmap = view.getUint32(record + 8);
+    }
+    if (cmap < 0) return null;
+
+    // Prefer full-repertoire (format 12) subtables over BMP-only ones.
+    const subtables = Array.from({ length: view.getUint16(cmap + 2) }, (_, index) => {
+      const record = cmap + 4 + index * 8;
+      const offset = cmap + view.getUint32(record + 4);
+      return { platform: view.getUint16(record), format: view.getUint16(offset), offset };
+    }).filter((table) => table.platform === 0 || table.platform === 3);
+    const full = subtables.find((table) => table.format === 12);
+    if (full) return readFormat12(view, full.offset);
+    const bmp = subtables.find((table) => table.format === 4);
+    return bmp ? readFormat4(view, bmp.offset) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const coverageFromRanges = (ranges: CodeRanges): Coverage => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  return (codePoint) => {
+    let low = 0;
+    let high = sorted.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (codePoint < sorted[mid][0]) high = mid - 1;
+      else if (codePoint > sorted[mid][1]) low = mid + 1;
+      else return true;
+    }
+    return false;
+  };
+};
+
+/**
+ * Finds characters of `texts` that `covers` lacks. `fallbackFor` names the
+ * family that draws a missing character instead, or null when none does.
+ */
+export const findGlyphGap = (
+  texts: string[],
+  covers: Coverage,
+  fallbackFor: (char: string) => string | null
+): GlyphGap => {
+  const gap: GlyphGap = { texts: [], fallbacks: [], uncovered: [], characters: [] };
+  const seen = new Set<string>();
+  texts.forEach((text, position) => {
+    let missing = false;
+    for (const char of text) {
+      if (INVISIBLE.test(char) || covers(char.codePointAt(0) ?? 0)) continue;
+      missing = true;
+      if (seen.has(char)) continue;
+      seen.add(char);
+      gap.characters.push(char);
+      const fallback = fallbackFor(char);
+      if (!fallback) gap.uncovered.push(char);
+      else if (!gap.fallbacks.includes(fallback)) gap.fallbacks.push(fallback);
+    }
+    if (missing) gap.texts.push(position);
+  });
+  return gap;
+};
+
+const listSample = (items: string[], limit: number, separator = ", ") =>
+  items.length > limit
+    ? `${items.slice(0, limit).join(separator)} and ${items.length - limit} more`
+    : items.join(separator);
+
+/** E.g. `राहुल and 2 more use characters Cinzel lacks (र ह); they are drawn with Noto Sans Devanagari.` */
+export const describeGlyphGap = (family: string, gap: GlyphGap, labels: string[]) => {
+  const who = listSample(
+    gap.texts.map((position) => labels[position]),
+    3
+  );
+  const verb = gap.texts.length === 1 ? "uses" : "use";
+  const what = `${who} ${verb} characters ${family} lacks (${listSample(gap.characters, 8, " ")})`;
+  if (gap.uncovered.length) {
+    return `${what}; no available font has ${listSample(gap.uncovered, 8, " ")}, so they would print as empty boxes.`;
+  }
+  return `${what}; they are drawn with ${gap.fallbacks.join(", ")}.`;
+};
@@ -0,0 +1,137 @@
+/**
+ * Row search, filter expressions, and duplicate detection for the data
+ * grid. Filters narrow what the grid shows; which rows are generated is
+ * decided by the include checkboxes.
+ */
+
+export type RowPredicate = (row: string[]) => boolean;
+
+type Operator = "=" | "!=" | "~" | "!~" | ">" | ">=" | "<" | "<=";
+
+const QUOTED = /^"((?:[^"]|"")*)"$/;
+const CLAUSE = /^("(?:[^"]|"")*"|.+?)\s*(!=|!~|>=|<=|=|~|>|<)\s*(.*)$/;
+
+const unquote = (value: string) => {
+  const match = value.trim().match(QUOTED);
+  return match ? match[1].replace(/""/g, '"') : value.trim();
+};
+
+/** Splits on a keyword outside quotes, e.g. `or` around `City = "Bath or Wells"`. */
+const splitOutsideQuotes = (expression: string, keyword: string) => {
+  const parts: string[] = [];
+  const pattern = new RegExp(`^\\s+${keyword}\\s+`, "i");
+  let quoted = false;
+  let start = 0;
+  for (let index = 0; index < expression.length; index++) {
+    if (expression[index] === '"') quoted = !quoted;
+    if (quoted) continue;
+    const match = expression.slice(index).match(pattern);
+    if (match) {
+      parts.push(expression.slice(start, index));
+      index += match[0].length - 1;
+      start = index + 1;
+    }
+  }
+  parts.push(expression.slice(start));
+  return parts;
+};
+
+const asNumber = (value: string) => {
+  const trimmed = value.trim();
+  return trimmed && Number.isFinite(Number(trimmed)) ? Number(trimmed) : null;
+};
+
+/** Numbers compare as numbers, everything else as case-insensitive text. */
+const compare = (cell: string, value: string) => {
+  const [a, b] = [asNumber(cell), asNumber(value)];
+  if (a !== null && b !== null) return a - b;
+  return cell.trim().localeCompare(value, undefined, { sensitivity: "base", numeric: true });
+};
+
+const test = (operator: Operator, cell: string, value: string) => {
+  const contains = cell.toLowerCase().includes(value.toLowerCase());
+  switch (operator) {
+    case "=":
+      return compare(cell, value) === 0;
+    case "!=":
+      return compare(cell, value) !== 0;
+    case "~":
+      return contains;
+    case "!~":
+      return !contains;
+    case ">":
+      return compare(cell, value) > 0;
+    case ">=":
+      return compare(cell, value) >= 0;
+    case "<":
+      return compare(cell, value) < 0;
+    case "<=":
+      return compare(cell, value) <= 0;
+  }
+};
+
+const findColumnIndex = (name: string, columns: string[]) => {
+  const wanted = name.trim().toLowerCase();
+  const index = columns.findIndex((label) => label.trim().toLowerCase() === wanted);
+  if (index >= 0) return index;
+  const numbered = wanted.match(/^column (\d+)$/);
+  return numbered && Number(numbered[1]) <= columns.length ? Number(numbered[1]) - 1 : -1;
+};
+
+const parseClause = (clause: string, columns: string[]): RowPredicate => {
+  const match = clause.trim().match(CLAUSE);
+  if (!match) {
+    throw new Error(`Cannot read "${clause.trim()}". Write it as Column = value.`);
+  }
+  const [, columnName, operator, rawValue] = match;
+  const column = findColumnIndex(unquote(columnName), columns);
+  if (column < 0) {
+    throw new Error(`Unknown column "${unquote(columnName)}".`);
+  }
+  const value = unquote(rawValue);
+  return (row) => test(operator as Operator, row[column] ?? "", value);
+};
+
+/**
+ * Compiles a filter such as `City = Paris and Score >= 80 or Email ~ @example.org`.
+ * Operators: `=`, `!=`, `~` (contains), `!~`, `>`, `>=`, `<`, `<=`; `and`
+ * binds tighter than `or`. Quote column names or values that contain
+ * spaces around keywords or operators; `= ""` matches empty cells. Throws
+ * readable errors for malformed expressions.
+ */
+export const parseRowFilter = (expression: string, columns: string[]): RowPredicate => {
+  if (!expression.trim()) return () => true;
+  const alternatives = splitOutsideQuotes(expression, "or").map((alternative) =>
+    splitOutsideQuotes(alternative, "and").map((clause) => parseClause(clause, columns))
+  );
+  return (row) => alternatives.some((clauses) => clauses.every((predicate) => predicate(row)));
+};
+
+/** Rows with a cell containing every word of the query, case-insensitively. */
+export const matchesSearch = (row: string[], query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = row.join("\n").toLowerCase();
+  return words.every((word) => text.includes(word));
+};
+
+const duplicateKey = (value: string) =>
+  value.normalize("NFKC").trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Maps each row index that repeats an earlier row's value in any of the
+ * key columns (e.g. the name or the email address) to that earlier row.
+ */
+export const findDuplicateRows = (rows: string[][], indices: number[], keyColumns: number[]) => {
+  const duplicates = new Map<number, number>();
+  for (const column of keyColumns) {
+    const first = new Map<string, number>();
+    for (const index of indices) {
+      const key = duplicateKey(rows[index][column] ?? "");
+      if (!key) continue;
+      const earlier = first.get(key);
+      if (earlier === undefined) first.set(key, index);
+      else if (!duplicates.has(index)) duplicates.set(index, earlier);
+    }
+  }
+  return duplicates;
+};
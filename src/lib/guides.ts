@@ -0,0 +1,46 @@
+/**
+ * Snapping and rulers for placing layers in the preview. Points are relative
+ * to the template (0–1) like layer positions; rulers count template pixels.
+ */
+
+type Point = { x: number; y: number };
+
+/** Lines a dragged layer snapped to, relative like positions; null on an axis that did not snap. */
+export type SnapGuides = { x: number | null; y: number | null };
+
+export const NO_GUIDES: SnapGuides = { x: null, y: null };
+
+/** How close, in screen pixels, a layer has to come to a guide to snap onto it. */
+export const SNAP_DISTANCE_PX = 6;
+
+/** Ruler steps in template pixels, smallest first. */
+const RULER_STEPS = [10, 25, 50, 100, 250, 500, 1000];
+
+const nearest = (value: number, targets: number[], tolerance: number) =>
+  targets.reduce<number | null>(
+    (best, target) =>
+      Math.abs(target - value) <= tolerance &&
+      (best === null || Math.abs(target - value) < Math.abs(best - value))
+        ? target
+        : best,
+    null
+  );
+
+/**
+ * Snaps a dragged anchor to the template's centre lines and to the anchors
+ * of the other layers, each axis on its own. `tolerance` is relative to the
+ * template on each axis.
+ */
+export const snapPoint = (point: Point, anchors: Point[], tolerance: Point) => {
+  const x = nearest(point.x, [0.5, ...anchors.map((anchor) => anchor.x)], tolerance.x);
+  const y = nearest(point.y, [0.5, ...anchors.map((anchor) => anchor.y)], tolerance.y);
+  return { point: { x: x ?? point.x, y: y ?? point.y }, guides: { x, y } };
+};
+
+/** Smallest step that keeps labelled ticks at least `minGap` screen pixels apart at `scale`. */
+export const rulerStep = (scale: number, minGap = 60) =>
+  RULER_STEPS.find((step) => step * scale >= minGap) ?? RULER_STEPS[RULER_STEPS.length - 1];
+
+/** Tick positions in template pixels from 0 to `length`. */
+export const rulerTicks = (length: number, step: number) =>
+  Array.from({ length: Math.floor(length / step) + 1 }, (_, index) => index * step);
@@ -0,0 +1,40 @@
+/**
+ * Undo and redo over snapshots of the design. Snapshots are kept by
+ * reference, so unchanged pages and layers are shared between them.
+ */
+
+export type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+};
+
+/** Undo steps kept; older ones are dropped first. */
+const HISTORY_LIMIT = 100;
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+/** Makes `next` the present; anything that could be redone is dropped. */
+export const recordHistory = <T>(history: History<T>, next: T): History<T> => ({
+  past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+  present: next,
+  future: [],
+});
+
+export const undoHistory = <T>(history: History<T>): History<T> =>
+  history.past.length
+    ? {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+      }
+    : history;
+
+export const redoHistory = <T>(history: History<T>): History<T> =>
+  history.future.length
+    ? {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+      }
+    : history;
@@ -0,0 +1,135 @@
+import JSZip from "jszip";
+import { toBase64 } from "./files";
+import { isImageLayer, type ImageLayer, type ImageSource, type Layer } from "./layers";
+
+/**
+ * Images for image layers: static ones are embedded in the project, while
+ * per-recipient photos come from a folder or ZIP the user drops in and are
+ * matched by the file name in a sheet column.
+ */
+
+/** Dropped-in photos keyed by imageKey; never saved with the project. */
+export type ImageLibrary = Map<string, Uint8Array>;
+
+/** An embedded image; also what a text layer's pattern fill is made from. */
+type StaticImage = Extract<ImageSource, { kind: "static" }>;
+
+export type MissingImages = {
+  layer: ImageLayer;
+  /** Recipient positions and the file name each one asked for ("" for a blank cell). */
+  rows: { position: number; file: string }[];
+};
+
+/** Leading bytes of the raster formats every backend decodes, with their MIME types. */
+const IMAGE_SIGNATURES = [
+  { magic: [0x89, 0x50, 0x4e, 0x47], type: "image/png" },
+  { magic: [0xff, 0xd8, 0xff], type: "image/jpeg" },
+  { magic: [0x47, 0x49, 0x46, 0x38], type: "image/gif" },
+];
+
+export const IMAGE_FILE_ACCEPT = "image/png,image/jpeg,image/webp,image/gif";
+
+/** Extensions tried for cells that name a photo without one, e.g. `S1024`. */
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp", ".gif"];
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+export const imageFileType = (bytes: Uint8Array) => {
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+  return (
+    IMAGE_SIGNATURES.find(({ magic }) => magic.every((byte, index) => bytes[index] === byte))
+      ?.type ?? null
+  );
+};
+
+/** Lookup key for a file name or cell value: no folders, case-insensitive. */
+export const imageKey = (fileName: string) =>
+  (fileName.split(/[\\/]/).pop() ?? "").trim().normalize("NFC").toLowerCase();
+
+/**
+ * Adds a file to the library when it is an image. Returns false for other
+ * files, including the `._` resource forks macOS puts in ZIPs.
+ */
+export const addToImageLibrary = (library: ImageLibrary, fileName: string, bytes: Uint8Array) => {
+  const key = imageKey(fileName);
+  if (!key || key.startsWith("._") || !imageFileType(bytes)) return false;
+  library.set(key, bytes);
+  return true;
+};
+
+/** Every file in a ZIP, subfolders included, as [path, bytes] pairs. */
+export const readZipFiles = async (bytes: Uint8Array) => {
+  const zip = await JSZip.loadAsync(bytes).catch(() => {
+    throw new Error("This file is not a readable ZIP archive.");
+  });
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir);
+  return Promise.all(
+    entries.map(async (entry) => [entry.name, await entry.async("uint8array")] as const)
+  );
+};
+
+/** The photo a cell names; a cell without an extension matches any image extension. */
+export const findImage = (library: ImageLibrary, value: string) => {
+  const key = imageKey(value);
+  if (!key) return null;
+  const exact = library.get(key);
+  if (exact || /\.\w+$/.test(key)) return exact ?? null;
+  return IMAGE_EXTENSIONS.map((extension) => library.get(key + extension)).find(Boolean) ?? null;
+};
+
+const columnImageLayers = (layers: Layer[]) =>
+  layers.filter(
+    (layer): layer is ImageLayer & { source: { kind: "column" } } =>
+      isImageLayer(layer) && layer.source?.kind === "column"
+  );
+
+/** A row's photos keyed by layer ID; layers whose photo is missing are left out. */
+export const resolveRowImages = (layers: Layer[], row: string[], library: ImageLibrary) => {
+  const images: Record<string, Uint8Array> = {};
+  for (const layer of columnImageLayers(layers)) {
+    const bytes = findImage(library, row[layer.source.column] ?? "");
+    if (bytes) images[layer.id] = bytes;
+  }
+  return images;
+};
+
+/** Per-recipient image layers with the rows whose photo is not in the library. */
+export const findMissingImages = (
+  layers: Layer[],
+  rows: string[][],
+  library: ImageLibrary
+): MissingImages[] =>
+  columnImageLayers(layers).flatMap((layer) => {
+    const missing = rows.flatMap((row, position) => {
+      const file = (row[layer.source.column] ?? "").trim();
+      return file && findImage(library, file) ? [] : [{ position, file }];
+    });
+    return missing.length ? [{ layer, rows: missing }] : [];
+  });
+
+/** E.g. `2 files not found (s1024.jpg, s1031.jpg), 1 row without a file name.` */
+export const describeMissingImages = ({ rows }: MissingImages) => {
+  const files = rows.flatMap((row) => (row.file ? [row.file] : []));
+  const blank = rows.length - files.length;
+  const sample =
+    files.length > 3
+      ? `${files.slice(0, 3).join(", ")} and ${files.length - 3} more`
+      : files.join(", ");
+  const parts = [
+    files.length
+      ? `${files.length} file${files.length === 1 ? "" : "s"} not found (${sample})`
+      : "",
+    blank ? `${blank} row${blank === 1 ? "" : "s"} without a file name` : "",
+  ].filter(Boolean);
+  return `${parts.join(", ")}.`;
+};
+
+/** Embeds an uploaded logo or signature. Throws a readable error for non-image files. */
+export const createStaticImage = (fileName: string, bytes: Uint8Array): StaticImage => {
+  const type = imageFileType(bytes);
+  if (!type) {
+    throw new Error(`${fileName} is not a PNG, JPEG, WebP, or GIF image.`);
+  }
+  return { kind: "static", dataUrl: `data:${type};base64,${toBase64(bytes)}`, fileName };
+};
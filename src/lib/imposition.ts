@@ -0,0 +1,303 @@
+import {
+  clip,
+  cmyk,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  type PDFDocument,
+  type PDFPage,
+} from "pdf-lib";
+import type { RenderConfig } from "./engine";
+import { addRecipientPages, type Orientation } from "./pdf";
+
+/**
+ * Print-shop output: certificates cut to a set size from larger sheets,
+ * several to a sheet, with bleed and crop marks. Settings are in
+ * millimetres; layouts are in PDF points with the origin bottom left.
+ */
+
+export type SheetSize = "a4" | "a3" | "sra3" | "letter" | "tabloid";
+export type DuplexFlip = "long-edge" | "short-edge";
+
+export type PrintOptions = {
+  sheetSize: SheetSize;
+  orientation: Orientation;
+  /** Finished width of each certificate; the height follows the first page's proportions. */
+  trimWidth: number;
+  /** Image carried past every trim edge, so a cut that drifts leaves no white line. */
+  bleed: number;
+  /** Space between neighbouring certificates' bleed edges. */
+  gutter: number;
+  cropMarks: boolean;
+  /** Edge the printer turns sheets over on for double-sided designs; null prints one-sided. */
+  duplex: DuplexFlip | null;
+  /** Output pixels per printed inch. */
+  dpi: number;
+};
+
+export type PrintLayout = {
+  sheetWidth: number;
+  sheetHeight: number;
+  columns: number;
+  rows: number;
+  trimWidth: number;
+  trimHeight: number;
+  bleed: number;
+  gutter: number;
+  /** Outer corner of the grid of bleed boxes: its left and top edges. */
+  left: number;
+  top: number;
+  cropMarks: boolean;
+  duplex: DuplexFlip | null;
+  dpi: number;
+};
+
+export const SHEET_SIZE_OPTIONS: { label: string; value: SheetSize }[] = [
+  { label: "A4 (210 × 297 mm)", value: "a4" },
+  { label: "A3 (297 × 420 mm)", value: "a3" },
+  { label: "SRA3 (320 × 450 mm)", value: "sra3" },
+  { label: "Letter (8.5 × 11 in)", value: "letter" },
+  { label: "Tabloid (11 × 17 in)", value: "tabloid" },
+];
+
+export const PRINT_DPI_OPTIONS = [150, 300, 600] as const;
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+  sheetSize: "a3",
+  orientation: "portrait",
+  trimWidth: 270,
+  bleed: 3,
+  gutter: 0,
+  cropMarks: true,
+  duplex: null,
+  dpi: 300,
+};
+
+const POINTS_PER_INCH = 72;
+const POINTS_PER_MM = POINTS_PER_INCH / 25.4;
+
+/** Short and long edges of each sheet in millimetres. */
+const SHEET_MM: Record<SheetSize, [number, number]> = {
+  a4: [210, 297],
+  a3: [297, 420],
+  sra3: [320, 450],
+  letter: [215.9, 279.4],
+  tabloid: [279.4, 431.8],
+};
+
+/** Millimetre ranges for the print settings; no certificate is wider than the largest sheet. */
+export const PRINT_MM_LIMITS = {
+  trimWidth: { min: 10, max: Math.max(...Object.values(SHEET_MM).map(([, long]) => long)) },
+  bleed: { min: 0, max: 10 },
+  gutter: { min: 0, max: 50 },
+} as const;
+
+export const clampPrintMm = (field: keyof typeof PRINT_MM_LIMITS, value: number) =>
+  Math.min(PRINT_MM_LIMITS[field].max, Math.max(PRINT_MM_LIMITS[field].min, value));
+
+/** Crop marks start this far outside the bleed and run this long, in millimetres. */
+const CROP_MARK_OFFSET = 2;
+const CROP_MARK_LENGTH = 5;
+/** Hairline width of crop marks in points. */
+const CROP_MARK_WIDTH = 0.25;
+/** Printed on every plate, so marks show whichever separation is cut. */
+const REGISTRATION = cmyk(1, 1, 1, 1);
+
+/**
+ * How many certificates of the first page's proportions fit on a sheet,
+ * leaving room for crop marks around the grid. `columns` or `rows` is 0
+ * when even one does not fit.
+ */
+export const printLayout = (
+  templateSize: { width: number; height: number },
+  options: PrintOptions
+): PrintLayout => {
+  const [short, long] = SHEET_MM[options.sheetSize];
+  const sheetWidth = (options.orientation === "landscape" ? long : short) * POINTS_PER_MM;
+  const sheetHeight = (options.orientation === "landscape" ? short : long) * POINTS_PER_MM;
+  const trimWidth = options.trimWidth * POINTS_PER_MM;
+  const trimHeight = (trimWidth * templateSize.height) / templateSize.width;
+  const bleed = options.bleed * POINTS_PER_MM;
+  const gutter = options.gutter * POINTS_PER_MM;
+  const margin = options.cropMarks ? (CROP_MARK_OFFSET + CROP_MARK_LENGTH) * POINTS_PER_MM : 0;
+  // The small allowance keeps sizes that fit exactly from rounding down.
+  const fit = (space: number, cell: number) =>
+    Math.max(0, Math.floor((space - margin * 2 + gutter) / (cell + gutter) + 1e-9));
+  const columns = fit(sheetWidth, trimWidth + bleed * 2);
+  const rows = fit(sheetHeight, trimHeight + bleed * 2);
+  const gridWidth = columns * (trimWidth + bleed * 2 + gutter) - gutter;
+  const gridHeight = rows * (trimHeight + bleed * 2 + gutter) - gutter;
+
+  return {
+    sheetWidth,
+    sheetHeight,
+    columns,
+    rows,
+    trimWidth,
+    trimHeight,
+    bleed,
+    gutter,
+    left: (sheetWidth - gridWidth) / 2,
+    top: (sheetHeight + gridHeight) / 2,
+    cropMarks: options.cropMarks,
+    duplex: options.duplex,
+    dpi: options.dpi,
+  };
+};
+
+export const certificatesPerSheet = (layout: PrintLayout) => layout.columns * layout.rows;
+
+/** How many certificates a sheet holds and their size, or why none fit. */
+export const describePrintFit = (options: PrintOptions, layout: PrintLayout) => {
+  const perSheet = certificatesPerSheet(layout);
+  if (perSheet) {
+    return `${perSheet} per sheet (${layout.columns} × ${layout.rows}), cut to ${options.trimWidth} × ${Math.round(layout.trimHeight / POINTS_PER_MM)} mm.`;
+  }
+  const sheet = SHEET_SIZE_OPTIONS.find((option) => option.value === options.sheetSize);
+  return `A ${options.trimWidth} mm wide certificate with ${options.bleed} mm bleed${options.cropMarks ? " and crop marks" : ""} does not fit on a ${options.orientation} ${sheet?.label ?? options.sheetSize} sheet. Choose a bigger sheet or a narrower certificate.`;
+};
+
+/** Points per template pixel for an image that covers the bleed box. */
+const coverFactor = (layout: PrintLayout, templateSize: { width: number; height: number }) =>
+  Math.max(
+    (layout.trimWidth + layout.bleed * 2) / templateSize.width,
+    (layout.trimHeight + layout.bleed * 2) / templateSize.height
+  );
+
+/**
+ * Render scale for a page so its image covers the bleed box at the print
+ * DPI. Pages of other proportions are cropped to the box, centred.
+ */
+export const printScale = (layout: PrintLayout, templateSize: { width: number; height: number }) =>
+  (coverFactor(layout, templateSize) / POINTS_PER_INCH) * layout.dpi;
+
+/**
+ * Bleed box of a slot, numbered in reading order. Backs are mirrored so
+ * each lands behind its front once the sheet is turned: across the
+ * columns when it turns on a vertical edge, across the rows otherwise.
+ */
+const slotBox = (layout: PrintLayout, slot: number, back: boolean) => {
+  let column = slot % layout.columns;
+  let row = Math.floor(slot / layout.columns);
+  if (back) {
+    const portrait = layout.sheetHeight >= layout.sheetWidth;
+    if ((layout.duplex === "long-edge") === portrait) {
+      column = layout.columns - 1 - column;
+    } else {
+      row = layout.rows - 1 - row;
+    }
+  }
+  const width = layout.trimWidth + layout.bleed * 2;
+  const height = layout.trimHeight + layout.bleed * 2;
+  return {
+    x: layout.left + column * (width + layout.gutter),
+    y: layout.top - row * (height + layout.gutter) - height,
+    width,
+    height,
+  };
+};
+
+/** Marks outside the grid at every cut line, so stacks can be cut through in one pass each. */
+const drawCropMarks = (page: PDFPage, layout: PrintLayout) => {
+  const offset = CROP_MARK_OFFSET * POINTS_PER_MM;
+  const length = CROP_MARK_LENGTH * POINTS_PER_MM;
+  const bottom = slotBox(layout, certificatesPerSheet(layout) - 1, false).y;
+  const right = slotBox(layout, layout.columns - 1, false);
+  const mark = (x1: number, y1: number, x2: number, y2: number) =>
+    page.drawLine({
+      start: { x: x1, y: y1 },
+      end: { x: x2, y: y2 },
+      thickness: CROP_MARK_WIDTH,
+      color: REGISTRATION,
+    });
+
+  for (let column = 0; column < layout.columns; column++) {
+    const box = slotBox(layout, column, false);
+    for (const x of [box.x + layout.bleed, box.x + box.width - layout.bleed]) {
+      mark(x, layout.top + offset, x, layout.top + offset + length);
+      mark(x, bottom - offset, x, bottom - offset - length);
+    }
+  }
+  for (let row = 0; row < layout.rows; row++) {
+    const box = slotBox(layout, row * layout.columns, false);
+    for (const y of [box.y + layout.bleed, box.y + box.height - layout.bleed]) {
+      mark(layout.left - offset, y, layout.left - offset - length, y);
+      mark(right.x + right.width + offset, y, right.x + right.width + offset + length, y);
+    }
+  }
+};
+
+/**
+ * Adds the sheets for up to one sheet's worth of recipients: a sheet per
+ * design page, plus a blank one to keep fronts and backs paired when a
+ * double-sided run has an odd number of pages.
+ */
+const addSheets = async (
+  doc: PDFDocument,
+  layout: PrintLayout,
+  templateSizes: { width: number; height: number }[],
+  recipients: Uint8Array[][]
+) => {
+  const pageCount = templateSizes.length;
+  const duplex = layout.duplex !== null && pageCount > 1;
+  const sides = duplex ? pageCount + (pageCount % 2) : pageCount;
+
+  for (let side = 0; side < sides; side++) {
+    const page = doc.addPage([layout.sheetWidth, layout.sheetHeight]);
+    if (side >= pageCount) continue;
+    const back = duplex && side % 2 === 1;
+    const factor = coverFactor(layout, templateSizes[side]);
+    for (const [slot, pngs] of recipients.entries()) {
+      const box = slotBox(layout, slot, back);
+      const width = templateSizes[side].width * factor;
+      const height = templateSizes[side].height * factor;
+      const image = await doc.embedPng(pngs[side]);
+      page.pushOperators(
+        pushGraphicsState(),
+        rectangle(box.x, box.y, box.width, box.height),
+        clip(),
+        endPath()
+      );
+      page.drawImage(image, {
+        x: box.x + (box.width - width) / 2,
+        y: box.y + (box.height - height) / 2,
+        width,
+        height,
+      });
+      page.pushOperators(popGraphicsState());
+    }
+    // Sheets are cut from the front, so backs stay clean.
+    if (layout.cropMarks && !back) drawCropMarks(page, layout);
+  }
+};
+
+/**
+ * Collects recipients' rendered pages, in order, into one PDF: page by page
+ * for merged output, or imposed onto print sheets. Call `finish` after the
+ * last recipient so a part-filled sheet is written too.
+ */
+export const createPdfWriter = (
+  doc: PDFDocument,
+  config: Pick<RenderConfig, "pages" | "imposition">
+) => {
+  const layout = config.imposition;
+  const placements = config.pages.map((page) => page.placement);
+  const templateSizes = config.pages.map((page) => page.templateSize);
+  let pending: Uint8Array[][] = [];
+
+  const flush = async () => {
+    if (!layout || !pending.length) return;
+    await addSheets(doc, layout, templateSizes, pending);
+    pending = [];
+  };
+
+  return {
+    add: async (pngs: Uint8Array[]) => {
+      if (!layout) return addRecipientPages(doc, pngs, placements);
+      pending.push(pngs);
+      if (pending.length === certificatesPerSheet(layout)) await flush();
+    },
+    finish: flush,
+  };
+};
@@ -0,0 +1,249 @@
+import { FONT_OPTIONS, type FontValue } from "./fonts";
+import { applyFormatter, renderTemplate, validateTemplate, type TemplateIssue } from "./template";
+
+export type TextAlign = "left" | "center" | "right";
+export type TextFit = "none" | "shrink" | "wrap";
+export type FontStyle = "normal" | "italic";
+export type TextTransform = "none" | "uppercase" | "lowercase" | "capitalize";
+
+export type TextFill =
+  /** Linear gradient across the text block; 0° runs left to right, 90° top to bottom. */
+  | { kind: "gradient"; from: string; to: string; angle: number }
+  /** Image tiled across the text, embedded in the project like a static image layer. */
+  | { kind: "pattern"; dataUrl: string; fileName: string };
+
+/** Stroke around the letters, drawn under the fill; `width` is in template pixels. */
+export type TextOutline = { color: string; width: number };
+
+/** Blur and offsets in template pixels. */
+export type TextShadow = { color: string; blur: number; offsetX: number; offsetY: number };
+
+export type LayerSource =
+  | { kind: "column"; column: number; format?: string }
+  /** Literal text; may contain `{{Column}}` placeholders. */
+  | { kind: "text"; text: string };
+
+type LayerBase = {
+  id: string;
+  label: string;
+  /** Anchor point relative to the template, 0..1 on both axes. */
+  position: { x: number; y: number };
+};
+
+export type TextLayer = LayerBase & {
+  kind: "text";
+  source: LayerSource;
+  fontKey: FontValue;
+  fontSize: number;
+  color: string;
+  align: TextAlign;
+  fit: TextFit;
+  /** Bounding box relative to the template size, anchored at `position`. */
+  box: { width: number; height: number };
+  minFontSize: number;
+  /** Line spacing as a multiple of the font size. */
+  lineHeight: number;
+  /** CSS weight; fonts without it use their nearest weight. */
+  fontWeight: number;
+  fontStyle: FontStyle;
+  /** Extra space after each character, in template pixels. */
+  letterSpacing: number;
+  textTransform: TextTransform;
+  /** Null fills with `color`. */
+  fill: TextFill | null;
+  outline: TextOutline | null;
+  shadow: TextShadow | null;
+  /** 0 (invisible) to 1. */
+  opacity: number;
+  /** Clockwise around `position`, in degrees. */
+  rotation: number;
+};
+
+/** QR code pointing at the recipient's verification page, centred on `position`. */
+export type QrLayer = LayerBase & {
+  kind: "qr";
+  /** Side length relative to the template width. */
+  size: number;
+  color: string;
+  /** Fill behind the code and its quiet zone; null draws straight onto the template. */
+  background: string | null;
+};
+
+export type ImageSource =
+  /** Uploaded once and embedded in the project, e.g. a logo or signature. */
+  | { kind: "static"; dataUrl: string; fileName: string }
+  /** File name per recipient, looked up in the photos the user drops in. */
+  | { kind: "column"; column: number };
+
+export type ImageFit = "contain" | "cover" | "stretch";
+
+/** Raster image in a box centred on `position`, optionally rotated and faded. */
+export type ImageLayer = LayerBase & {
+  kind: "image";
+  /** Null until an image is uploaded or a column picked. */
+  source: ImageSource | null;
+  /** Box relative to the template size. */
+  box: { width: number; height: number };
+  fit: ImageFit;
+  /** Clockwise, in degrees. */
+  rotation: number;
+  /** 0 (invisible) to 1. */
+  opacity: number;
+};
+
+export type Layer = TextLayer | QrLayer | ImageLayer;
+
+export const isTextLayer = (layer: Layer): layer is TextLayer => layer.kind === "text";
+
+export const isImageLayer = (layer: Layer): layer is ImageLayer => layer.kind === "image";
+
+export const TEXT_ALIGN_OPTIONS: { label: string; value: TextAlign }[] = [
+  { label: "Left", value: "left" },
+  { label: "Center", value: "center" },
+  { label: "Right", value: "right" },
+];
+
+export const TEXT_FIT_OPTIONS: { label: string; value: TextFit }[] = [
+  { label: "Fixed size", value: "none" },
+  { label: "Shrink to fit", value: "shrink" },
+  { label: "Wrap lines", value: "wrap" },
+];
+
+export const FONT_WEIGHT_OPTIONS = [
+  { label: "Light", value: 300 },
+  { label: "Regular", value: 400 },
+  { label: "Medium", value: 500 },
+  { label: "Semibold", value: 600 },
+  { label: "Bold", value: 700 },
+  { label: "Black", value: 900 },
+];
+
+export const TEXT_TRANSFORM_OPTIONS: { label: string; value: TextTransform }[] = [
+  { label: "As typed", value: "none" },
+  { label: "UPPERCASE", value: "uppercase" },
+  { label: "lowercase", value: "lowercase" },
+  { label: "Capitalize Words", value: "capitalize" },
+];
+
+export const IMAGE_FIT_OPTIONS: { label: string; value: ImageFit }[] = [
+  { label: "Fit inside", value: "contain" },
+  { label: "Fill and crop", value: "cover" },
+  { label: "Stretch", value: "stretch" },
+];
+
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTextLayer = (overrides: Partial<TextLayer> = {}): TextLayer => ({
+  id: createId("layer"),
+  kind: "text",
+  label: "Text",
+  source: { kind: "text", text: "Text" },
+  position: { x: 0.5, y: 0.5 },
+  fontKey: FONT_OPTIONS[0].value,
+  fontSize: 72,
+  color: "#0a0a0a",
+  align: "center",
+  fit: "none",
+  box: { width: 0.6, height: 0.15 },
+  minFontSize: 24,
+  lineHeight: 1.2,
+  fontWeight: 400,
+  fontStyle: "normal",
+  letterSpacing: 0,
+  textTransform: "none",
+  fill: null,
+  outline: null,
+  shadow: null,
+  opacity: 1,
+  rotation: 0,
+  ...overrides,
+});
+
+export const createQrLayer = (overrides: Partial<QrLayer> = {}): QrLayer => ({
+  id: createId("layer"),
+  kind: "qr",
+  label: "QR code",
+  position: { x: 0.88, y: 0.82 },
+  size: 0.1,
+  color: "#0a0a0a",
+  background: "#ffffff",
+  ...overrides,
+});
+
+export const createImageLayer = (overrides: Partial<ImageLayer> = {}): ImageLayer => ({
+  id: createId("layer"),
+  kind: "image",
+  label: "Image",
+  source: null,
+  position: { x: 0.15, y: 0.18 },
+  box: { width: 0.16, height: 0.16 },
+  fit: "contain",
+  rotation: 0,
+  opacity: 1,
+  ...overrides,
+});
+
+export const DEFAULT_LAYERS: Layer[] = [
+  createTextLayer({
+    id: "layer-name",
+    label: "Name",
+    source: { kind: "column", column: 0 },
+    fit: "shrink",
+  }),
+];
+
+/** Text drawn for a layer on one spreadsheet row, given the sheet's header labels. */
+export const resolveLayerText = (layer: TextLayer, row: string[], columns: string[]) =>
+  layer.source.kind === "column"
+    ? applyFormatter((row[layer.source.column] ?? "").trim(), layer.source.format)
+    : renderTemplate(layer.source.text, row, columns);
+
+/** Applies a layer's text transform; `capitalize` raises the first letter of each word, like CSS. */
+export const transformText = (text: string, transform: TextTransform) => {
+  if (transform === "uppercase") return text.toUpperCase();
+  if (transform === "lowercase") return text.toLowerCase();
+  if (transform === "capitalize") {
+    return text.replace(/(^|\s)\p{L}/gu, (start) => start.toUpperCase());
+  }
+  return text;
+};
+
+/** Embedded picture a layer draws regardless of the row: a static image or a pattern fill. */
+export const layerImageUrl = (layer: Layer) => {
+  if (layer.kind === "image") return layer.source?.kind === "static" ? layer.source.dataUrl : null;
+  if (layer.kind === "text") return layer.fill?.kind === "pattern" ? layer.fill.dataUrl : null;
+  return null;
+};
+
+/** Placeholder and empty-cell warnings for a layer across all recipient rows. */
+export const validateLayer = (
+  layer: Layer,
+  rows: string[][],
+  columns: string[]
+): TemplateIssue[] => {
+  // Blank photo cells are reported with the missing photos; see findMissingImages.
+  if (layer.kind === "qr" || layer.kind === "image") return [];
+  if (layer.source.kind === "text") {
+    return validateTemplate(layer.source.text, rows, columns);
+  }
+
+  const { column } = layer.source;
+  const field = columns[column] || `Column ${column + 1}`;
+  const emptyRows = rows.flatMap((row, index) => ((row[column] ?? "").trim() ? [] : [index + 1]));
+  return emptyRows.length ? [{ kind: "empty-cell", field, rows: emptyRows }] : [];
+};
+
+/**
+ * Layers bound to the recipient name column follow it when that column
+ * changes, so re-uploading a sheet with a different layout keeps the
+ * name layer pointed at the names.
+ */
+export const rebindColumn = (layers: Layer[], from: number, to: number) =>
+  from === to
+    ? layers
+    : layers.map((layer) =>
+        layer.kind === "text" && layer.source.kind === "column" && layer.source.column === from
+          ? { ...layer, source: { ...layer.source, column: to } }
+          : layer
+      );
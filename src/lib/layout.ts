@@ -0,0 +1,149 @@
+import type { ImageLayer, TextLayer } from "./layers";
+
+/** Returns the advance width of `text` at `fontSize` in template pixels. */
+export type TextMeasurer = (text: string, fontSize: number) => number;
+
+export type TextLayout = {
+  fontSize: number;
+  lines: string[];
+  /** Distance between line centres in template pixels. */
+  lineHeight: number;
+  /** Widest line in template pixels. */
+  width: number;
+};
+
+type Size = { width: number; height: number };
+
+/** Layers drawn inside a box; image layers are always centred on their position. */
+type BoxedLayer = TextLayer | ImageLayer;
+
+const alignOf = (layer: BoxedLayer) => (layer.kind === "text" ? layer.align : "center");
+
+const MIN_BOX_SIZE = 0.02;
+
+/**
+ * Measures with the canvas that draws the text. `font` gives the canvas font
+ * for a size; letter spacing counts wherever the canvas supports it.
+ */
+export const createCanvasMeasurer =
+  (
+    ctx: Pick<CanvasRenderingContext2D, "font" | "letterSpacing" | "measureText">,
+    font: (fontSize: number) => string,
+    letterSpacing = 0
+  ): TextMeasurer =>
+  (text, fontSize) => {
+    ctx.font = font(fontSize);
+    ctx.letterSpacing = `${letterSpacing}px`;
+    return ctx.measureText(text).width;
+  };
+
+/** A word, or a single CJK character since those may break anywhere, with the space before it. */
+const BREAK_UNIT =
+  /(\s*)([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+)/gu;
+
+const wrapLines = (text: string, maxWidth: number, fontSize: number, measure: TextMeasurer) =>
+  text.split("\n").flatMap((paragraph) => {
+    const units = [...paragraph.matchAll(BREAK_UNIT)].map(([, space, unit]) => ({
+      unit,
+      spaced: space.length > 0,
+    }));
+    if (!units.length) return [""];
+
+    const lines: string[] = [];
+    let current = units[0].unit;
+    for (const { unit, spaced } of units.slice(1)) {
+      const candidate = `${current}${spaced ? " " : ""}${unit}`;
+      if (measure(candidate, fontSize) <= maxWidth) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = unit;
+      }
+    }
+    lines.push(current);
+    return lines;
+  });
+
+const measureLines = (
+  text: string,
+  layer: TextLayer,
+  fontSize: number,
+  boxWidth: number,
+  measure: TextMeasurer
+): TextLayout => {
+  const lines =
+    layer.fit === "wrap" ? wrapLines(text, boxWidth, fontSize, measure) : text.split("\n");
+  const width = lines.reduce((max, line) => Math.max(max, measure(line, fontSize)), 0);
+  return { fontSize, lines, lineHeight: fontSize * layer.lineHeight, width };
+};
+
+/**
+ * Lays out a layer's text inside its box. `shrink` keeps one line and reduces
+ * the size until it fits the box width; `wrap` breaks onto several lines and
+ * shrinks only when the lines overflow the box height. Both stop at
+ * `minFontSize`. The preview and the exporter share this so they agree.
+ */
+export const layoutText = (
+  text: string,
+  layer: TextLayer,
+  size: Size,
+  measure: TextMeasurer
+): TextLayout => {
+  const boxWidth = layer.box.width * size.width;
+  const boxHeight = layer.box.height * size.height;
+
+  if (layer.fit === "none") {
+    return measureLines(text, layer, layer.fontSize, boxWidth, measure);
+  }
+
+  const fits = (layout: TextLayout) =>
+    layout.width <= boxWidth &&
+    (layer.fit !== "wrap" || layout.lines.length * layout.lineHeight <= boxHeight);
+
+  const full = measureLines(text, layer, layer.fontSize, boxWidth, measure);
+  const minSize = Math.min(layer.minFontSize, layer.fontSize);
+  if (fits(full) || minSize >= layer.fontSize) return full;
+
+  let best = measureLines(text, layer, minSize, boxWidth, measure);
+  let low = minSize + 1;
+  let high = layer.fontSize - 1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const candidate = measureLines(text, layer, mid, boxWidth, measure);
+    if (fits(candidate)) {
+      best = candidate;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return best;
+};
+
+/** Box bounds in template pixels, anchored like the text (by alignment horizontally, centred vertically). */
+export const layerBoxRect = (layer: BoxedLayer, size: Size) => {
+  const width = layer.box.width * size.width;
+  const height = layer.box.height * size.height;
+  const anchorX = layer.position.x * size.width;
+  const anchorY = layer.position.y * size.height;
+  const align = alignOf(layer);
+  const left =
+    align === "left" ? anchorX : align === "right" ? anchorX - width : anchorX - width / 2;
+  return { left, top: anchorY - height / 2, width, height };
+};
+
+/** Vertical centre of each line, in template pixels, for a block centred on the anchor. */
+export const lineOffsets = (layout: TextLayout) =>
+  layout.lines.map((_, index) => (index - (layout.lines.length - 1) / 2) * layout.lineHeight);
+
+/** Box that keeps the layer anchored while its corner follows a point (relative coordinates). */
+export const boxFromCorner = (layer: BoxedLayer, point: { x: number; y: number }) => {
+  const dx = point.x - layer.position.x;
+  const align = alignOf(layer);
+  const width = align === "center" ? Math.abs(dx) * 2 : align === "left" ? dx : -dx;
+  const height = Math.abs(point.y - layer.position.y) * 2;
+  return {
+    width: Math.min(1, Math.max(MIN_BOX_SIZE, width)),
+    height: Math.min(1, Math.max(MIN_BOX_SIZE, height)),
+  };
+};
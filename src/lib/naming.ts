@@ -0,0 +1,111 @@
+import { csvCell, slugify, toSlug } from "./files";
+import { describeIssue, renderTemplate, validateTemplate } from "./template";
+
+/**
+ * Where each certificate lands in the output: a file name pattern such as
+ * `{{RollNo}}-{{Name}}`, optional subfolders by column, and the name of the
+ * ZIP (or merged PDF) itself.
+ */
+export type FileNaming = {
+  /** File name without extension; empty uses the recipient's name. */
+  pattern: string;
+  /** Subfolder path, e.g. `{{Department}}/{{Year}}`; empty keeps files at the top. */
+  folder: string;
+  /** Download name without extension; empty uses the default for where it is generated. */
+  bundleName: string;
+  /** Add manifest.csv mapping each row to its file. */
+  manifest: boolean;
+};
+
+export const DEFAULT_FILE_NAMING: FileNaming = {
+  pattern: "",
+  folder: "",
+  bundleName: "",
+  manifest: true,
+};
+
+export const FILE_MANIFEST_NAME = "manifest.csv";
+
+export type OutputFile = {
+  /** Zero-based sheet row, numbered from 1 in the manifest. */
+  row: number;
+  name: string;
+  values: string[];
+  /** Prefix ahead of the naming folders, e.g. a variant's `gold/`. */
+  prefix?: string;
+};
+
+/** Folder names from a `/`-separated pattern; parts that come out empty are skipped. */
+const foldersFor = (pattern: string, row: string[], columns: string[]) =>
+  pattern
+    .split("/")
+    .map((part) => toSlug(renderTemplate(part, row, columns)))
+    .filter(Boolean);
+
+/**
+ * Relative paths for every file, in order. Paths that differ only by case
+ * are collisions too, since most file systems treat them as one; later rows
+ * get `-2`, `-3`, … so the same sheet always yields the same names.
+ */
+export const planOutputPaths = (
+  files: OutputFile[],
+  columns: string[],
+  naming: FileNaming,
+  extension: string
+) => {
+  const taken = new Set<string>();
+  return files.map((file, index) => {
+    const base = naming.pattern.trim()
+      ? slugify(renderTemplate(naming.pattern, file.values, columns), index)
+      : slugify(file.name, index);
+    const folders = foldersFor(naming.folder, file.values, columns);
+    const directory = `${file.prefix ?? ""}${folders.map((folder) => `${folder}/`).join("")}`;
+
+    let path = `${directory}${base}.${extension}`;
+    for (let copy = 2; taken.has(path.toLowerCase()); copy++) {
+      path = `${directory}${base}-${copy}.${extension}`;
+    }
+    taken.add(path.toLowerCase());
+    return path;
+  });
+};
+
+/** One path per page for multi-page PNGs, e.g. `ada-page1.png` and `ada-page2.png`. */
+export const pagePaths = (path: string, pageCount: number) => {
+  if (pageCount <= 1) return [path];
+  const dot = path.lastIndexOf(".");
+  return Array.from(
+    { length: pageCount },
+    (_, page) => `${path.slice(0, dot)}-page${page + 1}${path.slice(dot)}`
+  );
+};
+
+/** Last segment of an output path, e.g. for an email attachment. */
+export const fileNameOf = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
+/** Readable problems with the naming patterns, e.g. a column that does not exist. */
+export const validateNaming = (naming: FileNaming, rows: string[][], columns: string[]) =>
+  [naming.pattern, naming.folder].flatMap((pattern) =>
+    validateTemplate(pattern, rows, columns)
+      .filter((issue) => issue.kind !== "empty-cell")
+      .map(describeIssue)
+  );
+
+/** Download name for the bundle, e.g. `spring-awards.zip`. */
+export const bundleFileName = (naming: FileNaming, fallback: string, extension: string) =>
+  `${slugify(naming.bundleName.trim() || fallback, 0)}.${extension}`;
+
+/**
+ * CSV with the row number, output path, and the row's values for every
+ * file. `paths` holds each recipient's files; rows with several pages get
+ * a line per page.
+ */
+export const outputManifestCsv = (files: OutputFile[], paths: string[][], columns: string[]) =>
+  [
+    ["Row", "File", ...columns],
+    ...files.flatMap((file, index) =>
+      paths[index].map((path) => [String(file.row + 1), path, ...file.values])
+    ),
+  ]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n") + "\r\n";
@@ -0,0 +1,205 @@
+import { createHash } from "node:crypto";
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+import { GlobalFonts, createCanvas, loadImage, type FontKey } from "@napi-rs/canvas";
+import type { RenderBackend } from "./engine";
+import { dataUrlBytes } from "./files";
+import {
+  BUNDLED_FONTS,
+  FALLBACK_FONTS,
+  FONTSOURCE_FONTS,
+  UPLOAD_FAMILY_PREFIX,
+  customFontKey,
+  getFontOption,
+  primaryFamily,
+  type CustomFont,
+} from "./fonts";
+import { addToImageLibrary, readZipFiles, type ImageLibrary } from "./images";
+import type { Layer } from "./layers";
+import { designPages, type Project, type ProjectTemplate } from "./project";
+import type { VariantSettings } from "./variants";
+
+/** Node backend built on @napi-rs/canvas (Skia); used by the CLI and API routes. */
+export const createNodeBackend = (): RenderBackend => ({
+  createSurface: (width, height) => {
+    const canvas = createCanvas(width, height);
+    return {
+      ctx: canvas.getContext("2d") as unknown as CanvasRenderingContext2D,
+      toPng: async () => new Uint8Array(await canvas.encode("png")),
+    };
+  },
+  decodeImage: async (bytes) =>
+    (await loadImage(Buffer.from(bytes))) as unknown as CanvasImageSource,
+});
+
+/** Registers a font file under `family`, or under its internal name when omitted. */
+export const registerFontFile = (file: string, family?: string) => {
+  if (!GlobalFonts.registerFromPath(file, family)) {
+    throw new Error(`Unable to load font ${file}.`);
+  }
+};
+
+/** Registers the fonts shipped in `fontsDir` (normally `public/fonts`). */
+export const registerBundledFonts = async (fontsDir: string) => {
+  const files = new Set(await readdir(fontsDir).catch(() => []));
+  for (const font of BUNDLED_FONTS) {
+    if (files.has(font.file)) {
+      registerFontFile(path.join(fontsDir, font.file), font.family);
+    }
+  }
+};
+
+const registerFontsourceFile = async (
+  modulesDir: string,
+  family: string,
+  id: string,
+  subset: string,
+  weight: number
+) => {
+  const filesDir = path.join(modulesDir, "@fontsource", id, "files");
+  const file = `${id}-${subset}-${weight}-normal.woff2`;
+  const files = new Set(await readdir(filesDir).catch(() => []));
+  if (files.has(file)) registerFontFile(path.join(filesDir, file), family);
+};
+
+/**
+ * Registers the self-hosted built-in and fallback fonts from their
+ * @fontsource packages under `modulesDir`. Skia uses one file per weight,
+ * so built-in fonts get their Latin subset and fallbacks their script's.
+ */
+export const registerFontsourceFonts = async (modulesDir: string) => {
+  for (const font of FONTSOURCE_FONTS) {
+    for (const weight of font.weights) {
+      await registerFontsourceFile(modulesDir, font.family, font.id, "latin", weight);
+    }
+  }
+  for (const font of FALLBACK_FONTS) {
+    if (font.subset) {
+      await registerFontsourceFile(modulesDir, font.family, font.id, font.subset, 400);
+    }
+  }
+};
+
+/** Uploaded fonts kept registered at once; the least recently used are removed first. */
+const MAX_PROJECT_FONTS = 64;
+
+/** Registered uploads by alias, least recently used first. */
+const projectFonts = new Map<string, FontKey>();
+
+/** Family an upload is registered under, derived from its bytes rather than its name. */
+const fontAlias = (font: CustomFont) =>
+  `${UPLOAD_FAMILY_PREFIX}${createHash("sha256").update(font.dataUrl).digest("hex").slice(0, 16)}`;
+
+/**
+ * Registers a project's uploaded fonts and returns the project with its
+ * text layers pointed at them. Each file is registered under an alias of
+ * its own bytes, so one design's fonts never stand in for another's or for
+ * a built-in family in the same process. Throws readable errors.
+ */
+export const withProjectFonts = (project: Project): Project => {
+  const aliases = new Map(project.fonts.map((font) => [font.family, fontAlias(font)]));
+  for (const font of project.fonts) {
+    const alias = fontAlias(font);
+    const key =
+      projectFonts.get(alias) ??
+      GlobalFonts.register(Buffer.from(dataUrlBytes(font.dataUrl)), alias);
+    if (!key) {
+      throw new Error(`Unable to load font ${font.fileName}.`);
+    }
+    projectFonts.delete(alias);
+    projectFonts.set(alias, key);
+  }
+  const inUse = new Set(aliases.values());
+  for (const [alias, key] of projectFonts) {
+    if (projectFonts.size <= MAX_PROJECT_FONTS) break;
+    if (inUse.has(alias)) continue;
+    GlobalFonts.remove(key);
+    projectFonts.delete(alias);
+  }
+
+  const keys = new Map(
+    [...aliases].map(([family, alias]) => [customFontKey(family), customFontKey(alias)])
+  );
+  const relink = (layers: Layer[]) =>
+    layers.map((layer) => {
+      if (layer.kind !== "text") return layer;
+      const fontKey = keys.get(layer.fontKey);
+      if (fontKey) return { ...layer, fontKey };
+      if (primaryFamily(getFontOption(layer.fontKey)).startsWith(UPLOAD_FAMILY_PREFIX)) {
+        throw new Error(`Text layer "${layer.label || "Untitled"}" uses a font the design lacks.`);
+      }
+      return layer;
+    });
+  return {
+    ...project,
+    layers: relink(project.layers),
+    pages: project.pages.map((page) => ({ ...page, layers: relink(page.layers) })),
+    fonts: project.fonts.map((font) => ({ ...font, family: aliases.get(font.family)! })),
+  };
+};
+
+export const hasFontFamily = (family: string) =>
+  GlobalFonts.families.some((entry) => entry.family.toLowerCase() === family.toLowerCase());
+
+/** Template bytes for a project: embedded data URL, remote URL, or a path under `publicDir`. */
+export const loadProjectTemplate = async (template: ProjectTemplate, publicDir: string) => {
+  if (template.kind === "embedded") {
+    return dataUrlBytes(template.dataUrl);
+  }
+  if (/^https?:\/\//i.test(template.src)) {
+    const response = await fetch(template.src).catch(() => null);
+    if (!response?.ok) {
+      throw new Error(`Unable to download template ${template.src}.`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const file = path.resolve(publicDir, `.${path.posix.normalize(`/${template.src}`)}`);
+  return new Uint8Array(
+    await readFile(file).catch(() => {
+      throw new Error(`Template image ${template.src} not found in ${publicDir}.`);
+    })
+  );
+};
+
+/** Template bytes for every page of a design, in order. */
+export const loadPageTemplates = (design: Project, publicDir: string) =>
+  Promise.all(designPages(design).map((page) => loadProjectTemplate(page.template, publicDir)));
+
+/** One entry per variant rule: its own template's bytes, or null for the project template. */
+export const loadVariantTemplates = (variants: VariantSettings, publicDir: string) =>
+  Promise.all(
+    variants.rules.map((rule) =>
+      rule.template ? loadProjectTemplate(rule.template, publicDir) : null
+    )
+  );
+
+const readFolderFiles = async (folder: string) => {
+  const entries = await readdir(folder, { recursive: true, withFileTypes: true }).catch(() => {
+    throw new Error(`Cannot read the folder ${folder}.`);
+  });
+  return Promise.all(
+    entries
+      .filter((entry) => entry.isFile())
+      .map(async (entry) => {
+        const file = path.join(entry.parentPath, entry.name);
+        return [file, new Uint8Array(await readFile(file))] as const;
+      })
+  );
+};
+
+/** Photos for per-recipient image layers from a folder (searched recursively) or a ZIP. */
+export const loadImageLibrary = async (source: string) => {
+  const entries = /\.zip$/i.test(source)
+    ? await readZipFiles(
+        new Uint8Array(
+          await readFile(source).catch(() => {
+            throw new Error(`Cannot read ${source}.`);
+          })
+        )
+      )
+    : await readFolderFiles(source);
+  const library: ImageLibrary = new Map();
+  for (const [name, bytes] of entries) addToImageLibrary(library, name, bytes);
+  return library;
+};
@@ -0,0 +1,155 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from "pdf-lib";
+
+export type OutputFormat = "png" | "pdf" | "pdf-merged" | "pdf-print";
+export type PaperSize = "template" | "a4" | "letter";
+export type Orientation = "landscape" | "portrait";
+
+export type PdfOptions = {
+  paperSize: PaperSize;
+  orientation: Orientation;
+  /** Output pixels per physical inch of the printed certificate. */
+  dpi: number;
+};
+
+export type PagePlacement = {
+  /** Page size in PDF points (1/72 inch). */
+  pageWidth: number;
+  pageHeight: number;
+  /** Where the certificate image sits on the page, in points. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Factor applied to template pixels when rendering for this page. */
+  scale: number;
+};
+
+export const OUTPUT_FORMAT_OPTIONS: { label: string; value: OutputFormat }[] = [
+  { label: "PNG images (ZIP)", value: "png" },
+  { label: "PDF per recipient (ZIP)", value: "pdf" },
+  { label: "Single multi-page PDF", value: "pdf-merged" },
+  { label: "Print sheets (imposed PDF)", value: "pdf-print" },
+];
+
+/** Formats that come out as one PDF for the whole batch rather than a ZIP. */
+export const isMergedFormat = (format: OutputFormat) =>
+  format === "pdf-merged" || format === "pdf-print";
+
+export const PAPER_SIZE_OPTIONS: { label: string; value: PaperSize }[] = [
+  { label: "Match template", value: "template" },
+  { label: "A4", value: "a4" },
+  { label: "Letter", value: "letter" },
+];
+
+export const DPI_OPTIONS = [72, 150, 300] as const;
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  paperSize: "template",
+  orientation: "landscape",
+  dpi: 150,
+};
+
+const POINTS_PER_INCH = 72;
+/** Template pixels are treated as CSS pixels when the page follows the template size. */
+const TEMPLATE_PIXELS_PER_INCH = 96;
+
+const PAPER_POINTS: Record<Exclude<PaperSize, "template">, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+};
+
+/**
+ * Fits the template onto the chosen page. Paper sizes letterbox the
+ * certificate in the centre; the render scale is picked so the embedded
+ * image carries `dpi` pixels per printed inch.
+ */
+export const pagePlacement = (
+  templateSize: { width: number; height: number },
+  options: PdfOptions
+): PagePlacement => {
+  if (options.paperSize === "template") {
+    const width = (templateSize.width / TEMPLATE_PIXELS_PER_INCH) * POINTS_PER_INCH;
+    const height = (templateSize.height / TEMPLATE_PIXELS_PER_INCH) * POINTS_PER_INCH;
+    return {
+      pageWidth: width,
+      pageHeight: height,
+      x: 0,
+      y: 0,
+      width,
+      height,
+      scale: options.dpi / TEMPLATE_PIXELS_PER_INCH,
+    };
+  }
+
+  const [short, long] = PAPER_POINTS[options.paperSize];
+  const pageWidth = options.orientation === "landscape" ? long : short;
+  const pageHeight = options.orientation === "landscape" ? short : long;
+  const fit = Math.min(pageWidth / templateSize.width, pageHeight / templateSize.height);
+  const width = templateSize.width * fit;
+  const height = templateSize.height * fit;
+
+  return {
+    pageWidth,
+    pageHeight,
+    x: (pageWidth - width) / 2,
+    y: (pageHeight - height) / 2,
+    width,
+    height,
+    scale: ((width / POINTS_PER_INCH) * options.dpi) / templateSize.width,
+  };
+};
+
+/** Adds one certificate page. `png` may be raw bytes or a base64 data URL. */
+export const addCertificatePage = async (
+  doc: PDFDocument,
+  png: Uint8Array | string,
+  placement: PagePlacement
+) => {
+  const image = await doc.embedPng(png);
+  const page = doc.addPage([placement.pageWidth, placement.pageHeight]);
+  page.drawImage(image, {
+    x: placement.x,
+    y: placement.y,
+    width: placement.width,
+    height: placement.height,
+  });
+};
+
+/** Adds one recipient's pages, each sized by its own placement. */
+export const addRecipientPages = async (
+  doc: PDFDocument,
+  pngs: Uint8Array[],
+  placements: PagePlacement[]
+) => {
+  for (const [index, png] of pngs.entries()) {
+    await addCertificatePage(doc, png, placements[index]);
+  }
+};
+
+export const createCertificatePdf = async (title?: string) => {
+  const doc = await PDFDocument.create();
+  doc.setProducer("Certificate Nucleus");
+  doc.setCreator("Certificate Nucleus");
+  if (title) doc.setTitle(title);
+  return doc;
+};
+
+const infoDict = (doc: PDFDocument) =>
+  doc.context.lookupMaybe(doc.context.trailerInfo.Info, PDFDict);
+
+/** Stores signature tokens in a custom Info entry, one per line. */
+export const setPdfSignatures = (doc: PDFDocument, key: string, tokens: string[]) => {
+  const info = infoDict(doc);
+  if (!info) {
+    throw new Error("The PDF has no metadata dictionary.");
+  }
+  info.set(PDFName.of(key), PDFString.of(tokens.join("\n")));
+};
+
+export const readPdfSignatures = async (bytes: Uint8Array, key: string) => {
+  const doc = await PDFDocument.load(bytes, { updateMetadata: false });
+  const value = infoDict(doc)?.lookup(PDFName.of(key));
+  const text =
+    value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : "";
+  return text.split("\n").filter(Boolean);
+};
@@ -0,0 +1,69 @@
+import { crc32 } from "./zip";
+
+/** PNG text chunks: how signatures travel inside per-recipient PNG files. */
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const latin1 = new TextDecoder("latin1");
+
+const isPng = (bytes: Uint8Array) =>
+  bytes.length > PNG_SIGNATURE.length &&
+  PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+
+const asciiBytes = (value: string) => Uint8Array.from(value, (char) => char.charCodeAt(0) & 0xff);
+
+type Chunk = { type: string; start: number; dataStart: number; end: number };
+
+const readChunks = (png: Uint8Array) => {
+  if (!isPng(png)) {
+    throw new Error("The file is not a PNG image.");
+  }
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(png.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > png.length) break;
+    chunks.push({ type, start: offset, dataStart: offset + 8, end });
+    if (type === "IEND") break;
+    offset = end;
+  }
+  return chunks;
+};
+
+/**
+ * Returns a copy of `png` with a tEXt chunk inserted before IEND. Values
+ * must be Latin-1; signature tokens are plain ASCII.
+ */
+export const addPngText = (png: Uint8Array, keyword: string, text: string) => {
+  const iend = readChunks(png).find((chunk) => chunk.type === "IEND");
+  if (!iend) {
+    throw new Error("The PNG image is truncated.");
+  }
+
+  const body = asciiBytes(`tEXt${keyword}\0${text}`);
+  const chunk = new Uint8Array(body.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length - 4);
+  chunk.set(body, 4);
+  view.setUint32(body.length + 4, crc32(body));
+
+  const output = new Uint8Array(png.length + chunk.length);
+  output.set(png.subarray(0, iend.start));
+  output.set(chunk, iend.start);
+  output.set(png.subarray(iend.start), iend.start + chunk.length);
+  return output;
+};
+
+/** All tEXt entries of a PNG, keyed by keyword. */
+export const readPngText = (png: Uint8Array) => {
+  const entries = new Map<string, string>();
+  for (const chunk of readChunks(png)) {
+    if (chunk.type !== "tEXt") continue;
+    const data = latin1.decode(png.subarray(chunk.dataStart, chunk.end - 4));
+    const separator = data.indexOf("\0");
+    if (separator > 0) entries.set(data.slice(0, separator), data.slice(separator + 1));
+  }
+  return entries;
+};
@@ -0,0 +1,560 @@
+import { DEFAULT_CERTIFICATE_ID_SETTINGS, type CertificateIdSettings } from "./certificate-id";
+import {
+  DEFAULT_DELIVERY_SETTINGS,
+  RATE_PER_MINUTE_MAX,
+  RATE_PER_MINUTE_MIN,
+  type DeliverySettings,
+} from "./email";
+import { slugify } from "./files";
+import { isBuiltInFamily, isFontValue, type CustomFont } from "./fonts";
+import {
+  DEFAULT_PRINT_OPTIONS,
+  PRINT_DPI_OPTIONS,
+  SHEET_SIZE_OPTIONS,
+  clampPrintMm,
+  type PrintOptions,
+} from "./imposition";
+import {
+  IMAGE_FIT_OPTIONS,
+  TEXT_TRANSFORM_OPTIONS,
+  createImageLayer,
+  createQrLayer,
+  createId,
+  createTextLayer,
+  type ImageLayer,
+  type ImageSource,
+  type Layer,
+  type LayerSource,
+  type QrLayer,
+  type TextFill,
+  type TextOutline,
+  type TextShadow,
+} from "./layers";
+import { DEFAULT_FILE_NAMING, type FileNaming } from "./naming";
+import {
+  DEFAULT_PDF_OPTIONS,
+  DPI_OPTIONS,
+  OUTPUT_FORMAT_OPTIONS,
+  type OutputFormat,
+  type PdfOptions,
+} from "./pdf";
+import { DEFAULT_VARIANT_SETTINGS, createVariant, type VariantSettings } from "./variants";
+
+export const PROJECT_APP_ID = "nucleus-cert";
+export const PROJECT_VERSION = 10;
+export const PROJECT_FILE_EXTENSION = ".nucleus.json";
+
+export type ProjectTemplate =
+  | { kind: "reference"; src: string }
+  | { kind: "embedded"; dataUrl: string };
+
+/** A page after the first, e.g. the back of a double-sided certificate. */
+export type DesignPage = {
+  id: string;
+  template: ProjectTemplate;
+  templateSize: { width: number; height: number };
+  layers: Layer[];
+};
+
+export type Project = {
+  app: typeof PROJECT_APP_ID;
+  version: typeof PROJECT_VERSION;
+  name: string;
+  savedAt: string;
+  template: ProjectTemplate;
+  templateSize: { width: number; height: number };
+  layers: Layer[];
+  /** Pages after the first, which is `template`, `templateSize`, and `layers` above. */
+  pages: DesignPage[];
+  /** Column holding recipient names; drives the recipient list and file names. */
+  nameColumn: number;
+  /** Header labels at save time, used to rebind layers when a sheet's columns move. */
+  columns: string[];
+  output: { format: OutputFormat; pdf: PdfOptions; print: PrintOptions; files: FileNaming };
+  certificateIds: CertificateIdSettings;
+  delivery: DeliverySettings;
+  variants: VariantSettings;
+  /** Uploaded fonts, embedded so the project renders the same anywhere. */
+  fonts: CustomFont[];
+};
+
+export type ProjectState = Omit<Project, "app" | "version" | "savedAt">;
+
+type RawProject = Record<string, unknown> & { version: number };
+
+/**
+ * Upgrades a project from `version` to `version + 1`. Add an entry here
+ * whenever the shape changes and bump PROJECT_VERSION.
+ */
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // v2 added QR layers (layers gained a `kind`) and certificate ID settings.
+  1: (project) => ({
+    ...project,
+    version: 2,
+    layers: Array.isArray(project.layers)
+      ? project.layers.map((layer) => (isRecord(layer) ? { kind: "text", ...layer } : layer))
+      : project.layers,
+    certificateIds: { ...DEFAULT_CERTIFICATE_ID_SETTINGS, event: asString(project.name, "") },
+  }),
+  // v3 added email delivery settings.
+  2: (project) => ({ ...project, version: 3, delivery: DEFAULT_DELIVERY_SETTINGS }),
+  // v4 added per-row design variants.
+  3: (project) => ({ ...project, version: 4, variants: DEFAULT_VARIANT_SETTINGS }),
+  // v5 added uploaded fonts.
+  4: (project) => ({ ...project, version: 5, fonts: [] }),
+  // v6 added file naming, folders, and the manifest to the output settings.
+  5: (project) => ({
+    ...project,
+    version: 6,
+    output: { ...(isRecord(project.output) ? project.output : {}), files: DEFAULT_FILE_NAMING },
+  }),
+  // v7 added image layers; older layers are unchanged.
+  6: (project) => ({ ...project, version: 7 }),
+  // v8 added pages after the first, e.g. a back side.
+  7: (project) => ({ ...project, version: 8, pages: [] }),
+  // v9 added text styling (weight, italics, spacing, outline, shadow, fills); layers get defaults.
+  8: (project) => ({ ...project, version: 9 }),
+  // v10 added print sheets: trim size, bleed, crop marks, and imposition.
+  9: (project) => ({
+    ...project,
+    version: 10,
+    output: { ...(isRecord(project.output) ? project.output : {}), print: DEFAULT_PRINT_OPTIONS },
+  }),
+};
+
+export const DEFAULT_TEMPLATE_SRC = "/template.webp";
+
+/** Longest template side, in pixels; renders scale it up, so it bounds every canvas. */
+export const MAX_TEMPLATE_SIDE = 8000;
+
+/** A blank page on the default template with one text layer. */
+export const createDesignPage = (templateSize: DesignPage["templateSize"]): DesignPage => ({
+  id: createId("page"),
+  template: { kind: "reference", src: DEFAULT_TEMPLATE_SRC },
+  templateSize,
+  layers: [createTextLayer()],
+});
+
+/** Every page in order, the first included, so callers can treat them alike. */
+export const designPages = (
+  design: Pick<ProjectState, "template" | "templateSize" | "layers" | "pages">
+): Omit<DesignPage, "id">[] => [
+  { template: design.template, templateSize: design.templateSize, layers: design.layers },
+  ...design.pages,
+];
+
+/** Layers of every page, for checks that span the whole design. */
+export const designLayers = (design: Pick<ProjectState, "layers" | "pages">) => [
+  ...design.layers,
+  ...design.pages.flatMap((page) => page.layers),
+];
+
+export const createProject = (state: ProjectState): Project => ({
+  app: PROJECT_APP_ID,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  ...state,
+});
+
+export const serializeProject = (project: Project) => JSON.stringify(project, null, 2);
+
+export const projectFileName = (project: Project) =>
+  `${slugify(project.name || "certificate project", 0)}${PROJECT_FILE_EXTENSION}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asNumber = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+const asString = (value: unknown, fallback: string) =>
+  typeof value === "string" ? value : fallback;
+
+const normalizeSource = (value: unknown): LayerSource => {
+  if (isRecord(value) && value.kind === "column") {
+    return {
+      kind: "column",
+      column: Math.max(0, Math.floor(asNumber(value.column, 0))),
+      format: typeof value.format === "string" && value.format ? value.format : undefined,
+    };
+  }
+  return { kind: "text", text: isRecord(value) ? asString(value.text, "") : "" };
+};
+
+const normalizeQrLayer = (value: Record<string, unknown>): QrLayer => {
+  const defaults = createQrLayer();
+  const position = isRecord(value.position) ? value.position : {};
+  return {
+    id: asString(value.id, defaults.id),
+    kind: "qr",
+    label: asString(value.label, defaults.label),
+    position: {
+      x: asNumber(position.x, defaults.position.x),
+      y: asNumber(position.y, defaults.position.y),
+    },
+    size: asNumber(value.size, defaults.size),
+    color: asString(value.color, defaults.color),
+    background: value.background === null ? null : asString(value.background, "#ffffff"),
+  };
+};
+
+const normalizeImageSource = (value: unknown): ImageSource | null => {
+  if (!isRecord(value)) return null;
+  if (value.kind === "column") {
+    return { kind: "column", column: Math.max(0, Math.floor(asNumber(value.column, 0))) };
+  }
+  const dataUrl = asString(value.dataUrl, "");
+  if (value.kind !== "static" || !dataUrl.startsWith("data:image/")) return null;
+  return { kind: "static", dataUrl, fileName: asString(value.fileName, "image") };
+};
+
+const normalizeImageLayer = (value: Record<string, unknown>): ImageLayer => {
+  const defaults = createImageLayer();
+  const position = isRecord(value.position) ? value.position : {};
+  const box = isRecord(value.box) ? value.box : {};
+  return {
+    id: asString(value.id, defaults.id),
+    kind: "image",
+    label: asString(value.label, defaults.label),
+    source: normalizeImageSource(value.source),
+    position: {
+      x: asNumber(position.x, defaults.position.x),
+      y: asNumber(position.y, defaults.position.y),
+    },
+    box: {
+      width: asNumber(box.width, defaults.box.width),
+      height: asNumber(box.height, defaults.box.height),
+    },
+    fit: IMAGE_FIT_OPTIONS.find((option) => option.value === value.fit)?.value ?? defaults.fit,
+    rotation: asNumber(value.rotation, defaults.rotation),
+    opacity: Math.min(1, Math.max(0, asNumber(value.opacity, defaults.opacity))),
+  };
+};
+
+const normalizeTextFill = (value: unknown): TextFill | null => {
+  if (!isRecord(value)) return null;
+  if (value.kind === "gradient") {
+    return {
+      kind: "gradient",
+      from: asString(value.from, "#0a0a0a"),
+      to: asString(value.to, "#0a0a0a"),
+      angle: asNumber(value.angle, 0),
+    };
+  }
+  const dataUrl = asString(value.dataUrl, "");
+  if (value.kind !== "pattern" || !dataUrl.startsWith("data:image/")) return null;
+  return { kind: "pattern", dataUrl, fileName: asString(value.fileName, "pattern") };
+};
+
+const normalizeOutline = (value: unknown): TextOutline | null =>
+  isRecord(value)
+    ? { color: asString(value.color, "#ffffff"), width: Math.max(0, asNumber(value.width, 0)) }
+    : null;
+
+const normalizeShadow = (value: unknown): TextShadow | null =>
+  isRecord(value)
+    ? {
+        color: asString(value.color, "#000000"),
+        blur: Math.max(0, asNumber(value.blur, 0)),
+        offsetX: asNumber(value.offsetX, 0),
+        offsetY: asNumber(value.offsetY, 0),
+      }
+    : null;
+
+const normalizeLayer = (value: unknown): Layer => {
+  if (!isRecord(value)) {
+    throw new Error("Project contains an invalid layer.");
+  }
+  if (value.kind === "qr") return normalizeQrLayer(value);
+  if (value.kind === "image") return normalizeImageLayer(value);
+
+  const defaults = createTextLayer();
+  const position = isRecord(value.position) ? value.position : {};
+  const box = isRecord(value.box) ? value.box : {};
+  const fontKey = isFontValue(value.fontKey) ? value.fontKey : defaults.fontKey;
+
+  return {
+    id: asString(value.id, defaults.id),
+    kind: "text",
+    label: asString(value.label, defaults.label),
+    source: normalizeSource(value.source),
+    position: {
+      x: asNumber(position.x, defaults.position.x),
+      y: asNumber(position.y, defaults.position.y),
+    },
+    fontKey,
+    fontSize: asNumber(value.fontSize, defaults.fontSize),
+    color: asString(value.color, defaults.color),
+    align: value.align === "left" || value.align === "right" ? value.align : "center",
+    fit: value.fit === "shrink" || value.fit === "wrap" ? value.fit : "none",
+    box: {
+      width: asNumber(box.width, defaults.box.width),
+      height: asNumber(box.height, defaults.box.height),
+    },
+    minFontSize: asNumber(value.minFontSize, defaults.minFontSize),
+    lineHeight: asNumber(value.lineHeight, defaults.lineHeight),
+    fontWeight: Math.min(900, Math.max(100, asNumber(value.fontWeight, defaults.fontWeight))),
+    fontStyle: value.fontStyle === "italic" ? "italic" : "normal",
+    letterSpacing: asNumber(value.letterSpacing, defaults.letterSpacing),
+    textTransform:
+      TEXT_TRANSFORM_OPTIONS.find((option) => option.value === value.textTransform)?.value ??
+      defaults.textTransform,
+    fill: normalizeTextFill(value.fill),
+    outline: normalizeOutline(value.outline),
+    shadow: normalizeShadow(value.shadow),
+    opacity: Math.min(1, Math.max(0, asNumber(value.opacity, defaults.opacity))),
+    rotation: asNumber(value.rotation, defaults.rotation),
+  };
+};
+
+const normalizeTemplate = (value: unknown): ProjectTemplate => {
+  if (isRecord(value) && value.kind === "embedded" && typeof value.dataUrl === "string") {
+    if (!value.dataUrl.startsWith("data:image/")) {
+      throw new Error("Embedded template is not an image.");
+    }
+    return { kind: "embedded", dataUrl: value.dataUrl };
+  }
+  if (isRecord(value) && value.kind === "reference" && typeof value.src === "string") {
+    return { kind: "reference", src: value.src };
+  }
+  return { kind: "reference", src: DEFAULT_TEMPLATE_SRC };
+};
+
+const normalizeTemplateSize = (value: unknown) => {
+  const size = isRecord(value) ? value : {};
+  const templateSize = { width: asNumber(size.width, 1920), height: asNumber(size.height, 1080) };
+  if (
+    [templateSize.width, templateSize.height].some((side) => side < 1 || side > MAX_TEMPLATE_SIDE)
+  ) {
+    throw new Error(`Template sizes must be from 1 to ${MAX_TEMPLATE_SIDE} pixels on each side.`);
+  }
+  return templateSize;
+};
+
+const normalizePages = (value: unknown): DesignPage[] =>
+  (Array.isArray(value) ? value.filter(isRecord) : []).map((page, index) => {
+    if (!Array.isArray(page.layers) || !page.layers.length) {
+      throw new Error(`Page ${index + 2} of the project has no layers.`);
+    }
+    return {
+      id: asString(page.id, createId("page")),
+      template: normalizeTemplate(page.template),
+      templateSize: normalizeTemplateSize(page.templateSize),
+      layers: page.layers.map(normalizeLayer),
+    };
+  });
+
+const normalizeCertificateIds = (value: unknown): CertificateIdSettings => {
+  const settings = isRecord(value) ? value : {};
+  const defaults = DEFAULT_CERTIFICATE_ID_SETTINGS;
+  return {
+    source: settings.source === "column" ? "column" : "auto",
+    column: Math.max(0, Math.floor(asNumber(settings.column, defaults.column))),
+    event: asString(settings.event, defaults.event),
+    verifyBaseUrl: asString(settings.verifyBaseUrl, defaults.verifyBaseUrl),
+    publish: typeof settings.publish === "boolean" ? settings.publish : defaults.publish,
+  };
+};
+
+const normalizeDelivery = (value: unknown): DeliverySettings => {
+  const settings = isRecord(value) ? value : {};
+  const defaults = DEFAULT_DELIVERY_SETTINGS;
+  const emailColumn = asNumber(settings.emailColumn, -1);
+  return {
+    emailColumn: emailColumn >= 0 ? Math.floor(emailColumn) : null,
+    subject: asString(settings.subject, defaults.subject),
+    body: asString(settings.body, defaults.body),
+    mode: settings.mode === "dry-run" ? "dry-run" : "send",
+    ratePerMinute: Math.min(
+      RATE_PER_MINUTE_MAX,
+      Math.max(RATE_PER_MINUTE_MIN, asNumber(settings.ratePerMinute, defaults.ratePerMinute))
+    ),
+  };
+};
+
+const normalizeVariants = (value: unknown): VariantSettings => {
+  const settings = isRecord(value) ? value : {};
+  const rules = Array.isArray(settings.rules) ? settings.rules.filter(isRecord) : [];
+  return {
+    rules: rules.map((rule, index) => {
+      const defaults = createVariant(index);
+      return {
+        id: asString(rule.id, defaults.id),
+        name: asString(rule.name, defaults.name),
+        when: asString(rule.when, ""),
+        template: rule.template ? normalizeTemplate(rule.template) : null,
+        color: typeof rule.color === "string" && rule.color ? rule.color : null,
+      };
+    }),
+    folders: settings.folders === true,
+  };
+};
+
+const normalizeFonts = (value: unknown): CustomFont[] =>
+  (Array.isArray(value) ? value.filter(isRecord) : []).flatMap((font) => {
+    const family = asString(font.family, "").trim();
+    const dataUrl = asString(font.dataUrl, "");
+    if (!family || !dataUrl.startsWith("data:font/")) return [];
+    if (/["\\]/.test(family)) {
+      throw new Error(`Uploaded font ${family} has quotes or backslashes in its name.`);
+    }
+    if (isBuiltInFamily(family)) {
+      throw new Error(`Uploaded font "${family}" has the name of a built-in font.`);
+    }
+    return [{ family, fileName: asString(font.fileName, family), dataUrl }];
+  });
+
+const normalizePrint = (value: unknown): PrintOptions => {
+  const print = isRecord(value) ? value : {};
+  const defaults = DEFAULT_PRINT_OPTIONS;
+  const sheet = SHEET_SIZE_OPTIONS.find((option) => option.value === print.sheetSize);
+  return {
+    sheetSize: sheet?.value ?? defaults.sheetSize,
+    orientation: print.orientation === "landscape" ? "landscape" : "portrait",
+    trimWidth: clampPrintMm("trimWidth", asNumber(print.trimWidth, defaults.trimWidth)),
+    bleed: clampPrintMm("bleed", asNumber(print.bleed, defaults.bleed)),
+    gutter: clampPrintMm("gutter", asNumber(print.gutter, defaults.gutter)),
+    cropMarks: typeof print.cropMarks === "boolean" ? print.cropMarks : defaults.cropMarks,
+    duplex: print.duplex === "long-edge" || print.duplex === "short-edge" ? print.duplex : null,
+    dpi: Math.min(Math.max(...PRINT_DPI_OPTIONS), Math.max(72, asNumber(print.dpi, defaults.dpi))),
+  };
+};
+
+const normalizeOutput = (value: unknown): Project["output"] => {
+  const output = isRecord(value) ? value : {};
+  const pdf = isRecord(output.pdf) ? output.pdf : {};
+  const dpi = asNumber(pdf.dpi, DEFAULT_PDF_OPTIONS.dpi);
+  if (!DPI_OPTIONS.some((option) => option === dpi)) {
+    throw new Error(`PDF resolution must be one of ${DPI_OPTIONS.join(", ")} DPI.`);
+  }
+  const files = isRecord(output.files) ? output.files : {};
+  const format = OUTPUT_FORMAT_OPTIONS.find((option) => option.value === output.format);
+  return {
+    format: format?.value ?? "png",
+    pdf: {
+      paperSize:
+        pdf.paperSize === "a4" || pdf.paperSize === "letter" ? pdf.paperSize : "template",
+      orientation: pdf.orientation === "portrait" ? "portrait" : "landscape",
+      dpi,
+    },
+    print: normalizePrint(output.print),
+    files: {
+      pattern: asString(files.pattern, DEFAULT_FILE_NAMING.pattern),
+      folder: asString(files.folder, DEFAULT_FILE_NAMING.folder),
+      bundleName: asString(files.bundleName, DEFAULT_FILE_NAMING.bundleName),
+      manifest: typeof files.manifest === "boolean" ? files.manifest : DEFAULT_FILE_NAMING.manifest,
+    },
+  };
+};
+
+/**
+ * Validates a parsed project file and upgrades it to the current version.
+ * Throws a readable error for files that are not projects or come from a
+ * newer version of the app.
+ */
+export const parseProject = (value: unknown): Project => {
+  if (!isRecord(value) || value.app !== PROJECT_APP_ID) {
+    throw new Error("This file is not a certificate project.");
+  }
+
+  let raw = { ...value, version: asNumber(value.version, 1) } as RawProject;
+  if (raw.version > PROJECT_VERSION) {
+    throw new Error(
+      `This project was saved by a newer version (v${raw.version}). Please update the app.`
+    );
+  }
+  while (raw.version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[raw.version];
+    if (!migrate) {
+      throw new Error(`No migration available for project version ${raw.version}.`);
+    }
+    raw = migrate(raw);
+  }
+
+  if (!Array.isArray(raw.layers) || !raw.layers.length) {
+    throw new Error("Project has no layers.");
+  }
+
+  return {
+    app: PROJECT_APP_ID,
+    version: PROJECT_VERSION,
+    name: asString(raw.name, "Untitled project"),
+    savedAt: asString(raw.savedAt, new Date().toISOString()),
+    template: normalizeTemplate(raw.template),
+    templateSize: normalizeTemplateSize(raw.templateSize),
+    layers: raw.layers.map(normalizeLayer),
+    pages: normalizePages(raw.pages),
+    nameColumn: Math.max(0, Math.floor(asNumber(raw.nameColumn, 0))),
+    columns: Array.isArray(raw.columns) ? raw.columns.map((label) => asString(label, "")) : [],
+    output: normalizeOutput(raw.output),
+    certificateIds: normalizeCertificateIds(raw.certificateIds),
+    delivery: normalizeDelivery(raw.delivery),
+    variants: normalizeVariants(raw.variants),
+    fonts: normalizeFonts(raw.fonts),
+  };
+};
+
+export const readProjectFile = async (file: File) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON.`);
+  }
+  return parseProject(parsed);
+};
+
+/**
+ * Maps a saved column index onto the current sheet by header label, so a
+ * project keeps working when next event's sheet has its columns reordered.
+ */
+export const remapColumn = (column: number, savedColumns: string[], columns: string[]) => {
+  const label = savedColumns[column]?.trim().toLowerCase();
+  if (!label) return column;
+  const index = columns.findIndex((candidate) => candidate.trim().toLowerCase() === label);
+  return index >= 0 ? index : column;
+};
+
+export const remapLayerColumns = (
+  layers: Layer[],
+  savedColumns: string[],
+  columns: string[]
+): Layer[] =>
+  layers.map((layer) => {
+    if (layer.kind === "qr" || layer.source?.kind !== "column") return layer;
+    const column = remapColumn(layer.source.column, savedColumns, columns);
+    return layer.kind === "text"
+      ? { ...layer, source: { ...layer.source, column } }
+      : { ...layer, source: { ...layer.source, column } };
+  });
+
+/** Rebinds a project's name column and layers to a sheet's header labels. */
+export const bindProjectToColumns = <
+  T extends Pick<
+    ProjectState,
+    "layers" | "pages" | "nameColumn" | "columns" | "certificateIds" | "delivery"
+  >,
+>(
+  project: T,
+  columns: string[]
+): T => ({
+  ...project,
+  nameColumn: remapColumn(project.nameColumn, project.columns, columns),
+  layers: remapLayerColumns(project.layers, project.columns, columns),
+  pages: project.pages.map((page) => ({
+    ...page,
+    layers: remapLayerColumns(page.layers, project.columns, columns),
+  })),
+  certificateIds: {
+    ...project.certificateIds,
+    column: remapColumn(project.certificateIds.column, project.columns, columns),
+  },
+  delivery: {
+    ...project.delivery,
+    emailColumn:
+      project.delivery.emailColumn === null
+        ? null
+        : remapColumn(project.delivery.emailColumn, project.columns, columns),
+  },
+  columns,
+});
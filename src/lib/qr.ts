@@ -0,0 +1,14 @@
+import qrcode from "qrcode-generator";
+
+export type QrMatrix = { size: number; isDark: (row: number, column: number) => boolean };
+
+/** Modules of quiet zone drawn around the code so scanners can find it. */
+export const QR_QUIET_ZONE = 2;
+
+/** Encodes `text` with medium error correction and the smallest version that fits. */
+export const createQrMatrix = (text: string): QrMatrix => {
+  const code = qrcode(0, "M");
+  code.addData(text, "Byte");
+  code.make();
+  return { size: code.getModuleCount(), isDark: (row, column) => code.isDark(row, column) };
+};
@@ -0,0 +1,75 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { dataDir } from "./design-store";
+import { parseRegistry, registryToJson, type RegistryEntry } from "./registry";
+
+/**
+ * Issued certificates on this server, kept as one JSON file in the data
+ * directory so it can be copied, inspected, or replaced by hand.
+ */
+const registryPath = () => path.join(dataDir(), "registry.json");
+
+let writing = Promise.resolve();
+
+/** Runs `change` on the loaded registry and writes it back, one change at a time. */
+const updateRegistry = <T>(change: (registry: Map<string, RegistryEntry>) => T) => {
+  const task = writing.then(async () => {
+    const registry = await loadRegistry();
+    const result = change(registry);
+    await mkdir(dataDir(), { recursive: true });
+    await writeFile(`${registryPath()}.tmp`, registryToJson([...registry.values()]));
+    await rename(`${registryPath()}.tmp`, registryPath());
+    return result;
+  });
+  writing = task.then(
+    () => undefined,
+    () => undefined
+  );
+  return task;
+};
+
+export const loadRegistry = async () => {
+  const text = await readFile(registryPath(), "utf8").catch(() => null);
+  const entries = text ? parseRegistry(JSON.parse(text)) : [];
+  return new Map(entries.map((entry) => [entry.id, entry]));
+};
+
+export const findCertificate = async (id: string) => (await loadRegistry()).get(id) ?? null;
+
+/**
+ * Adds entries to the registry. Re-issuing an ID keeps its original issue
+ * date, so regenerating a batch does not make old certificates look new,
+ * and a revoked ID stays revoked unless the entry says otherwise.
+ */
+export const registerCertificates = (entries: RegistryEntry[]) =>
+  updateRegistry((registry) => {
+    for (const entry of entries) {
+      const existing = registry.get(entry.id);
+      const revokedAt = entry.revokedAt ?? existing?.revokedAt;
+      registry.set(entry.id, {
+        ...entry,
+        issuedAt: existing?.issuedAt ?? entry.issuedAt,
+        ...(revokedAt && { revokedAt }),
+      });
+    }
+    return registry.size;
+  });
+
+/**
+ * Revokes the given IDs, or restores them when `revoked` is false.
+ * Returns the IDs the registry holds; the others are ignored.
+ */
+export const setRevoked = (ids: string[], revoked: boolean) =>
+  updateRegistry((registry) => {
+    const revokedAt = new Date().toISOString();
+    return ids.filter((id) => {
+      const entry = registry.get(id);
+      if (!entry) return false;
+      if (!revoked) {
+        registry.set(id, { id, name: entry.name, event: entry.event, issuedAt: entry.issuedAt });
+      } else if (!entry.revokedAt) {
+        registry.set(id, { ...entry, revokedAt });
+      }
+      return true;
+    });
+  });
@@ -0,0 +1,80 @@
+import { csvCell } from "./files";
+
+/** One issued certificate, as recorded for verification. */
+export type RegistryEntry = {
+  id: string;
+  name: string;
+  event: string;
+  /** ISO timestamp of the first time this ID was issued. */
+  issuedAt: string;
+  /** ISO timestamp of when the certificate was withdrawn; absent while it is valid. */
+  revokedAt?: string;
+};
+
+export const REGISTRY_FILE_NAMES = { json: "registry.json", csv: "registry.csv" } as const;
+
+export const createRegistryEntries = (
+  ids: string[],
+  names: string[],
+  event: string,
+  issuedAt = new Date()
+): RegistryEntry[] =>
+  ids.map((id, index) => ({ id, name: names[index], event, issuedAt: issuedAt.toISOString() }));
+
+/** Marks the entries whose ID is in `revoked`, which maps IDs to when they were revoked. */
+export const withRevocations = (entries: RegistryEntry[], revoked: Map<string, string>) =>
+  entries.map((entry) => {
+    const revokedAt = revoked.get(entry.id);
+    return revokedAt ? { ...entry, revokedAt } : entry;
+  });
+
+const REGISTRY_COLUMNS: (keyof RegistryEntry)[] = ["id", "name", "event", "issuedAt", "revokedAt"];
+
+export const registryToCsv = (entries: RegistryEntry[]) =>
+  [
+    REGISTRY_COLUMNS,
+    ...entries.map((entry) => REGISTRY_COLUMNS.map((column) => entry[column] ?? "")),
+  ]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n") + "\r\n";
+
+export const registryToJson = (entries: RegistryEntry[]) =>
+  JSON.stringify({ app: "nucleus-cert", kind: "registry", certificates: entries }, null, 2);
+
+/** Accepts a registry export (or a bare array of entries) and drops malformed rows. */
+export const parseRegistry = (value: unknown): RegistryEntry[] => {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === "object" &&
+        value !== null &&
+        Array.isArray((value as { certificates?: unknown }).certificates)
+      ? (value as { certificates: unknown[] }).certificates
+      : null;
+  if (!list) {
+    throw new Error("Expected a registry export with a certificates list.");
+  }
+
+  return list.flatMap((item) => {
+    if (typeof item !== "object" || item === null) return [];
+    const entry = item as Record<string, unknown>;
+    if (typeof entry.id !== "string" || !entry.id.trim() || typeof entry.name !== "string")
+      return [];
+    const issuedAt =
+      typeof entry.issuedAt === "string" && !Number.isNaN(Date.parse(entry.issuedAt))
+        ? new Date(entry.issuedAt).toISOString()
+        : new Date().toISOString();
+    const revokedAt =
+      typeof entry.revokedAt === "string" && !Number.isNaN(Date.parse(entry.revokedAt))
+        ? new Date(entry.revokedAt).toISOString()
+        : null;
+    return [
+      {
+        id: entry.id.trim(),
+        name: entry.name,
+        event: typeof entry.event === "string" ? entry.event : "",
+        issuedAt,
+        ...(revokedAt && { revokedAt }),
+      },
+    ];
+  });
+};
@@ -0,0 +1,267 @@
+import { CERTIFICATE_ID_FIELD, verificationUrl } from "./certificate-id";
+import {
+  resolveLayerText,
+  transformText,
+  type ImageLayer,
+  type Layer,
+  type QrLayer,
+  type TextLayer,
+} from "./layers";
+import { createCanvasMeasurer, layoutText, lineOffsets, type TextLayout } from "./layout";
+import {
+  addRecipientPages,
+  createCertificatePdf,
+  setPdfSignatures,
+  type PagePlacement,
+} from "./pdf";
+import { addPngText } from "./png-text";
+import { QR_QUIET_ZONE, createQrMatrix } from "./qr";
+import { fontStackFor, textDirection } from "./scripts";
+import { SIGNATURE_KEYWORD } from "./signing";
+import { findColumn } from "./template";
+
+/**
+ * The slice of the 2D context API the renderer uses. DOM canvases,
+ * OffscreenCanvas, and Node canvas implementations all satisfy it.
+ */
+export type Canvas2D = Pick<
+  CanvasRenderingContext2D,
+  | "clearRect"
+  | "createLinearGradient"
+  | "createPattern"
+  | "direction"
+  | "drawImage"
+  | "fillRect"
+  | "fillStyle"
+  | "fillText"
+  | "font"
+  | "globalAlpha"
+  | "letterSpacing"
+  | "lineJoin"
+  | "lineWidth"
+  | "measureText"
+  | "restore"
+  | "rotate"
+  | "save"
+  | "setTransform"
+  | "shadowBlur"
+  | "shadowColor"
+  | "shadowOffsetX"
+  | "shadowOffsetY"
+  | "strokeStyle"
+  | "strokeText"
+  | "textAlign"
+  | "textBaseline"
+  | "translate"
+>;
+
+/** Canvas font for a layer; pass the text to include fallback fonts for its scripts. */
+export const fontSpecFor = (layer: TextLayer, fontSize = layer.fontSize, text = "") =>
+  `${layer.fontStyle} ${layer.fontWeight} ${fontSize}px ${fontStackFor(layer.fontKey, text)}`;
+
+/** Fill for a text block centred on the origin; a pattern fill without its image uses the color. */
+const textFillStyle = (
+  ctx: Canvas2D,
+  layer: TextLayer,
+  layout: TextLayout,
+  pattern?: CanvasImageSource
+) => {
+  const fill = layer.fill;
+  if (fill?.kind === "pattern") {
+    return (pattern && ctx.createPattern(pattern, "repeat")) || layer.color;
+  }
+  if (fill?.kind !== "gradient") return layer.color;
+
+  const width = layout.width;
+  const height = layout.lineHeight * layout.lines.length;
+  const centerX = layer.align === "left" ? width / 2 : layer.align === "right" ? -width / 2 : 0;
+  const angle = (fill.angle * Math.PI) / 180;
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  // Half the block's extent along the gradient, so both colors reach its corners.
+  const reach = (Math.abs(dx) * width + Math.abs(dy) * height) / 2;
+  const gradient = ctx.createLinearGradient(
+    centerX - dx * reach,
+    -dy * reach,
+    centerX + dx * reach,
+    dy * reach
+  );
+  gradient.addColorStop(0, fill.from);
+  gradient.addColorStop(1, fill.to);
+  return gradient;
+};
+
+/** `pattern` is the decoded image of a pattern fill. */
+export const drawTextLayer = (
+  ctx: Canvas2D,
+  layer: TextLayer,
+  text: string,
+  size: { width: number; height: number },
+  pattern?: CanvasImageSource
+) => {
+  const shown = transformText(text, layer.textTransform);
+  if (!shown) return;
+
+  const measure = createCanvasMeasurer(
+    ctx,
+    (fontSize) => fontSpecFor(layer, fontSize, shown),
+    layer.letterSpacing
+  );
+  const layout = layoutText(shown, layer, size, measure);
+  const offsets = lineOffsets(layout);
+
+  ctx.save();
+  ctx.translate(layer.position.x * size.width, layer.position.y * size.height);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.globalAlpha = layer.opacity;
+  // Alignment stays physical; the direction only sets the bidi base for mixed text.
+  ctx.direction = textDirection(shown);
+  ctx.textAlign = layer.align;
+  ctx.textBaseline = "middle";
+  ctx.font = fontSpecFor(layer, layout.fontSize, shown);
+  ctx.letterSpacing = `${layer.letterSpacing}px`;
+  if (layer.shadow) {
+    ctx.shadowColor = layer.shadow.color;
+    ctx.shadowBlur = layer.shadow.blur;
+    ctx.shadowOffsetX = layer.shadow.offsetX;
+    ctx.shadowOffsetY = layer.shadow.offsetY;
+  }
+  if (layer.outline && layer.outline.width > 0) {
+    // Half of the stroke falls inside the letters and is covered by the fill.
+    ctx.strokeStyle = layer.outline.color;
+    ctx.lineWidth = layer.outline.width * 2;
+    ctx.lineJoin = "round";
+    offsets.forEach((offset, index) => ctx.strokeText(layout.lines[index], 0, offset));
+    // The outline already cast the shadow.
+    ctx.shadowColor = "transparent";
+  }
+  ctx.fillStyle = textFillStyle(ctx, layer, layout, pattern);
+  offsets.forEach((offset, index) => ctx.fillText(layout.lines[index], 0, offset));
+  ctx.restore();
+};
+
+/** What a QR layer encodes for a row: the verification URL for its certificate ID. */
+export const resolveQrValue = (row: string[], columns: string[], verifyBaseUrl: string) => {
+  const id = (row[findColumn(CERTIFICATE_ID_FIELD, columns)] ?? "").trim();
+  return id ? verificationUrl(verifyBaseUrl, id) : "";
+};
+
+export const drawQrLayer = (
+  ctx: Canvas2D,
+  layer: QrLayer,
+  value: string,
+  size: { width: number; height: number }
+) => {
+  if (!value) return;
+
+  const matrix = createQrMatrix(value);
+  const side = layer.size * size.width;
+  const cell = side / (matrix.size + QR_QUIET_ZONE * 2);
+  const left = layer.position.x * size.width - side / 2;
+  const top = layer.position.y * size.height - side / 2;
+
+  if (layer.background) {
+    ctx.fillStyle = layer.background;
+    ctx.fillRect(left, top, side, side);
+  }
+  ctx.fillStyle = layer.color;
+  for (let row = 0; row < matrix.size; row++) {
+    for (let column = 0; column < matrix.size; column++) {
+      if (matrix.isDark(row, column)) {
+        // Slight overdraw hides hairline seams between modules when scaled.
+        ctx.fillRect(
+          left + (column + QR_QUIET_ZONE) * cell,
+          top + (row + QR_QUIET_ZONE) * cell,
+          cell + 0.5,
+          cell + 0.5
+        );
+      }
+    }
+  }
+};
+
+/** Draws an image into a layer's box the way CSS `object-fit` would, then rotates and fades it. */
+export const drawImageLayer = (
+  ctx: Canvas2D,
+  layer: ImageLayer,
+  image: CanvasImageSource,
+  size: { width: number; height: number }
+) => {
+  const { width, height } = image as { width: number; height: number };
+  const box = { width: layer.box.width * size.width, height: layer.box.height * size.height };
+  if (!width || !height || !box.width || !box.height) return;
+
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.translate(layer.position.x * size.width, layer.position.y * size.height);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  if (layer.fit === "stretch") {
+    ctx.drawImage(image, -box.width / 2, -box.height / 2, box.width, box.height);
+  } else if (layer.fit === "contain") {
+    const scale = Math.min(box.width / width, box.height / height);
+    const fitted = { width: width * scale, height: height * scale };
+    ctx.drawImage(image, -fitted.width / 2, -fitted.height / 2, fitted.width, fitted.height);
+  } else {
+    // Crop the source to the box's aspect ratio, keeping its centre.
+    const scale = Math.max(box.width / width, box.height / height);
+    const crop = { width: box.width / scale, height: box.height / scale };
+    ctx.drawImage(
+      image,
+      (width - crop.width) / 2,
+      (height - crop.height) / 2,
+      crop.width,
+      crop.height,
+      -box.width / 2,
+      -box.height / 2,
+      box.width,
+      box.height
+    );
+  }
+  ctx.restore();
+};
+
+/** `images` holds the decoded picture for each image layer and pattern fill, keyed by layer ID. */
+export const drawCertificate = (
+  ctx: Canvas2D,
+  template: CanvasImageSource,
+  layers: Layer[],
+  row: string[],
+  columns: string[],
+  size: { width: number; height: number },
+  verifyBaseUrl = "",
+  images = new Map<string, CanvasImageSource>()
+) => {
+  ctx.clearRect(0, 0, size.width, size.height);
+  ctx.drawImage(template, 0, 0, size.width, size.height);
+
+  for (const layer of layers) {
+    if (layer.kind === "qr") {
+      drawQrLayer(ctx, layer, resolveQrValue(row, columns, verifyBaseUrl), size);
+    } else if (layer.kind === "image") {
+      const image = images.get(layer.id);
+      if (image) drawImageLayer(ctx, layer, image, size);
+    } else {
+      drawTextLayer(ctx, layer, resolveLayerText(layer, row, columns), size, images.get(layer.id));
+    }
+  }
+};
+
+/**
+ * Wraps rendered pages into the requested per-recipient format, embedding
+ * the signature token if given: one PNG per page, or a single PDF.
+ */
+export const encodeCertificate = async (
+  pngs: Uint8Array[],
+  format: "png" | "pdf",
+  placements: PagePlacement[],
+  title: string,
+  signature?: string
+) => {
+  if (format === "png") {
+    return signature ? pngs.map((png) => addPngText(png, SIGNATURE_KEYWORD, signature)) : pngs;
+  }
+  const pdf = await createCertificatePdf(title);
+  await addRecipientPages(pdf, pngs, placements);
+  if (signature) setPdfSignatures(pdf, SIGNATURE_KEYWORD, [signature]);
+  return [await pdf.save()];
+};
@@ -0,0 +1,73 @@
+import { getFontOption } from "./fonts";
+
+/**
+ * Writing systems the renderer knows a fallback font for. Text in these
+ * scripts is drawn with the layer's font where it has the glyphs and with
+ * the script's fallback family everywhere else.
+ */
+export type Script = "latin" | "greek" | "cyrillic" | "arabic" | "hebrew" | "devanagari" | "cjk";
+
+/** Self-hosted family tried after the layer's font; see FALLBACK_FONTS. */
+export const SCRIPT_FALLBACKS: Record<Script, string> = {
+  latin: "Noto Sans",
+  greek: "Noto Sans",
+  cyrillic: "Noto Sans",
+  arabic: "Noto Sans Arabic",
+  hebrew: "Noto Sans Hebrew",
+  devanagari: "Noto Sans Devanagari",
+  cjk: "Noto Sans SC",
+};
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ["arabic", /\p{Script=Arabic}/u],
+  ["hebrew", /\p{Script=Hebrew}/u],
+  ["devanagari", /\p{Script=Devanagari}/u],
+  ["cjk", /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Bopomofo}]/u],
+  ["greek", /\p{Script=Greek}/u],
+  ["cyrillic", /\p{Script=Cyrillic}/u],
+  ["latin", /\p{Script=Latin}/u],
+];
+
+const RTL_LETTER =
+  /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+
+/** Script of one character, or null for digits, punctuation, and scripts without a fallback. */
+export const scriptOf = (char: string) =>
+  SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char))?.[0] ?? null;
+
+/**
+ * Scripts in `text` that may need a fallback. Plain ASCII is left out, since
+ * every built-in font covers it.
+ */
+export const detectScripts = (text: string) => {
+  const scripts = new Set<Script>();
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) continue;
+    const script = scriptOf(char);
+    if (script) scripts.add(script);
+  }
+  return [...scripts];
+};
+
+/** Base direction from the first letter, as the Unicode bidi algorithm does for a paragraph. */
+export const textDirection = (text: string): "ltr" | "rtl" => {
+  const letter = /\p{L}/u.exec(text)?.[0];
+  return letter && RTL_LETTER.test(letter) ? "rtl" : "ltr";
+};
+
+/** Inserts families before the stack's generic family, e.g. `"Cinzel", "Noto Sans Arabic", serif`. */
+export const withFallbacks = (fontFamily: string, families: string[]) => {
+  if (!families.length) return fontFamily;
+  const stack = fontFamily.split(",").map((family) => family.trim());
+  const generic = stack.at(-1)?.startsWith('"') ? null : stack.pop();
+  const extra = families.filter((family) => !stack.includes(`"${family}"`));
+  return [...stack, ...extra.map((family) => `"${family}"`), ...(generic ? [generic] : [])].join(
+    ", "
+  );
+};
+
+/** The CSS font stack for drawing `text` in a layer's font, with fallbacks for its scripts. */
+export const fontStackFor = (fontKey: string, text: string) =>
+  withFallbacks(getFontOption(fontKey).fontFamily, [
+    ...new Set(detectScripts(text).map((script) => SCRIPT_FALLBACKS[script])),
+  ]);
@@ -0,0 +1,304 @@
+import path from "node:path";
+import { GlobalFonts } from "@napi-rs/canvas";
+import { API_LIMITS, httpError } from "./api";
+import { assignCertificateIds, resolveEventName, withCertificateIds } from "./certificate-id";
+import {
+  createCertificateRenderer,
+  filesPerRecipient,
+  renderConfigFromDesign,
+  type RenderConfig,
+} from "./engine";
+import { getFontOption, primaryFamily } from "./fonts";
+import { createPdfWriter } from "./imposition";
+import { isTextLayer, validateLayer } from "./layers";
+import {
+  FILE_MANIFEST_NAME,
+  outputManifestCsv,
+  pagePaths,
+  planOutputPaths,
+  type FileNaming,
+} from "./naming";
+import {
+  createNodeBackend,
+  hasFontFamily,
+  loadPageTemplates,
+  loadVariantTemplates,
+  registerBundledFonts,
+  registerFontsourceFonts,
+  withProjectFonts,
+} from "./node-backend";
+import { createCertificatePdf, type OutputFormat } from "./pdf";
+import { designLayers, type Project } from "./project";
+import {
+  REGISTRY_FILE_NAMES,
+  createRegistryEntries,
+  registryToCsv,
+  registryToJson,
+} from "./registry";
+import { describeIssue } from "./template";
+import { createZipWriter, type ByteSink } from "./zip";
+
+export type Recipient = string | Record<string, unknown>;
+
+const OUTPUT_FORMATS: OutputFormat[] = ["png", "pdf", "pdf-merged", "pdf-print"];
+
+const publicDir = () => path.join(process.cwd(), "public");
+
+let fontsReady: Promise<void> | null = null;
+
+/** Registers built-in fonts once per server process, plus any in NUCLEUS_FONT_DIR. */
+const prepareFonts = () => {
+  fontsReady ??= Promise.all([
+    registerBundledFonts(path.join(publicDir(), "fonts")),
+    registerFontsourceFonts(path.join(process.cwd(), "node_modules")),
+  ]).then(() => {
+    if (process.env.NUCLEUS_FONT_DIR) {
+      GlobalFonts.loadFontsFromDir(path.resolve(process.env.NUCLEUS_FONT_DIR));
+    }
+  });
+  return fontsReady;
+};
+
+export const parseFormat = (value: unknown, fallback: OutputFormat): OutputFormat => {
+  if (value === undefined || value === null || value === "") return fallback;
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw httpError(400, `format must be one of ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+  return value as OutputFormat;
+};
+
+/** Columns a design expects; designs saved without a sheet get a single "Name" column. */
+const designColumns = (design: Project) =>
+  design.columns.length
+    ? { columns: design.columns, nameColumn: design.nameColumn }
+    : { columns: ["Name"], nameColumn: 0 };
+
+const fieldValue = (value: unknown, label: string, index: number) => {
+  if (value === undefined || value === null) return "";
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+    throw httpError(400, `recipients[${index}].${label} must be a string or number.`);
+  }
+  const text = String(value);
+  if (text.length > API_LIMITS.maxFieldLength) {
+    throw httpError(
+      400,
+      `recipients[${index}].${label} is longer than ${API_LIMITS.maxFieldLength} characters.`
+    );
+  }
+  return text;
+};
+
+/**
+ * Turns API recipients into sheet rows for a design. Each recipient is
+ * either a name or an object keyed by column label (case-insensitive);
+ * keys the design does not know become extra columns for placeholders.
+ * Rows come back with their certificate IDs appended.
+ */
+export const bindRecipients = (design: Project, recipients: unknown) => {
+  if (!Array.isArray(recipients) || !recipients.length) {
+    throw httpError(400, "recipients must be a non-empty array.");
+  }
+  if (recipients.length > API_LIMITS.maxRecipients) {
+    throw httpError(413, `At most ${API_LIMITS.maxRecipients} recipients per request.`);
+  }
+
+  const { columns: known, nameColumn } = designColumns(design);
+  const nameLabel = known[nameColumn] || "Name";
+  const records = recipients.map((recipient: unknown, index) => {
+    if (typeof recipient === "string") return { [nameLabel]: recipient };
+    if (typeof recipient !== "object" || recipient === null || Array.isArray(recipient)) {
+      throw httpError(400, `recipients[${index}] must be a name or an object of fields.`);
+    }
+    return recipient as Record<string, unknown>;
+  });
+
+  const columns = [...known];
+  const lowered = columns.map((label) => label.trim().toLowerCase());
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!lowered.includes(key.trim().toLowerCase())) {
+        columns.push(key);
+        lowered.push(key.trim().toLowerCase());
+      }
+    }
+  }
+
+  const rows = records.map((record, index) => {
+    const byLabel = new Map(
+      Object.entries(record).map(([key, value]) => [key.trim().toLowerCase(), value])
+    );
+    const row = columns.map((label, column) =>
+      fieldValue(byLabel.get(lowered[column]), label, index)
+    );
+    if (!row[nameColumn].trim()) {
+      throw httpError(400, `recipients[${index}] has no "${nameLabel}".`);
+    }
+    return row;
+  });
+
+  const names = rows.map((row) => row[nameColumn].trim());
+  const event = resolveEventName(design.certificateIds, design.name);
+  let ids: string[];
+  try {
+    ids = assignCertificateIds(rows, names, design.certificateIds, columns, event);
+  } catch (error) {
+    throw httpError(422, error instanceof Error ? error.message : "Invalid certificate IDs.");
+  }
+
+  return { ...withCertificateIds(columns, rows, ids), names, ids, event };
+};
+
+/**
+ * Checks everything that would make every certificate wrong: placeholders
+ * pointing at unknown fields and fonts the server does not have. Returns
+ * the design with its text pointed at its registered uploaded fonts.
+ */
+const checkDesign = async (design: Project, rows: string[][], columns: string[]) => {
+  const layers = designLayers(design);
+  const problems = layers.flatMap((layer) =>
+    validateLayer(layer, rows, columns)
+      .filter((issue) => issue.kind !== "empty-cell")
+      .map((issue) => `${layer.label || "Untitled"}: ${describeIssue(issue)}`)
+  );
+  if (problems.length) {
+    throw httpError(422, problems.join(" "));
+  }
+  const photoLayer = layers.find(
+    (layer) => layer.kind === "image" && layer.source?.kind === "column"
+  );
+  if (photoLayer) {
+    throw httpError(
+      422,
+      `Image layer "${photoLayer.label || "Untitled"}" takes a photo per recipient, which this API cannot receive. Generate in the app or with the CLI's --photos option.`
+    );
+  }
+
+  await prepareFonts();
+  let linked: Project;
+  try {
+    linked = withProjectFonts(design);
+  } catch (error) {
+    throw httpError(
+      422,
+      error instanceof Error ? error.message : "Unable to load the design's fonts."
+    );
+  }
+  const missing = [
+    ...new Set(
+      designLayers(linked)
+        .filter(isTextLayer)
+        .map((layer) => primaryFamily(getFontOption(layer.fontKey)))
+    ),
+  ].filter((family) => !hasFontFamily(family));
+  if (missing.length) {
+    throw httpError(
+      422,
+      `The server has no font file for ${missing.join(", ")}. Add it to NUCLEUS_FONT_DIR.`
+    );
+  }
+  return linked;
+};
+
+/** `origin` stands in for the design's verification URL when it has none. */
+export const createDesignRenderer = async (
+  design: Project,
+  format: OutputFormat,
+  rows: string[][],
+  columns: string[],
+  origin: string
+) => {
+  const linked = await checkDesign(design, rows, columns);
+  let config: RenderConfig;
+  try {
+    config = renderConfigFromDesign(
+      {
+        ...linked,
+        output: { ...design.output, format },
+        certificateIds: { verifyBaseUrl: design.certificateIds.verifyBaseUrl || origin },
+      },
+      columns
+    );
+  } catch (error) {
+    throw httpError(422, error instanceof Error ? error.message : "Invalid print settings.");
+  }
+  const [templates, variantTemplates] = await Promise.all([
+    loadPageTemplates(design, publicDir()),
+    loadVariantTemplates(design.variants, publicDir()),
+  ]).catch((error: unknown) => {
+    throw httpError(500, error instanceof Error ? error.message : "Unable to load the template.");
+  });
+  const renderer = await createCertificateRenderer(
+    createNodeBackend(),
+    config,
+    templates,
+    variantTemplates
+  ).catch((error: unknown) => {
+    throw httpError(422, error instanceof Error ? error.message : "Invalid design variants.");
+  });
+  return { config, renderer };
+};
+
+type Batch = Awaited<ReturnType<typeof createDesignRenderer>> & {
+  rows: string[][];
+  names: string[];
+  ids: string[];
+  event: string;
+};
+
+export const registryFor = ({ ids, names, event }: Batch) =>
+  createRegistryEntries(ids, names, event);
+
+/** One PDF for the batch: every recipient's pages in order, or imposed print sheets. */
+export const renderMergedPdf = async ({ renderer, config, rows }: Batch, title: string) => {
+  const pdf = await createCertificatePdf(title);
+  const writer = createPdfWriter(pdf, config);
+  for (const row of rows) {
+    await writer.add(await renderer.renderPages(row));
+  }
+  await writer.finish();
+  return pdf.save();
+};
+
+/**
+ * Streams a ZIP of per-recipient files, named and foldered per `naming`,
+ * plus the registry of issued IDs. Rendering happens as the client reads,
+ * so large batches never sit in memory; a failure part-way aborts the stream.
+ */
+export const streamArchive = (batch: Batch, naming: FileNaming) => {
+  const { renderer, config, rows, names } = batch;
+  const files = rows.map((row, index) => ({ row: index, name: names[index], values: row }));
+  const paths = planOutputPaths(files, config.columns, naming, config.format).map((entryPath) =>
+    pagePaths(entryPath, filesPerRecipient(config))
+  );
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const sink: ByteSink = {
+    write: (chunk) => writer.write(chunk),
+    close: () => writer.close(),
+    abort: () => writer.abort(),
+  };
+
+  const zip = createZipWriter(sink);
+  void (async () => {
+    for (const [index, row] of rows.entries()) {
+      const output = await renderer.render(row, names[index]);
+      for (const [page, bytes] of output.entries()) {
+        await zip.addFile(paths[index][page], bytes);
+      }
+    }
+    const registry = registryFor(batch);
+    const encoder = new TextEncoder();
+    await zip.addFile(REGISTRY_FILE_NAMES.csv, encoder.encode(registryToCsv(registry)));
+    await zip.addFile(REGISTRY_FILE_NAMES.json, encoder.encode(registryToJson(registry)));
+    if (naming.manifest) {
+      const manifest = outputManifestCsv(files, paths, config.columns);
+      await zip.addFile(FILE_MANIFEST_NAME, encoder.encode(manifest));
+    }
+    await zip.finish();
+  })().catch(async (error: unknown) => {
+    console.error(error);
+    await zip.abort().catch(() => undefined);
+  });
+
+  return readable;
+};
@@ -0,0 +1,175 @@
+import * as XLSX from "xlsx";
+import { readDelimited, type DelimitedText } from "./delimited";
+
+export type ColumnOption = { label: string; value: number };
+
+export type SheetData = {
+  rows: string[][];
+  columnOptions: ColumnOption[];
+  /** Column most likely to hold recipient names. */
+  nameColumn: number;
+};
+
+type RawCell = string | number | boolean | null | undefined;
+
+export const normalizeSheetRows = (rows: unknown[]) =>
+  rows
+    .map((row) =>
+      (Array.isArray(row) ? row : [row]).map((cell: RawCell) => {
+        if (typeof cell === "string") return cell.trim();
+        if (typeof cell === "number") return String(cell);
+        return "";
+      })
+    )
+    .filter((row) => row.some((cell) => cell));
+
+export const buildColumnOptions = (rows: string[][]): ColumnOption[] => {
+  const maxColumns = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headerRow = rows[0] ?? [];
+  return Array.from({ length: maxColumns }, (_, index) => ({
+    label: headerRow[index] || `Column ${index + 1}`,
+    value: index,
+  }));
+};
+
+/**
+ * Turns spreadsheet rows into the model the app works with. Throws readable
+ * errors for empty sheets.
+ */
+export const parseSheetRows = (rawRows: unknown[]): SheetData => {
+  const rows = normalizeSheetRows(rawRows);
+  if (!rows.length) {
+    throw new Error("No values detected in the sheet.");
+  }
+
+  const columnOptions = buildColumnOptions(rows);
+  if (!columnOptions.length) {
+    throw new Error("Unable to detect any columns in the sheet.");
+  }
+
+  const preferredIndex = columnOptions.findIndex((option) =>
+    option.label.toLowerCase().includes("name")
+  );
+  return { rows, columnOptions, nameColumn: preferredIndex >= 0 ? preferredIndex : 0 };
+};
+
+/** One sheet's cells as read, before `parseSheetRows`. */
+export type WorkbookSheet = { name: string; rows: unknown[][] };
+
+export type Workbook = {
+  sheets: WorkbookSheet[];
+  /** How a delimited text file was read; null for spreadsheet formats. */
+  text: Omit<DelimitedText, "rows"> | null;
+};
+
+const TEXT_EXTENSIONS = /\.(csv|tsv|tab|txt)$/i;
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+const OLE_MAGIC = [0xd0, 0xcf, 0x11, 0xe0];
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) =>
+  prefix.every((byte, index) => bytes[index] === byte);
+
+/** By extension; without one, anything that is not a ZIP (XLSX, ODS) or OLE (XLS) file. */
+const isDelimitedFile = (bytes: Uint8Array, fileName: string) =>
+  TEXT_EXTENSIONS.test(fileName) ||
+  (!/\.\w+$/.test(fileName) && !startsWith(bytes, ZIP_MAGIC) && !startsWith(bytes, OLE_MAGIC));
+
+const fromText = (delimited: DelimitedText, name: string): Workbook => ({
+  sheets: [{ name, rows: delimited.rows }],
+  text: { delimiter: delimited.delimiter, encoding: delimited.encoding },
+});
+
+/**
+ * Reads every sheet of an XLSX, XLS, or ODS workbook (including Google
+ * Sheets downloads), or a CSV/TSV file as a single sheet. Works in the
+ * browser and in Node.
+ */
+export const readSpreadsheet = (data: ArrayBuffer | Uint8Array, fileName = ""): Workbook => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (isDelimitedFile(bytes, fileName)) {
+    return fromText(readDelimited(bytes), fileName.replace(/\.\w+$/, "") || "Sheet1");
+  }
+
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(bytes, { type: "array" });
+  } catch {
+    throw new Error("The file is not a spreadsheet this app can read.");
+  }
+  const sheets = workbook.SheetNames.map((name) => ({
+    name,
+    rows: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1 }),
+  }));
+  if (!sheets.length) {
+    throw new Error("No sheet found in workbook.");
+  }
+  return { sheets, text: null };
+};
+
+/** Tabular text copied from a spreadsheet (tab-separated) or typed as CSV. */
+export const readPastedTable = (text: string): Workbook =>
+  fromText(readDelimited(text), "Pasted rows");
+
+/** The first sheet that has values, so a blank cover sheet is skipped. */
+export const defaultSheetIndex = (workbook: Workbook) =>
+  Math.max(
+    0,
+    workbook.sheets.findIndex((sheet) => normalizeSheetRows(sheet.rows).length)
+  );
+
+/**
+ * Reads one sheet of a workbook file: the named one, or the default.
+ * Throws when the name does not exist.
+ */
+export const readWorkbook = (
+  data: ArrayBuffer | Uint8Array,
+  fileName = "",
+  sheetName?: string
+): SheetData => {
+  const workbook = readSpreadsheet(data, fileName);
+  if (sheetName === undefined) {
+    return parseSheetRows(workbook.sheets[defaultSheetIndex(workbook)].rows);
+  }
+  const sheet = workbook.sheets.find((entry) => entry.name === sheetName);
+  if (!sheet) {
+    const names = workbook.sheets.map((entry) => `"${entry.name}"`).join(", ");
+    throw new Error(`No sheet named "${sheetName}". Sheets: ${names}.`);
+  }
+  return parseSheetRows(sheet.rows);
+};
+
+/** The first row is a header when the name column's first cell says so. */
+export const hasHeaderRow = (rows: string[][], nameColumn: number) =>
+  (rows[0]?.[nameColumn] ?? "").toLowerCase().includes("name");
+
+/** Data rows with a non-empty name, those names, and each row's index in `rows`. */
+export const extractRecipients = (rows: string[][], nameColumn: number) => {
+  const indices: number[] = [];
+  for (let index = hasHeaderRow(rows, nameColumn) ? 1 : 0; index < rows.length; index++) {
+    if ((rows[index][nameColumn] ?? "").trim()) indices.push(index);
+  }
+
+  return {
+    rows: indices.map((index) => rows[index]),
+    names: indices.map((index) => rows[index][nameColumn].trim()),
+    indices,
+  };
+};
+
+/** Plain decimal numbers go back in as numbers; IDs like `007` stay text. */
+const toCell = (value: string) =>
+  /^-?(0|[1-9]\d{0,14})(\.\d+)?$/.test(value) ? Number(value) : value;
+
+/** Writes rows, e.g. after edits in the data grid, to a one-sheet XLSX file. */
+export const rowsToXlsx = (rows: string[][], sheetName = "Sheet1") => {
+  const workbook = XLSX.utils.book_new();
+  const sheet = XLSX.utils.aoa_to_sheet(rows.map((row) => row.map(toCell)));
+  // Excel caps sheet names at 31 characters and bans a few.
+  const name =
+    sheetName
+      .replace(/[\\/?*[\]:]/g, " ")
+      .trim()
+      .slice(0, 31) || "Sheet1";
+  XLSX.utils.book_append_sheet(workbook, sheet, name);
+  return new Uint8Array(XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer);
+};
@@ -0,0 +1,109 @@
+import JSZip from "jszip";
+import { readPdfSignatures } from "./pdf";
+import { readPngText } from "./png-text";
+import {
+  MANIFEST_FILE_NAME,
+  SIGNATURE_KEYWORD,
+  importPublicKey,
+  sha256Hex,
+  verifyManifest,
+  verifyToken,
+  type SignedManifest,
+  type TokenCheck,
+} from "./signing";
+
+export type ArchiveFileStatus = "ok" | "modified" | "missing";
+
+export type SignatureReport =
+  | { kind: "certificate"; checks: TokenCheck[] }
+  | {
+      kind: "archive";
+      /** The manifest's own signature verifies against the given key. */
+      valid: boolean;
+      /** The manifest names the same key the check used. */
+      sameKey: boolean;
+      files: { path: string; status: ArchiveFileStatus }[];
+      /** Files in the ZIP the manifest does not cover. */
+      unlisted: string[];
+    };
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) =>
+  prefix.every((byte, index) => bytes[index] === byte);
+
+const PNG_MAGIC = [137, 80, 78, 71];
+const PDF_MAGIC = [37, 80, 68, 70];
+const ZIP_MAGIC = [80, 75, 3, 4];
+
+const checkArchive = async (bytes: Uint8Array, key: CryptoKey, publicKey: string) => {
+  const zip = await JSZip.loadAsync(bytes);
+  const manifestEntry = zip.file(MANIFEST_FILE_NAME);
+  if (!manifestEntry) {
+    throw new Error(`The ZIP has no ${MANIFEST_FILE_NAME}; it was not signed.`);
+  }
+  let manifest: SignedManifest;
+  try {
+    manifest = JSON.parse(await manifestEntry.async("string"));
+  } catch {
+    throw new Error(`${MANIFEST_FILE_NAME} is not valid JSON.`);
+  }
+  if (manifest?.kind !== "manifest" || !Array.isArray(manifest.files)) {
+    throw new Error(`${MANIFEST_FILE_NAME} is not a signature manifest.`);
+  }
+
+  const listed = new Set(manifest.files.map((file) => file.path));
+  const files = await Promise.all(
+    manifest.files.map(async ({ path, sha256 }) => {
+      const entry = zip.file(path);
+      const status: ArchiveFileStatus = !entry
+        ? "missing"
+        : (await sha256Hex(await entry.async("uint8array"))) === sha256
+          ? "ok"
+          : "modified";
+      return { path, status };
+    })
+  );
+  const unlisted = Object.values(zip.files)
+    .filter((entry) => !entry.dir && entry.name !== MANIFEST_FILE_NAME && !listed.has(entry.name))
+    .map((entry) => entry.name);
+
+  return {
+    kind: "archive" as const,
+    valid: await verifyManifest(key, manifest),
+    sameKey: manifest.publicKey === publicKey.trim(),
+    files,
+    unlisted,
+  };
+};
+
+/**
+ * Checks a signed PNG, PDF, or certificate ZIP against an issuer's public
+ * key. Throws readable errors for unsupported or unsigned files.
+ */
+export const checkSignedFile = async (
+  bytes: Uint8Array,
+  publicKey: string
+): Promise<SignatureReport> => {
+  const key = await importPublicKey(publicKey);
+
+  if (startsWith(bytes, ZIP_MAGIC)) return checkArchive(bytes, key, publicKey);
+
+  let tokens: string[];
+  if (startsWith(bytes, PNG_MAGIC)) {
+    const token = readPngText(bytes).get(SIGNATURE_KEYWORD);
+    tokens = token ? [token] : [];
+  } else if (startsWith(bytes, PDF_MAGIC)) {
+    tokens = await readPdfSignatures(bytes, SIGNATURE_KEYWORD).catch(() => {
+      throw new Error("The PDF could not be read.");
+    });
+  } else {
+    throw new Error("Drop a certificate PNG, PDF, or the ZIP it came in.");
+  }
+
+  if (!tokens.length) {
+    throw new Error("This file carries no signature.");
+  }
+  return {
+    kind: "certificate",
+    checks: await Promise.all(tokens.map((token) => verifyToken(key, token))),
+  };
+};
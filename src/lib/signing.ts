@@ -0,0 +1,265 @@
+import { toBase64 } from "./files";
+import type { CustomFont } from "./fonts";
+import type { Layer } from "./layers";
+import type { Variant } from "./variants";
+
+/**
+ * Ed25519 signatures over issued certificates. Runs on WebCrypto, so the
+ * browser, the render worker, and the Node CLI share the same code.
+ *
+ * A signature token is `<payload>.<signature>`, both base64url: the payload
+ * is the canonical JSON of the certificate's claims and the signature covers
+ * the payload segment exactly as written.
+ */
+
+const ALGORITHM = { name: "Ed25519" } as const;
+const CLAIMS_VERSION = 1;
+
+/** Keyword of the PNG tEXt chunk and key of the PDF Info entry holding tokens. */
+export const SIGNATURE_KEYWORD = "NucleusCertSignature";
+export const MANIFEST_FILE_NAME = "manifest.json";
+
+export type SigningKey = {
+  /** Private JWK; only ever stored locally or exported by the issuer. */
+  privateKey: JsonWebKey;
+  /** Raw 32-byte public key, base64url. This is what verifiers need. */
+  publicKey: string;
+  createdAt: string;
+};
+
+export type CertificateClaims = {
+  v: number;
+  id: string;
+  name: string;
+  event: string;
+  issuedAt: string;
+  /** SHA-256 of the design the certificate was rendered from. */
+  design: string;
+  /** Recipient row, keyed by column label. */
+  fields: Record<string, string>;
+};
+
+export type ManifestFile = { path: string; sha256: string };
+
+export type SignedManifest = {
+  app: "nucleus-cert";
+  kind: "manifest";
+  v: number;
+  publicKey: string;
+  design: string;
+  issuedAt: string;
+  files: ManifestFile[];
+  signature: string;
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64Url = (bytes: Uint8Array) =>
+  toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+export const fromBase64Url = (value: string) => {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error("Invalid base64url value.");
+  }
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/** JSON with sorted object keys, so the same value always hashes and signs the same. */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const sha256Hex = async (bytes: Uint8Array) =>
+  toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", bytes as BufferSource)));
+
+/**
+ * Hash of everything that determines how a certificate looks, minus the
+ * recipient. `templates` holds one image per page. Designs without extra
+ * pages, variant rules, or uploaded fonts hash as they did before those
+ * existed.
+ */
+export const hashDesign = async (
+  design: {
+    templateSize: { width: number; height: number };
+    layers: Layer[];
+    pages?: { templateSize: { width: number; height: number }; layers: Layer[] }[];
+    variants?: { rules: Pick<Variant, "when" | "color">[] };
+    fonts?: CustomFont[];
+  },
+  templates: Uint8Array[],
+  variantTemplates: (Uint8Array | null)[] = []
+) =>
+  sha256Hex(
+    encoder.encode(
+      canonicalJson({
+        templateSize: design.templateSize,
+        layers: design.layers,
+        template: await sha256Hex(templates[0]),
+        pages: design.pages?.length
+          ? await Promise.all(
+              design.pages.map(async ({ templateSize, layers }, index) => ({
+                templateSize,
+                layers,
+                template: await sha256Hex(templates[index + 1]),
+              }))
+            )
+          : undefined,
+        variants: design.variants?.rules.length
+          ? await Promise.all(
+              design.variants.rules.map(async ({ when, color }, index) => {
+                const bytes = variantTemplates[index];
+                return { when, color, template: bytes ? await sha256Hex(bytes) : null };
+              })
+            )
+          : undefined,
+        fonts: design.fonts?.length
+          ? await Promise.all(
+              design.fonts.map(async ({ family, dataUrl }) => ({
+                family,
+                file: await sha256Hex(encoder.encode(dataUrl)),
+              }))
+            )
+          : undefined,
+      })
+    )
+  );
+
+const unsupportedError = () =>
+  new Error("This browser cannot create Ed25519 signatures. Update it to sign certificates.");
+
+export const generateSigningKey = async (): Promise<SigningKey> => {
+  const pair = (await crypto.subtle.generateKey(ALGORITHM, true, ["sign", "verify"]).catch(() => {
+    throw unsupportedError();
+  })) as CryptoKeyPair;
+  const privateKey = await crypto.subtle.exportKey("jwk", pair.privateKey);
+  return {
+    privateKey,
+    publicKey: privateKey.x ?? "",
+    createdAt: new Date().toISOString(),
+  };
+};
+
+/** Reads a key file exported by the app, or a bare Ed25519 private JWK. */
+export const parseSigningKey = (text: string): SigningKey => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error("The key file is not valid JSON.");
+  }
+  const record = (value ?? {}) as { privateKey?: unknown; createdAt?: unknown };
+  const jwk = (typeof record.privateKey === "object" ? record.privateKey : value) as JsonWebKey;
+  if (jwk?.kty !== "OKP" || jwk.crv !== "Ed25519" || !jwk.d || !jwk.x) {
+    throw new Error("The file does not contain an Ed25519 private key.");
+  }
+  return {
+    privateKey: { kty: "OKP", crv: "Ed25519", d: jwk.d, x: jwk.x },
+    publicKey: jwk.x,
+    createdAt: typeof record.createdAt === "string" ? record.createdAt : new Date().toISOString(),
+  };
+};
+
+export const signingKeyToJson = (key: SigningKey) =>
+  JSON.stringify({ app: "nucleus-cert", kind: "signing-key", ...key }, null, 2);
+
+export const importPrivateKey = (key: SigningKey) =>
+  crypto.subtle.importKey("jwk", key.privateKey, ALGORITHM, false, ["sign"]).catch(() => {
+    throw unsupportedError();
+  });
+
+export const importPublicKey = async (publicKey: string) => {
+  let raw: Uint8Array;
+  try {
+    raw = fromBase64Url(publicKey.trim());
+  } catch {
+    throw new Error("The public key is not valid base64url.");
+  }
+  if (raw.length !== 32) {
+    throw new Error("An Ed25519 public key is 32 bytes long.");
+  }
+  return crypto.subtle.importKey("raw", raw as BufferSource, ALGORITHM, false, ["verify"]);
+};
+
+/** Short, human-comparable digest of a public key, e.g. `3F9A 12C4 7B0E 55D1`. */
+export const keyFingerprint = async (publicKey: string) =>
+  (await sha256Hex(encoder.encode(publicKey.trim())))
+    .slice(0, 16)
+    .toUpperCase()
+    .replace(/(.{4})(?!$)/g, "$1 ");
+
+export const createClaims = (
+  entry: { id: string; name: string; event: string; issuedAt: string },
+  columns: string[],
+  row: string[],
+  design: string
+): CertificateClaims => ({
+  v: CLAIMS_VERSION,
+  ...entry,
+  design,
+  fields: Object.fromEntries(columns.map((label, index) => [label, row[index] ?? ""])),
+});
+
+const signBytes = async (key: CryptoKey, bytes: Uint8Array) =>
+  toBase64Url(new Uint8Array(await crypto.subtle.sign(ALGORITHM, key, bytes as BufferSource)));
+
+const verifyBytes = async (key: CryptoKey, signature: string, bytes: Uint8Array) =>
+  crypto.subtle.verify(
+    ALGORITHM,
+    key,
+    fromBase64Url(signature) as BufferSource,
+    bytes as BufferSource
+  );
+
+export const signClaims = async (key: CryptoKey, claims: CertificateClaims) => {
+  const payload = toBase64Url(encoder.encode(canonicalJson(claims)));
+  return `${payload}.${await signBytes(key, encoder.encode(payload))}`;
+};
+
+export type TokenCheck = { valid: boolean; claims: CertificateClaims };
+
+/** Checks a token against a public key. Throws when the token is not readable at all. */
+export const verifyToken = async (key: CryptoKey, token: string): Promise<TokenCheck> => {
+  const [payload, signature, extra] = token.trim().split(".");
+  if (!payload || !signature || extra !== undefined) {
+    throw new Error("The signature is malformed.");
+  }
+  let claims: CertificateClaims;
+  try {
+    claims = JSON.parse(decoder.decode(fromBase64Url(payload)));
+  } catch {
+    throw new Error("The signed data is unreadable.");
+  }
+  const valid = await verifyBytes(key, signature, encoder.encode(payload)).catch(() => false);
+  return { valid, claims };
+};
+
+export const signManifest = async (
+  key: CryptoKey,
+  body: Omit<SignedManifest, "app" | "kind" | "v" | "signature">
+): Promise<SignedManifest> => {
+  const unsigned = {
+    app: "nucleus-cert" as const,
+    kind: "manifest" as const,
+    v: CLAIMS_VERSION,
+    ...body,
+  };
+  return { ...unsigned, signature: await signBytes(key, encoder.encode(canonicalJson(unsigned))) };
+};
+
+export const verifyManifest = async (key: CryptoKey, manifest: SignedManifest) => {
+  const { signature, ...unsigned } = manifest;
+  if (typeof signature !== "string") return false;
+  return verifyBytes(key, signature, encoder.encode(canonicalJson(unsigned))).catch(() => false);
+};
@@ -0,0 +1,245 @@
+import { createQrLayer, createTextLayer } from "./layers";
+import type { DesignPage } from "./project";
+
+/**
+ * Bundled starting points: a background with a layer layout and fonts for
+ * common kinds of certificate. Applying one replaces the design's pages;
+ * the sheet, output, and ID settings are kept.
+ */
+
+export type StarterDesign = {
+  id: "participation" | "merit" | "completion" | "appreciation";
+  name: string;
+  description: string;
+  /** A fresh first page with new layer IDs; the name layer reads column 0. */
+  createPage: () => Omit<DesignPage, "id">;
+};
+
+/** Header labels the starters are laid out against. */
+export const STARTER_COLUMNS = ["Name"];
+
+const NAME = { kind: "column", column: 0 } as const;
+const text = (value: string) => ({ kind: "text", text: value }) as const;
+
+export const STARTER_DESIGNS: StarterDesign[] = [
+  {
+    id: "participation",
+    name: "Participation",
+    description: "The default acknowledgement background with a script name.",
+    createPage: () => ({
+      template: { kind: "reference", src: "/template.webp" },
+      templateSize: { width: 528, height: 408 },
+      layers: [
+        createTextLayer({
+          label: "Name",
+          source: NAME,
+          position: { x: 0.5, y: 0.5 },
+          fontKey: "great-vibes",
+          fontSize: 44,
+          color: "#7c2d12",
+          fit: "shrink",
+          box: { width: 0.62, height: 0.16 },
+          minFontSize: 18,
+        }),
+        createTextLayer({
+          label: "Reason",
+          source: text("for taking part in the event"),
+          position: { x: 0.5, y: 0.74 },
+          fontKey: "montserrat",
+          fontSize: 13,
+          color: "#334155",
+          box: { width: 0.7, height: 0.06 },
+        }),
+      ],
+    }),
+  },
+  {
+    id: "merit",
+    name: "Merit",
+    description: "Winners' certificate with a verifiable QR code.",
+    createPage: () => ({
+      template: { kind: "reference", src: "/template2.jpg" },
+      templateSize: { width: 7311, height: 5171 },
+      layers: [
+        createTextLayer({
+          label: "Name",
+          source: NAME,
+          position: { x: 0.56, y: 0.425 },
+          fontKey: "great-vibes",
+          fontSize: 380,
+          color: "#0f172a",
+          fit: "shrink",
+          box: { width: 0.5, height: 0.07 },
+          minFontSize: 160,
+        }),
+        createQrLayer({ label: "QR code", position: { x: 0.12, y: 0.82 }, size: 0.09 }),
+        createTextLayer({
+          label: "Certificate ID",
+          source: text("{{Certificate ID}}"),
+          position: { x: 0.12, y: 0.9 },
+          fontKey: "montserrat",
+          fontSize: 90,
+          color: "#475569",
+          box: { width: 0.16, height: 0.03 },
+        }),
+      ],
+    }),
+  },
+  {
+    id: "completion",
+    name: "Completion",
+    description: "Navy and gold frame with a seal, for courses and training.",
+    createPage: () => ({
+      template: { kind: "reference", src: "/templates/completion.webp" },
+      templateSize: { width: 1754, height: 1240 },
+      layers: [
+        createTextLayer({
+          label: "Title",
+          source: text("Certificate"),
+          position: { x: 0.5, y: 0.2 },
+          fontKey: "cinzel",
+          fontSize: 120,
+          color: "#1e2a4a",
+          box: { width: 0.8, height: 0.12 },
+          fontWeight: 700,
+          letterSpacing: 12,
+          textTransform: "uppercase",
+        }),
+        createTextLayer({
+          label: "Subtitle",
+          source: text("of completion"),
+          position: { x: 0.5, y: 0.29 },
+          fontKey: "cinzel",
+          fontSize: 40,
+          color: "#a47f12",
+          box: { width: 0.6, height: 0.05 },
+          letterSpacing: 14,
+          textTransform: "uppercase",
+        }),
+        createTextLayer({
+          label: "Lead-in",
+          source: text("This certifies that"),
+          position: { x: 0.5, y: 0.39 },
+          fontKey: "cormorant-garamond",
+          fontSize: 44,
+          color: "#334155",
+          box: { width: 0.5, height: 0.05 },
+          fontStyle: "italic",
+        }),
+        createTextLayer({
+          label: "Name",
+          source: NAME,
+          position: { x: 0.5, y: 0.5 },
+          fontKey: "pinyon-script",
+          fontSize: 120,
+          color: "#1e2a4a",
+          fit: "shrink",
+          box: { width: 0.66, height: 0.14 },
+          minFontSize: 48,
+        }),
+        createTextLayer({
+          label: "Achievement",
+          source: text("has successfully completed all requirements of the course."),
+          position: { x: 0.5, y: 0.63 },
+          fontKey: "cormorant-garamond",
+          fontSize: 40,
+          color: "#334155",
+          fit: "wrap",
+          box: { width: 0.6, height: 0.1 },
+          lineHeight: 1.3,
+        }),
+        createTextLayer({
+          label: "Date",
+          source: text("Date"),
+          position: { x: 0.27, y: 0.87 },
+          fontKey: "montserrat",
+          fontSize: 24,
+          color: "#475569",
+          box: { width: 0.2, height: 0.04 },
+        }),
+        createTextLayer({
+          label: "Signature",
+          source: text("Signature"),
+          position: { x: 0.73, y: 0.87 },
+          fontKey: "montserrat",
+          fontSize: 24,
+          color: "#475569",
+          box: { width: 0.2, height: 0.04 },
+        }),
+      ],
+    }),
+  },
+  {
+    id: "appreciation",
+    name: "Appreciation",
+    description: "Bright corner waves for volunteers, speakers, and staff.",
+    createPage: () => ({
+      template: { kind: "reference", src: "/templates/appreciation.webp" },
+      templateSize: { width: 1754, height: 1240 },
+      layers: [
+        createTextLayer({
+          label: "Title",
+          source: text("Certificate of Appreciation"),
+          position: { x: 0.5, y: 0.22 },
+          fontKey: "playfair-display",
+          fontSize: 96,
+          color: "#0f766e",
+          box: { width: 0.8, height: 0.1 },
+          fontWeight: 700,
+        }),
+        createTextLayer({
+          label: "Lead-in",
+          source: text("Proudly presented to"),
+          position: { x: 0.5, y: 0.34 },
+          fontKey: "montserrat",
+          fontSize: 26,
+          color: "#475569",
+          box: { width: 0.5, height: 0.04 },
+          fontWeight: 600,
+          letterSpacing: 8,
+          textTransform: "uppercase",
+        }),
+        createTextLayer({
+          label: "Name",
+          source: NAME,
+          position: { x: 0.5, y: 0.47 },
+          fontKey: "great-vibes",
+          fontSize: 130,
+          color: "#0f172a",
+          fit: "shrink",
+          box: { width: 0.66, height: 0.15 },
+          minFontSize: 48,
+        }),
+        createTextLayer({
+          label: "Message",
+          source: text("In grateful recognition of your dedication and outstanding contribution."),
+          position: { x: 0.5, y: 0.62 },
+          fontKey: "raleway",
+          fontSize: 34,
+          color: "#334155",
+          fit: "wrap",
+          box: { width: 0.56, height: 0.12 },
+          lineHeight: 1.4,
+        }),
+        createTextLayer({
+          label: "Date",
+          source: text("Date"),
+          position: { x: 0.3, y: 0.88 },
+          fontKey: "raleway",
+          fontSize: 24,
+          color: "#475569",
+          box: { width: 0.2, height: 0.04 },
+        }),
+        createTextLayer({
+          label: "Signature",
+          source: text("Signature"),
+          position: { x: 0.7, y: 0.88 },
+          fontKey: "raleway",
+          fontSize: 24,
+          color: "#475569",
+          box: { width: 0.2, height: 0.04 },
+        }),
+      ],
+    }),
+  },
+];
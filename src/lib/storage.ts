@@ -0,0 +1,68 @@
+const DB_NAME = "nucleus-cert";
+const DB_VERSION = 4;
+
+export const STORES = {
+  projects: "projects",
+  keys: "keys",
+  designs: "designs",
+  runs: "runs",
+  snapshots: "snapshots",
+  revocations: "revocations",
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+export const AUTOSAVE_KEY = "autosave";
+export const SIGNING_KEY = "signing";
+/** The server's NUCLEUS_API_KEY, which registry writes need. */
+export const API_KEY = "api";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser."));
+  }
+
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of Object.values(STORES)) {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error("Unable to open local storage."));
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error ?? new Error("Local storage request failed."));
+  });
+};
+
+export const getItem = <T>(storeName: StoreName, key: string) =>
+  runRequest<T | undefined>(storeName, "readonly", (store) => store.get(key));
+
+export const getAllItems = <T>(storeName: StoreName) =>
+  runRequest<T[]>(storeName, "readonly", (store) => store.getAll());
+
+export const setItem = <T>(storeName: StoreName, key: string, value: T) =>
+  runRequest<IDBValidKey>(storeName, "readwrite", (store) => store.put(value, key));
+
+export const deleteItem = (storeName: StoreName, key: string) =>
+  runRequest<undefined>(storeName, "readwrite", (store) => store.delete(key));
@@ -0,0 +1,228 @@
+/**
+ * Mail-merge placeholders for text layers: `{{Name}}`, `{{Name|upper}}`,
+ * `{{Date|date:DD MMM YYYY}}`. Fields are matched against the sheet's header
+ * labels case-insensitively; `{{Column 3}}` always addresses the third column.
+ */
+
+export type TemplateToken =
+  | { kind: "text"; value: string }
+  | { kind: "field"; field: string; formatter: string | null; raw: string };
+
+export type TemplateIssue =
+  | { kind: "missing-column"; field: string }
+  | { kind: "unknown-formatter"; field: string; formatter: string }
+  | { kind: "empty-cell"; field: string; rows: number[] };
+
+type Formatter = (value: string, argument: string | undefined) => string;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}|]+?)\s*(?:\|\s*([^{}]+?)\s*)?\}\}/g;
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+export const DEFAULT_DATE_FORMAT = "D MMMM YYYY";
+
+/** Excel stores dates as days since 1899-12-30 (including the 1900 leap-year bug). */
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 86_400_000;
+
+const parseDateValue = (value: string) => {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const serial = Number(trimmed);
+    if (serial > 0 && serial < 2_958_466) {
+      return new Date(EXCEL_EPOCH_MS + Math.round(serial * MS_PER_DAY));
+    }
+    return null;
+  }
+  // Date.parse reads ISO dates without a time as UTC midnight, so take their
+  // parts as written instead of through the local getters below.
+  const iso = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(trimmed);
+  if (iso) {
+    const [year, month, day] = [Number(iso[1]), Number(iso[2]) - 1, Number(iso[3] ?? 1)];
+    const date = new Date(Date.UTC(year, month, day));
+    return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+  }
+  const parsed = Date.parse(trimmed);
+  if (Number.isNaN(parsed)) return null;
+  const date = new Date(parsed);
+  // Keep the calendar day the user typed regardless of the local timezone.
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+};
+
+export const formatDate = (value: string, pattern = DEFAULT_DATE_FORMAT) => {
+  const date = parseDateValue(value);
+  if (!date) return value;
+
+  const day = date.getUTCDate();
+  const month = date.getUTCMonth();
+  const year = date.getUTCFullYear();
+  const replacements: Record<string, string> = {
+    YYYY: String(year),
+    YY: String(year).slice(-2),
+    MMMM: MONTHS[month],
+    MMM: MONTHS[month].slice(0, 3),
+    MM: String(month + 1).padStart(2, "0"),
+    M: String(month + 1),
+    DD: String(day).padStart(2, "0"),
+    D: String(day),
+  };
+
+  return pattern.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D/g, (token) => replacements[token]);
+};
+
+const toTitleCase = (value: string) =>
+  value.toLocaleLowerCase().replace(/(^|[\s\-'])(\p{L})/gu, (_, lead: string, letter: string) =>
+    lead + letter.toLocaleUpperCase()
+  );
+
+const FORMATTERS: Record<string, Formatter> = {
+  upper: (value) => value.toLocaleUpperCase(),
+  lower: (value) => value.toLocaleLowerCase(),
+  title: (value) => toTitleCase(value),
+  trim: (value) => value.trim().replace(/\s+/g, " "),
+  date: (value, argument) => formatDate(value, argument || DEFAULT_DATE_FORMAT),
+};
+
+export const FORMAT_OPTIONS = [
+  { label: "As is", value: "" },
+  { label: "UPPERCASE", value: "upper" },
+  { label: "lowercase", value: "lower" },
+  { label: "Title Case", value: "title" },
+  { label: "Date", value: "date" },
+] as const;
+
+const splitFormatter = (spec: string) => {
+  const separator = spec.indexOf(":");
+  return separator === -1
+    ? { name: spec.trim().toLowerCase(), argument: undefined }
+    : {
+        name: spec.slice(0, separator).trim().toLowerCase(),
+        argument: spec.slice(separator + 1).trim(),
+      };
+};
+
+export const isKnownFormatter = (spec: string) => splitFormatter(spec).name in FORMATTERS;
+
+/** Applies a formatter spec such as `upper` or `date:DD/MM/YYYY`; unknown specs are ignored. */
+export const applyFormatter = (value: string, spec: string | null | undefined) => {
+  if (!spec || !value) return value;
+  const { name, argument } = splitFormatter(spec);
+  const formatter = FORMATTERS[name];
+  return formatter ? formatter(value, argument) : value;
+};
+
+export const parseTemplate = (template: string): TemplateToken[] => {
+  const tokens: TemplateToken[] = [];
+  let cursor = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > cursor) {
+      tokens.push({ kind: "text", value: template.slice(cursor, index) });
+    }
+    tokens.push({ kind: "field", field: match[1], formatter: match[2] ?? null, raw: match[0] });
+    cursor = index + match[0].length;
+  }
+
+  if (cursor < template.length) {
+    tokens.push({ kind: "text", value: template.slice(cursor) });
+  }
+
+  return tokens;
+};
+
+export const hasPlaceholders = (template: string) =>
+  parseTemplate(template).some((token) => token.kind === "field");
+
+/** Resolves a placeholder name to a column index using the detected header labels. */
+export const findColumn = (field: string, columns: string[]) => {
+  const wanted = field.trim().toLowerCase();
+  const byHeader = columns.findIndex((label) => label.trim().toLowerCase() === wanted);
+  if (byHeader >= 0) return byHeader;
+
+  const positional = /^column\s+(\d+)$/.exec(wanted);
+  return positional ? Number(positional[1]) - 1 : -1;
+};
+
+type RenderOptions = {
+  /** Called for placeholders that resolve to nothing; its return value is inserted instead. */
+  onMissing?: (token: Extract<TemplateToken, { kind: "field" }>) => string;
+};
+
+export const renderTemplate = (
+  template: string,
+  row: string[],
+  columns: string[],
+  options: RenderOptions = {}
+) =>
+  parseTemplate(template)
+    .map((token) => {
+      if (token.kind === "text") return token.value;
+      const column = findColumn(token.field, columns);
+      const value = column >= 0 ? (row[column] ?? "").trim() : "";
+      if (!value) return options.onMissing?.(token) ?? "";
+      return applyFormatter(value, token.formatter);
+    })
+    .join("");
+
+/**
+ * Lists placeholders that cannot be filled: unknown columns, unknown
+ * formatters, and recipients (1-based) whose cell for a field is blank.
+ */
+export const validateTemplate = (
+  template: string,
+  rows: string[][],
+  columns: string[]
+): TemplateIssue[] => {
+  const issues: TemplateIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const token of parseTemplate(template)) {
+    if (token.kind !== "field" || seen.has(token.raw)) continue;
+    seen.add(token.raw);
+
+    if (token.formatter && !isKnownFormatter(token.formatter)) {
+      issues.push({ kind: "unknown-formatter", field: token.field, formatter: token.formatter });
+    }
+
+    const column = findColumn(token.field, columns);
+    if (column < 0 || (columns.length > 0 && column >= columns.length)) {
+      issues.push({ kind: "missing-column", field: token.field });
+      continue;
+    }
+
+    const emptyRows = rows.flatMap((row, index) => ((row[column] ?? "").trim() ? [] : [index + 1]));
+    if (emptyRows.length) {
+      issues.push({ kind: "empty-cell", field: token.field, rows: emptyRows });
+    }
+  }
+
+  return issues;
+};
+
+export const describeIssue = (issue: TemplateIssue) => {
+  switch (issue.kind) {
+    case "missing-column":
+      return `No column named "${issue.field}" in the sheet.`;
+    case "unknown-formatter":
+      return `Unknown formatter "${issue.formatter}" on "${issue.field}".`;
+    case "empty-cell": {
+      const preview = issue.rows.slice(0, 5).join(", ");
+      const more = issue.rows.length > 5 ? ` and ${issue.rows.length - 5} more` : "";
+      return `"${issue.field}" is empty for ${issue.rows.length === 1 ? "recipient" : "recipients"} ${preview}${more}.`;
+    }
+  }
+};
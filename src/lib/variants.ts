@@ -0,0 +1,73 @@
+import { slugify } from "./files";
+import { parseRowFilter, type RowPredicate } from "./grid";
+import { createId, type Layer } from "./layers";
+import type { ProjectTemplate } from "./project";
+
+/**
+ * Per-row design variants, e.g. a gold template and text color for rows
+ * where `Award = Gold`. Rules are tried in order; rows no rule matches use
+ * the project's own template and layer colors.
+ */
+
+export type Variant = {
+  id: string;
+  name: string;
+  /** Row filter expression, same syntax as the data grid filter. */
+  when: string;
+  /** Background for matching rows; null keeps the project template. */
+  template: ProjectTemplate | null;
+  /** Solid color for every text layer, over any gradient or pattern; null keeps their own. */
+  color: string | null;
+};
+
+export type VariantSettings = {
+  rules: Variant[];
+  /** Put each variant's files in a ZIP folder named after it. */
+  folders: boolean;
+};
+
+export const DEFAULT_VARIANT_SETTINGS: VariantSettings = { rules: [], folders: false };
+
+export const DEFAULT_VARIANT_NAME = "Default";
+
+export const createVariant = (index: number): Variant => ({
+  id: createId("variant"),
+  name: `Variant ${index + 1}`,
+  when: "",
+  template: null,
+  color: null,
+});
+
+/**
+ * Compiles rules against a sheet's columns into a function returning the
+ * index of the first rule a row matches, or -1 for the default. Rules
+ * without a condition never match. Throws readable errors naming the rule.
+ */
+export const createVariantMatcher = (
+  rules: Pick<Variant, "name" | "when">[],
+  columns: string[]
+) => {
+  const predicates = rules.map((rule): RowPredicate => {
+    if (!rule.when.trim()) return () => false;
+    try {
+      return parseRowFilter(rule.when, columns);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Invalid condition.";
+      throw new Error(`Variant "${rule.name}": ${reason}`);
+    }
+  });
+  return (row: string[]) => predicates.findIndex((predicate) => predicate(row));
+};
+
+/** Paints every text layer in `color`, replacing gradient and pattern fills too. */
+export const applyVariantColor = (layers: Layer[], color: string | null) =>
+  color
+    ? layers.map((layer) => (layer.kind === "text" ? { ...layer, color, fill: null } : layer))
+    : layers;
+
+export const variantName = (rules: Pick<Variant, "name">[], index: number) =>
+  index < 0 ? DEFAULT_VARIANT_NAME : rules[index]?.name || `Variant ${index + 1}`;
+
+/** ZIP folder for a variant's files, e.g. `gold/`. */
+export const variantFolder = (rules: Pick<Variant, "name">[], index: number) =>
+  `${slugify(variantName(rules, index), Math.max(index, 0))}/`;
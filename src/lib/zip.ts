@@ -0,0 +1,163 @@
+/**
+ * Minimal streaming ZIP writer. Entries are stored uncompressed (PNG and PDF
+ * are already compressed) and written to the sink as soon as they are added,
+ * so memory use does not grow with the number of certificates.
+ */
+
+export type ByteSink = {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+};
+
+type CentralEntry = {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+};
+
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, seed = 0) => {
+  let crc = (seed ^ 0xffffffff) >>> 0;
+  for (let index = 0; index < bytes.length; index++) {
+    crc = CRC_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (value: Date) => ({
+  time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+  date: ((Math.max(value.getFullYear(), 1980) - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+});
+
+const localHeader = (entry: CentralEntry) => {
+  const header = new Uint8Array(30 + entry.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, 20, true);
+  view.setUint16(6, UTF8_FLAG, true);
+  view.setUint16(8, 0, true);
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, entry.size, true);
+  view.setUint32(22, entry.size, true);
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, 0, true);
+  header.set(entry.name, 30);
+  return header;
+};
+
+const centralHeader = (entry: CentralEntry) => {
+  const header = new Uint8Array(46 + entry.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, 20, true);
+  view.setUint16(6, 20, true);
+  view.setUint16(8, UTF8_FLAG, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, entry.time, true);
+  view.setUint16(14, entry.date, true);
+  view.setUint32(16, entry.crc, true);
+  view.setUint32(20, entry.size, true);
+  view.setUint32(24, entry.size, true);
+  view.setUint16(28, entry.name.length, true);
+  view.setUint32(42, entry.offset, true);
+  header.set(entry.name, 46);
+  return header;
+};
+
+const endOfCentralDirectory = (count: number, size: number, offset: number) => {
+  const record = new Uint8Array(22);
+  const view = new DataView(record.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(8, count, true);
+  view.setUint16(10, count, true);
+  view.setUint32(12, size, true);
+  view.setUint32(16, offset, true);
+  return record;
+};
+
+export const createZipWriter = (sink: ByteSink) => {
+  const encoder = new TextEncoder();
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+  let pending = Promise.resolve();
+
+  const write = async (chunk: Uint8Array) => {
+    await sink.write(chunk);
+    offset += chunk.length;
+  };
+
+  const addFile = (path: string, bytes: Uint8Array, modified = new Date()) => {
+    // Writes are chained so callers may add files without awaiting each one.
+    pending = pending.then(async () => {
+      if (entries.length >= MAX_ENTRIES || offset + bytes.length > MAX_OFFSET) {
+        throw new Error("The archive is too large. Generate fewer certificates per ZIP.");
+      }
+
+      const entry: CentralEntry = {
+        name: encoder.encode(path),
+        crc: crc32(bytes),
+        size: bytes.length,
+        offset,
+        ...dosDateTime(modified),
+      };
+      entries.push(entry);
+      await write(localHeader(entry));
+      await write(bytes);
+    });
+    return pending;
+  };
+
+  const finish = async () => {
+    await pending;
+    const directoryOffset = offset;
+    for (const entry of entries) {
+      await write(centralHeader(entry));
+    }
+    await write(endOfCentralDirectory(entries.length, offset - directoryOffset, directoryOffset));
+    await sink.close();
+  };
+
+  const abort = async () => {
+    await pending.catch(() => undefined);
+    await sink.abort();
+  };
+
+  return { addFile, finish, abort };
+};
+
+export type ZipWriter = ReturnType<typeof createZipWriter>;
+
+/** Collects the archive in memory; used when the browser cannot stream to disk. */
+export const createMemorySink = (onClose: (parts: Uint8Array[]) => void): ByteSink => {
+  let parts: Uint8Array[] = [];
+  return {
+    write: async (chunk) => {
+      parts.push(chunk);
+    },
+    close: async () => onClose(parts),
+    abort: async () => {
+      parts = [];
+    },
+  };
+};
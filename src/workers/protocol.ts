@@ -0,0 +1,32 @@
+import type { RenderConfig } from "@/lib/engine";
+import type { FontSource } from "@/lib/font-sources";
+
+export type RenderSetup = {
+  config: RenderConfig;
+  /** One per `config.pages` entry. */
+  templates: Uint8Array[];
+  /** One per `config.variants` entry; null uses the first page's template. */
+  variantTemplates: (Uint8Array | null)[];
+  fonts: FontSource[];
+};
+
+export type RenderJob = {
+  index: number;
+  row: string[];
+  /** Used as the PDF title. */
+  title: string;
+  /** Signature token embedded in the output file. */
+  signature?: string;
+  /** Per-recipient photos keyed by image layer ID. */
+  images?: Record<string, Uint8Array>;
+};
+
+export type WorkerRequest =
+  | { type: "setup"; setup: RenderSetup }
+  | { type: "render"; job: RenderJob };
+
+export type WorkerResponse =
+  | { type: "ready" }
+  /** One file per page for PNGs, or a single PDF. */
+  | { type: "rendered"; index: number; files: ArrayBuffer[] }
+  | { type: "error"; message: string };
@@ -0,0 +1,50 @@
+import { createDomBackend, registerFontSources } from "@/lib/dom-backend";
+import { createCertificateRenderer, type CertificateRenderer } from "@/lib/engine";
+import type { RenderSetup, WorkerRequest, WorkerResponse } from "./protocol";
+
+type WorkerScope = {
+  fonts?: FontFaceSet;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+let renderer: CertificateRenderer | null = null;
+
+const setup = async ({ config, templates, variantTemplates, fonts }: RenderSetup) => {
+  if (!scope.fonts) {
+    throw new Error("This browser cannot load fonts in a worker.");
+  }
+  registerFontSources(scope.fonts, fonts);
+  return createCertificateRenderer(
+    createDomBackend(scope.fonts),
+    config,
+    templates,
+    variantTemplates
+  );
+};
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+  try {
+    if (message.type === "setup") {
+      renderer = await setup(message.setup);
+      scope.postMessage({ type: "ready" });
+      return;
+    }
+
+    if (!renderer) {
+      throw new Error("Renderer used before setup.");
+    }
+    const { row, title, signature, images } = message.job;
+    const files = (await renderer.render(row, title, signature, images)).map(
+      (bytes) => bytes.slice().buffer
+    );
+    scope.postMessage({ type: "rendered", index: message.job.index, files }, files);
+  } catch (error) {
+    scope.postMessage({
+      type: "error",
+      message: error instanceof Error ? error.message : "Rendering failed in worker.",
+    });
+  }
+};
@@ -0,0 +1,13 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { certificateIdFromPath, verificationUrl } from "../src/lib/certificate-id";
+
+test("reads the certificate ID back from a verification URL", () => {
+  const url = verificationUrl("https://example.org/", "WS-2026/ADA 1");
+  assert.equal(certificateIdFromPath(url.split("/").pop()!), "WS-2026/ADA 1");
+});
+
+test("takes malformed percent-encoding as typed", () => {
+  assert.equal(certificateIdFromPath("100%"), "100%");
+  assert.equal(certificateIdFromPath("%E0%A4%A"), "%E0%A4%A");
+});
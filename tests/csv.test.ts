@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { csvCell } from "../src/lib/files";
+import { outputManifestCsv } from "../src/lib/naming";
+import { registryToCsv } from "../src/lib/registry";
+
+test("quotes separators, quotes, and line breaks", () => {
+  assert.equal(csvCell("Ada Lovelace"), "Ada Lovelace");
+  assert.equal(csvCell("Lovelace, Ada"), '"Lovelace, Ada"');
+  assert.equal(csvCell('Ada "Countess" King'), '"Ada ""Countess"" King"');
+  assert.equal(csvCell("Line one\nLine two"), '"Line one\nLine two"');
+});
+
+test("stops cells from sheets running as formulas", () => {
+  assert.equal(csvCell('=HYPERLINK("http://evil")'), '"\'=HYPERLINK(""http://evil"")"');
+  assert.equal(csvCell("+1+1"), "'+1+1");
+  assert.equal(csvCell("-2+3"), "'-2+3");
+  assert.equal(csvCell("@SUM(A1)"), "'@SUM(A1)");
+  assert.equal(csvCell("\t=1"), "'\t=1");
+  assert.equal(csvCell("\r=1"), '"\'\r=1"');
+  assert.equal(csvCell("Jean-Luc"), "Jean-Luc");
+
+  const registry = registryToCsv([
+    { id: "=1+1", name: "@Ada", event: "Workshop", issuedAt: "2026-01-01T00:00:00.000Z" },
+  ]);
+  assert.equal(registry.split("\r\n")[1], "'=1+1,'@Ada,Workshop,2026-01-01T00:00:00.000Z,");
+  const manifest = outputManifestCsv(
+    [{ row: 0, name: "=cmd", values: ["=cmd"] }],
+    [["cmd.pdf"]],
+    ["Name"]
+  );
+  assert.equal(manifest.split("\r\n")[1], "1,cmd.pdf,'=cmd");
+});
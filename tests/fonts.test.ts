@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+import { createCustomFont, customFontKey } from "../src/lib/fonts";
+import type { TextLayer } from "../src/lib/layers";
+import { hasFontFamily, withProjectFonts } from "../src/lib/node-backend";
+import { parseProject } from "../src/lib/project";
+
+const FONTS_DIR = path.join(__dirname, "../public/fonts");
+
+/** The sample project with its title set in an upload called `family`, made from `file`. */
+const withUpload = async (file: string, family: string) => {
+  const project = JSON.parse(
+    await readFile(path.join(__dirname, "fixtures/sample.nucleus.json"), "utf8")
+  ) as { layers: Record<string, unknown>[] };
+  const font = createCustomFont("upload.ttf", await readFile(path.join(FONTS_DIR, file)));
+  return {
+    ...project,
+    layers: project.layers.map((layer, index) =>
+      index === 0 ? { ...layer, fontKey: customFontKey(family) } : layer
+    ),
+    fonts: [{ ...font, family }],
+  };
+};
+
+test("refuses uploads named after built-in, fallback, or generic families", async () => {
+  for (const family of ["Cinzel", "noto sans", "serif", 'Brand "Sans"']) {
+    const project = await withUpload("algeria.ttf", family);
+    assert.throws(() => parseProject(project), /Uploaded font/);
+  }
+});
+
+test("keeps two designs' uploads with the same name apart", async () => {
+  const first = withProjectFonts(parseProject(await withUpload("algeria.ttf", "Brand")));
+  const second = withProjectFonts(parseProject(await withUpload("tahoma.ttf", "Brand")));
+  const fontKey = (project: typeof first) => (project.layers[0] as TextLayer).fontKey;
+
+  assert.notEqual(fontKey(first), fontKey(second));
+  assert.equal(fontKey(first), customFontKey(first.fonts[0].family));
+  assert.equal(hasFontFamily(first.fonts[0].family), true);
+  assert.equal(hasFontFamily("Brand"), false);
+  assert.equal((first.layers[1] as TextLayer).fontKey, "great-vibes");
+});
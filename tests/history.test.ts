@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  diffRuns,
+  runsRegistry,
+  type GenerationRun,
+  type RunRecipient,
+} from "../src/lib/audit-log";
+import { DEFAULT_PRINT_OPTIONS } from "../src/lib/imposition";
+import { DEFAULT_FILE_NAMING } from "../src/lib/naming";
+import { DEFAULT_PDF_OPTIONS } from "../src/lib/pdf";
+import { parseRegistry, registryToCsv, registryToJson } from "../src/lib/registry";
+
+const recipient = (id: string, values: string[]): RunRecipient => ({
+  row: 0,
+  id,
+  name: values[0],
+  values,
+  signature: null,
+});
+
+const run = (
+  issuedAt: string,
+  columns: string[],
+  recipients: RunRecipient[],
+  designHash = "design-a"
+): GenerationRun => ({
+  id: `run-${issuedAt}`,
+  issuedAt,
+  kind: "download",
+  source: "list.csv",
+  event: "Workshop",
+  designHash,
+  output: {
+    format: "pdf",
+    pdf: DEFAULT_PDF_OPTIONS,
+    print: DEFAULT_PRINT_OPTIONS,
+    files: DEFAULT_FILE_NAMING,
+  },
+  verifyBaseUrl: "",
+  columns,
+  recipients,
+});
+
+test("diffs two runs certificate by certificate", () => {
+  const before = run(
+    "2026-01-01T00:00:00.000Z",
+    ["Name", "Course"],
+    [
+      recipient("CERT-A", ["Ada", "Maths"]),
+      recipient("CERT-B", ["Grace", "Navy"]),
+      recipient("CERT-C", ["Alan", "Logic"]),
+    ]
+  );
+  const after = run(
+    "2026-02-01T00:00:00.000Z",
+    ["Course", "Name"],
+    [
+      recipient("CERT-A", ["Maths", "Ada"]),
+      recipient("CERT-B", ["Computing", "Grace"]),
+      recipient("CERT-D", ["Physics", "Emmy"]),
+    ],
+    "design-b"
+  );
+
+  const diff = diffRuns(before, after);
+  assert.equal(diff.designChanged, true);
+  assert.equal(diff.unchanged, 1);
+  assert.deepEqual(
+    diff.added.map((entry) => entry.id),
+    ["CERT-D"]
+  );
+  assert.deepEqual(
+    diff.removed.map((entry) => entry.id),
+    ["CERT-C"]
+  );
+  assert.deepEqual(diff.changed[0].fields, [
+    { column: "Course", before: "Navy", after: "Computing" },
+  ]);
+});
+
+test("compares a column only one run has as empty", () => {
+  const before = run("2026-01-01T00:00:00.000Z", ["Name"], [recipient("CERT-A", ["Ada"])]);
+  const after = run(
+    "2026-01-02T00:00:00.000Z",
+    ["Name", "Grade"],
+    [recipient("CERT-A", ["Ada", "A"])]
+  );
+  assert.deepEqual(diffRuns(before, after).changed[0].fields, [
+    { column: "Grade", before: "", after: "A" },
+  ]);
+});
+
+test("lists each issued certificate once and marks revoked ones", () => {
+  const runs = [
+    run("2026-02-01T00:00:00.000Z", ["Name"], [recipient("CERT-A", ["Ada King"])]),
+    run(
+      "2026-01-01T00:00:00.000Z",
+      ["Name"],
+      [recipient("CERT-A", ["Ada"]), recipient("CERT-B", ["Grace"])]
+    ),
+  ];
+  const revokedAt = "2026-03-01T00:00:00.000Z";
+  const registry = runsRegistry(runs, new Map([["CERT-B", revokedAt]]));
+
+  assert.deepEqual(registry, [
+    { id: "CERT-A", name: "Ada King", event: "Workshop", issuedAt: "2026-01-01T00:00:00.000Z" },
+    {
+      id: "CERT-B",
+      name: "Grace",
+      event: "Workshop",
+      issuedAt: "2026-01-01T00:00:00.000Z",
+      revokedAt,
+    },
+  ]);
+  assert.deepEqual(parseRegistry(JSON.parse(registryToJson(registry))), registry);
+  assert.match(
+    registryToCsv(registry),
+    /CERT-B,Grace,Workshop,2026-01-01T00:00:00.000Z,2026-03-01/
+  );
+});
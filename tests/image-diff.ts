@@ -0,0 +1,92 @@
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+
+/**
+ * Perceptual image comparison for the render goldens. Pixels are compared
+ * by their YIQ distance, which weighs brightness over hue the way eyes do,
+ * so anti-aliasing noise from another Skia build stays under the threshold
+ * while a shifted baseline or a changed font does not.
+ */
+
+export type ImageDiff = {
+  width: number;
+  height: number;
+  /** Pixels whose difference is above the colour threshold. */
+  mismatched: number;
+  /** `mismatched` as a share of all pixels. */
+  ratio: number;
+  /** The expected image faded to grey with mismatched pixels in red. */
+  diffPng: Uint8Array;
+};
+
+/** Largest possible YIQ distance, between black and white. */
+const MAX_DELTA = 35215;
+
+const readPixels = async (png: Uint8Array) => {
+  const image = await loadImage(Buffer.from(png));
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext("2d");
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, image.width, image.height);
+};
+
+/** Blends a channel onto white, so transparent pixels compare as the background they show. */
+const blend = (channel: number, alpha: number) => 255 + ((channel - 255) * alpha) / 255;
+
+const yiqDelta = (a: Uint8ClampedArray, b: Uint8ClampedArray, index: number) => {
+  const r1 = blend(a[index], a[index + 3]);
+  const g1 = blend(a[index + 1], a[index + 3]);
+  const b1 = blend(a[index + 2], a[index + 3]);
+  const r2 = blend(b[index], b[index + 3]);
+  const g2 = blend(b[index + 1], b[index + 3]);
+  const b2 = blend(b[index + 2], b[index + 3]);
+  const y = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+  const i = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189;
+  const q = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+};
+
+/**
+ * Compares two PNGs of the same size. `threshold` (0–1) is how different
+ * a pixel's colour may be before it counts as mismatched. Throws when the
+ * sizes differ, since nothing else can be compared then.
+ */
+export const diffImages = async (
+  expected: Uint8Array,
+  actual: Uint8Array,
+  threshold = 0.1
+): Promise<ImageDiff> => {
+  const [a, b] = await Promise.all([readPixels(expected), readPixels(actual)]);
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(
+      `Image sizes differ: expected ${a.width}×${a.height}, got ${b.width}×${b.height}.`
+    );
+  }
+
+  const canvas = createCanvas(a.width, a.height);
+  const ctx = canvas.getContext("2d");
+  const diff = ctx.createImageData(a.width, a.height);
+  const limit = MAX_DELTA * threshold * threshold;
+  let mismatched = 0;
+  for (let index = 0; index < a.data.length; index += 4) {
+    if (yiqDelta(a.data, b.data, index) > limit) {
+      mismatched++;
+      diff.data.set([255, 0, 0, 255], index);
+    } else {
+      const grey = blend(
+        a.data[index] * 0.299 + a.data[index + 1] * 0.587 + a.data[index + 2] * 0.114,
+        a.data[index + 3]
+      );
+      const faded = 255 - (255 - grey) * 0.2;
+      diff.data.set([faded, faded, faded, 255], index);
+    }
+  }
+  ctx.putImageData(diff, 0, 0);
+
+  return {
+    width: a.width,
+    height: a.height,
+    mismatched,
+    ratio: mismatched / (a.width * a.height),
+    diffPng: new Uint8Array(await canvas.encode("png")),
+  };
+};
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseDeliveryMessage } from "../src/lib/mailer";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+
+const message = (contentType: string, content: Buffer) => ({
+  to: "ada@example.org",
+  subject: "Your certificate",
+  text: "Attached.",
+  attachments: [{ filename: "ada.png", contentType, content: content.toString("base64") }],
+});
+
+test("accepts attachments whose bytes match their type", () => {
+  const pdf = Buffer.from("%PDF-1.7\n%âãÏÓ\n");
+  assert.equal(parseDeliveryMessage(message("image/png", PNG)).attachments.length, 1);
+  assert.equal(parseDeliveryMessage(message("application/pdf", pdf)).attachments.length, 1);
+});
+
+test("rejects attachments that are not the PNG or PDF they claim to be", () => {
+  const html = Buffer.from("<html><script>alert(1)</script></html>");
+  for (const body of [
+    message("image/png", html),
+    message("application/pdf", PNG),
+    message("text/html", html),
+  ]) {
+    assert.throws(() => parseDeliveryMessage(body), { status: 422 });
+  }
+});
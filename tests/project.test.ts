@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+import { MAX_TEMPLATE_SIDE, parseProject } from "../src/lib/project";
+
+const sample = async () =>
+  JSON.parse(
+    await readFile(path.join(__dirname, "fixtures/sample.nucleus.json"), "utf8")
+  ) as Record<string, unknown> & { output: Record<string, unknown> };
+
+test("refuses template sizes no render could allocate", async () => {
+  const project = await sample();
+  for (const templateSize of [
+    { width: MAX_TEMPLATE_SIDE + 1, height: 1080 },
+    { width: 1920, height: 0 },
+  ]) {
+    assert.throws(() => parseProject({ ...project, templateSize }), /Template sizes/);
+  }
+  const largest = { width: MAX_TEMPLATE_SIDE, height: MAX_TEMPLATE_SIDE };
+  assert.deepEqual(parseProject({ ...project, templateSize: largest }).templateSize, largest);
+});
+
+test("refuses PDF resolutions the app does not offer", async () => {
+  const project = await sample();
+  const output = (dpi: number) => ({ ...project.output, pdf: { paperSize: "template", dpi } });
+  assert.throws(() => parseProject({ ...project, output: output(100_000) }), /PDF resolution/);
+  assert.equal(parseProject({ ...project, output: output(300) }).output.pdf.dpi, 300);
+});
+
+test("clamps print resolution and millimetre settings", async () => {
+  const project = await sample();
+  const { print } = parseProject({
+    ...project,
+    output: {
+      ...project.output,
+      print: { dpi: 100_000, trimWidth: 1e9, bleed: 500, gutter: -4 },
+    },
+  }).output;
+  assert.equal(print.dpi, 600);
+  assert.equal(print.trimWidth, 450);
+  assert.equal(print.bleed, 10);
+  assert.equal(print.gutter, 0);
+});
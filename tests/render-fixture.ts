@@ -0,0 +1,68 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  assignCertificateIds,
+  resolveEventName,
+  withCertificateIds,
+} from "../src/lib/certificate-id";
+import { createCertificateRenderer, renderConfigFromDesign } from "../src/lib/engine";
+import {
+  createNodeBackend,
+  loadPageTemplates,
+  loadVariantTemplates,
+  registerBundledFonts,
+  registerFontsourceFonts,
+  withProjectFonts,
+} from "../src/lib/node-backend";
+import { bindProjectToColumns, parseProject } from "../src/lib/project";
+import { extractRecipients, readWorkbook } from "../src/lib/sheet";
+
+const ROOT = path.resolve(__dirname, "..");
+export const PUBLIC_DIR = path.join(ROOT, "public");
+export const FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+/** Goldens are rendered at most this wide so they stay small enough to commit. */
+const MAX_GOLDEN_WIDTH = 1000;
+
+let fontsReady: Promise<void> | null = null;
+
+/** The fonts the CLI registers: bundled files and the self-hosted built-ins. */
+const registerFonts = () =>
+  (fontsReady ??= (async () => {
+    await registerBundledFonts(path.join(PUBLIC_DIR, "fonts"));
+    await registerFontsourceFonts(path.join(ROOT, "node_modules"));
+  })());
+
+/**
+ * Renders one recipient of `sheetFile`, picked by position in the
+ * recipient list, with the project in `projectFile` through the same
+ * engine as the CLI. Returns a PNG per design page.
+ */
+export const renderFixture = async (projectFile: string, sheetFile: string, recipient: number) => {
+  await registerFonts();
+  const sheet = readWorkbook(await readFile(sheetFile), path.basename(sheetFile));
+  const columns = sheet.columnOptions.map((option) => option.label);
+  const project = withProjectFonts(
+    bindProjectToColumns(parseProject(JSON.parse(await readFile(projectFile, "utf8"))), columns)
+  );
+
+  const found = extractRecipients(sheet.rows, project.nameColumn);
+  const event = resolveEventName(project.certificateIds, project.name);
+  const ids = assignCertificateIds(found.rows, found.names, project.certificateIds, columns, event);
+  const bound = withCertificateIds(columns, found.rows, ids);
+  const config = renderConfigFromDesign(project, bound.columns);
+  const pages = config.pages.map((page) => ({
+    ...page,
+    scale: Math.min(1, MAX_GOLDEN_WIDTH / page.templateSize.width),
+  }));
+  const renderer = await createCertificateRenderer(
+    createNodeBackend(),
+    { ...config, pages },
+    await loadPageTemplates(project, PUBLIC_DIR),
+    await loadVariantTemplates(project.variants, PUBLIC_DIR)
+  );
+
+  const row = bound.rows[recipient];
+  if (!row) throw new Error(`${path.basename(sheetFile)} has no recipient ${recipient + 1}.`);
+  return renderer.renderPages(row);
+};
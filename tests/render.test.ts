@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+import { diffImages } from "./image-diff";
+import { FIXTURES_DIR, PUBLIC_DIR, renderFixture } from "./render-fixture";
+
+/**
+ * Pixel regression tests: fixture projects are rendered through the export
+ * engine and compared with the PNGs in `tests/golden`. After an intended
+ * change to drawing, run `npm run test:update` and review the new goldens
+ * before committing them. Failures leave the actual render and a diff
+ * image (mismatches in red) in `tests/output`.
+ */
+
+const GOLDEN_DIR = path.join(__dirname, "golden");
+const OUTPUT_DIR = path.join(__dirname, "output");
+const UPDATE = process.env.UPDATE_GOLDEN === "1";
+
+/** Colour distance (0–1) under which a pixel still matches. */
+const PIXEL_THRESHOLD = 0.1;
+/** Share of pixels that may mismatch, which absorbs anti-aliasing differences between platforms. */
+const MAX_MISMATCH = 0.002;
+
+type Case = {
+  name: string;
+  project: string;
+  sheet: string;
+  /** Position in the sheet's recipient list. */
+  recipient: number;
+};
+
+const CASES: Case[] = [
+  {
+    name: "sample-first-row",
+    project: "sample.nucleus.json",
+    sheet: path.join(PUBLIC_DIR, "sample.xlsx"),
+    recipient: 0,
+  },
+  {
+    // The longest name, which has to shrink to fit its box.
+    name: "sample-long-name",
+    project: "sample.nucleus.json",
+    sheet: path.join(PUBLIC_DIR, "sample.xlsx"),
+    recipient: 5,
+  },
+  {
+    // Gradient, outline, shadow, italic, rotation, a date placeholder, and a variant color.
+    name: "styled-two-pages",
+    project: "styled.nucleus.json",
+    sheet: path.join(FIXTURES_DIR, "recipients.csv"),
+    recipient: 0,
+  },
+  {
+    // A name that shrinks to its minimum and a course that wraps onto two lines.
+    name: "styled-wrapped",
+    project: "styled.nucleus.json",
+    sheet: path.join(FIXTURES_DIR, "recipients.csv"),
+    recipient: 1,
+  },
+];
+
+const compareWithGolden = async (name: string, png: Uint8Array) => {
+  const golden = path.join(GOLDEN_DIR, `${name}.png`);
+  const actual = path.join(OUTPUT_DIR, `${name}.actual.png`);
+  const diffFile = path.join(OUTPUT_DIR, `${name}.diff.png`);
+  await rm(actual, { force: true });
+  await rm(diffFile, { force: true });
+  if (UPDATE) {
+    await mkdir(GOLDEN_DIR, { recursive: true });
+    await writeFile(golden, png);
+    return;
+  }
+
+  const expected = await readFile(golden).catch(() => null);
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  if (!expected) {
+    await writeFile(actual, png);
+    assert.fail(
+      `No golden image ${path.relative(process.cwd(), golden)}; run npm run test:update.`
+    );
+  }
+  const diff = await diffImages(expected, png, PIXEL_THRESHOLD).catch(async (error: unknown) => {
+    await writeFile(actual, png);
+    throw error;
+  });
+  if (diff.ratio > MAX_MISMATCH) {
+    await writeFile(actual, png);
+    await writeFile(diffFile, diff.diffPng);
+    assert.fail(
+      `${name}: ${diff.mismatched} of ${diff.width * diff.height} pixels differ ` +
+        `(${(diff.ratio * 100).toFixed(2)}%, allowed ${MAX_MISMATCH * 100}%). ` +
+        `See ${path.relative(process.cwd(), diffFile)}.`
+    );
+  }
+};
+
+for (const entry of CASES) {
+  test(`renders ${entry.name}`, async () => {
+    const project = path.join(FIXTURES_DIR, entry.project);
+    const pages = await renderFixture(project, entry.sheet, entry.recipient);
+    for (const [index, png] of pages.entries()) {
+      const name = pages.length > 1 ? `${entry.name}-page${index + 1}` : entry.name;
+      await compareWithGolden(name, png);
+    }
+  });
+}
@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+import * as XLSX from "xlsx";
+import { describeDelimited } from "../src/lib/delimited";
+import {
+  defaultSheetIndex,
+  extractRecipients,
+  parseSheetRows,
+  readPastedTable,
+  readSpreadsheet,
+  readWorkbook,
+  rowsToXlsx,
+} from "../src/lib/sheet";
+
+/**
+ * The path `handleUpload` takes from a dropped file to the recipient list:
+ * `readSpreadsheet`, `parseSheetRows` on the default sheet, then
+ * `extractRecipients` for the name column.
+ */
+const upload = (bytes: Uint8Array, fileName: string) => {
+  const workbook = readSpreadsheet(bytes, fileName);
+  const sheet = parseSheetRows(workbook.sheets[defaultSheetIndex(workbook)].rows);
+  return { workbook, sheet, recipients: extractRecipients(sheet.rows, sheet.nameColumn) };
+};
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+/** An XLSX file with one sheet per entry, cells written as given (numbers stay numbers). */
+const xlsxFile = (sheets: Record<string, unknown[][]>) => {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return new Uint8Array(XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer);
+};
+
+test("reads the bundled sample workbook", async () => {
+  const bytes = new Uint8Array(await readFile(path.join(__dirname, "../public/sample.xlsx")));
+  const { sheet, recipients } = upload(bytes, "sample.xlsx");
+  assert.deepEqual(
+    sheet.columnOptions.map((option) => option.label),
+    ["FullName"]
+  );
+  assert.equal(recipients.names.length, 10);
+  assert.equal(recipients.names[0], "Pooja patil");
+  assert.deepEqual(recipients.indices.slice(0, 2), [1, 2]);
+});
+
+test("skips a header row whose name column says so", () => {
+  const { sheet, recipients } = upload(utf8("ID,Student Name\n1,Ada\n2,Grace\n"), "list.csv");
+  assert.equal(sheet.nameColumn, 1);
+  assert.deepEqual(recipients.names, ["Ada", "Grace"]);
+  assert.deepEqual(recipients.indices, [1, 2]);
+});
+
+test("keeps the first row when there is no header", () => {
+  const { sheet, recipients } = upload(
+    utf8("Ada Lovelace,ada@example.org\nGrace Hopper,\n"),
+    "x.csv"
+  );
+  assert.equal(sheet.nameColumn, 0);
+  assert.deepEqual(
+    sheet.columnOptions.map((option) => option.label),
+    ["Ada Lovelace", "ada@example.org"]
+  );
+  assert.deepEqual(recipients.names, ["Ada Lovelace", "Grace Hopper"]);
+});
+
+test("labels missing header cells by position", () => {
+  const { sheet } = upload(utf8("Name,,Score\nAda,x,90,extra\n"), "x.csv");
+  assert.deepEqual(
+    sheet.columnOptions.map((option) => option.label),
+    ["Name", "Column 2", "Score", "Column 4"]
+  );
+});
+
+test("drops blank rows and trims cells", () => {
+  const { sheet, recipients } = upload(
+    utf8("Name,City\n\n  Ada  , London \n,,\n \t ,\nGrace,\n"),
+    "x.csv"
+  );
+  assert.deepEqual(sheet.rows, [
+    ["Name", "City"],
+    ["Ada", "London"],
+    ["Grace", ""],
+  ]);
+  assert.deepEqual(recipients.names, ["Ada", "Grace"]);
+});
+
+test("skips rows without a name but keeps their positions for the others", () => {
+  const { recipients } = upload(utf8("Name,Score\nAda,90\n,75\nGrace,88\n"), "x.csv");
+  assert.deepEqual(recipients.names, ["Ada", "Grace"]);
+  assert.deepEqual(recipients.indices, [1, 3]);
+});
+
+test("turns numeric workbook cells into plain text", () => {
+  const bytes = xlsxFile({
+    Results: [
+      ["Name", "Score", "Ratio", "Completed", "Passed"],
+      ["Ada", 90, 0.125, 45822, true],
+      ["Grace", -3, 1e21, 1, false],
+    ],
+  });
+  const { sheet } = upload(bytes, "results.xlsx");
+  assert.deepEqual(sheet.rows.slice(1), [
+    // Booleans have no text form on a certificate and read as empty.
+    ["Ada", "90", "0.125", "45822", ""],
+    ["Grace", "-3", "1e+21", "1", ""],
+  ]);
+});
+
+test("keeps leading zeros in text files", () => {
+  const { sheet } = upload(utf8("Name,RollNo\nAda,007\n"), "x.csv");
+  assert.deepEqual(sheet.rows[1], ["Ada", "007"]);
+});
+
+test("writes edited rows back with numbers as numbers and IDs as text", () => {
+  const bytes = rowsToXlsx([
+    ["Name", "Score", "RollNo"],
+    ["Ada", "90", "007"],
+  ]);
+  const sheet = XLSX.read(bytes, { type: "array" }).Sheets.Sheet1;
+  assert.equal(sheet.B2.t, "n");
+  assert.equal(sheet.C2.t, "s");
+  assert.deepEqual(upload(bytes, "edited.xlsx").sheet.rows[1], ["Ada", "90", "007"]);
+});
+
+test("starts on the first sheet with values", () => {
+  const bytes = xlsxFile({ Cover: [[], [null]], Attendees: [["Name"], ["Ada"]] });
+  const { workbook, recipients } = upload(bytes, "event.xlsx");
+  assert.deepEqual(
+    workbook.sheets.map((sheet) => sheet.name),
+    ["Cover", "Attendees"]
+  );
+  assert.equal(defaultSheetIndex(workbook), 1);
+  assert.deepEqual(recipients.names, ["Ada"]);
+});
+
+test("reads a named sheet and lists the sheets when the name is wrong", () => {
+  const bytes = xlsxFile({ One: [["Name"], ["Ada"]], Two: [["Name"], ["Grace"]] });
+  assert.deepEqual(readWorkbook(bytes, "event.xlsx", "Two").rows[1], ["Grace"]);
+  assert.throws(() => readWorkbook(bytes, "event.xlsx", "Three"), {
+    message: 'No sheet named "Three". Sheets: "One", "Two".',
+  });
+});
+
+test("rejects empty sheets and files that are not spreadsheets", () => {
+  assert.throws(() => upload(utf8("\n , \n"), "empty.csv"), {
+    message: "No values detected in the sheet.",
+  });
+  assert.throws(() => readSpreadsheet(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 1, 2]), "x.xlsx"), {
+    message: "The file is not a spreadsheet this app can read.",
+  });
+});
+
+test("detects semicolons, quoted delimiters, and line breaks inside quotes", () => {
+  const { workbook, sheet } = upload(
+    utf8('Name;Course\r\n"Lovelace; Ada";"Engines\nand ""looms"""\r\n'),
+    "export.csv"
+  );
+  assert.equal(workbook.text && describeDelimited(workbook.text), "semicolon-separated, utf-8");
+  assert.deepEqual(sheet.rows[1], ["Lovelace; Ada", 'Engines\nand "looms"']);
+});
+
+test("decodes UTF-16 with a byte order mark and falls back to Windows-1252", () => {
+  const text = "Name\tCity\nZoë\tKöln\n";
+  const utf16 = new Uint8Array([0xff, 0xfe, ...new Uint8Array(Buffer.from(text, "utf16le"))]);
+  const wide = upload(utf16, "export.txt");
+  assert.equal(wide.workbook.text?.encoding, "utf-16le");
+  assert.equal(wide.workbook.text?.delimiter, "\t");
+  assert.deepEqual(wide.sheet.rows[1], ["Zoë", "Köln"]);
+
+  const legacy = upload(new Uint8Array(Buffer.from("Name,City\nZoë,Köln\n", "latin1")), "x.csv");
+  assert.equal(legacy.workbook.text?.encoding, "windows-1252");
+  assert.deepEqual(legacy.sheet.rows[1], ["Zoë", "Köln"]);
+});
+
+test("reads CSV without an extension unless the bytes are a workbook", () => {
+  assert.equal(upload(utf8("Name\nAda\n"), "download").workbook.text?.delimiter, ",");
+  const bytes = xlsxFile({ Sheet1: [["Name"], ["Ada"]] });
+  assert.equal(upload(bytes, "download").workbook.text, null);
+});
+
+test("reads rows pasted from a spreadsheet as tab-separated text", () => {
+  const workbook = readPastedTable("Name\tScore\nAda\t90\n");
+  assert.equal(workbook.sheets[0].name, "Pasted rows");
+  assert.deepEqual(parseSheetRows(workbook.sheets[0].rows).rows[1], ["Ada", "90"]);
+});
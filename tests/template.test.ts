@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { formatDate } from "../src/lib/template";
+
+/** Runs `body` with the process in another timezone; Node picks up TZ changes at once. */
+const inTimezone = (timezone: string, body: () => void) => {
+  const previous = process.env.TZ;
+  process.env.TZ = timezone;
+  try {
+    body();
+  } finally {
+    if (previous === undefined) delete process.env.TZ;
+    else process.env.TZ = previous;
+  }
+};
+
+test("keeps the calendar day of ISO dates west and east of UTC", () => {
+  for (const timezone of ["America/New_York", "Pacific/Kiritimati"]) {
+    inTimezone(timezone, () => {
+      assert.equal(formatDate("2024-05-01"), "1 May 2024");
+      assert.equal(formatDate("2024-05"), "1 May 2024");
+      assert.equal(formatDate("2024-12-31", "DD/MM/YYYY"), "31/12/2024");
+      assert.equal(formatDate("May 1, 2024"), "1 May 2024");
+      assert.equal(formatDate("45413"), "1 May 2024");
+    });
+  }
+});
+
+test("leaves impossible ISO dates as typed", () => {
+  assert.equal(formatDate("2024-02-30"), "2024-02-30");
+});